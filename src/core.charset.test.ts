@@ -0,0 +1,94 @@
+import * as dicomParser from 'dicom-parser';
+import { describe, expect, it } from 'vitest';
+import { characterSets, decodeText, readText } from './core.charset.ts';
+
+const ESC = 0x1b;
+
+const ascii = (text: string) => Array.from(text, (character) => character.charCodeAt(0));
+
+/**
+ * Bare implicit VR little endian dataset of the elements, values padded with a space
+ */
+const implicitDataSet = (elements: [tag: number, value: number[]][]) => {
+    const bytes: number[] = [];
+
+    for (const [tag, value] of elements) {
+        const padded = value.length % 2 ? [...value, 0x20] : value;
+        const header = new DataView(new ArrayBuffer(8));
+        header.setUint16(0, tag >>> 16, true);
+        header.setUint16(2, tag & 0xffff, true);
+        header.setUint32(4, padded.length, true);
+        bytes.push(...new Uint8Array(header.buffer), ...padded);
+    }
+
+    return dicomParser.parseDicom(Uint8Array.from(bytes), {
+        TransferSyntaxUID: '1.2.840.10008.1.2',
+    });
+};
+
+describe('decodeText', () => {
+    it('decodes single byte character sets', () => {
+        expect(decodeText(new Uint8Array([0x48, 0xe9]), [])).toBe('Hé');
+        expect(decodeText(new Uint8Array([0x48, 0xe9]), ['ISO_IR 100'])).toBe('Hé');
+        expect(decodeText(new Uint8Array([0xbb, 0xee]), ['ISO_IR 144'])).toBe('Лю');
+    });
+
+    it('decodes UTF-8', () => {
+        expect(decodeText(new TextEncoder().encode('Wang^XiaoDong=王^小東'), ['ISO_IR 192'])).toBe(
+            'Wang^XiaoDong=王^小東'
+        );
+    });
+
+    it('switches code elements on ISO 2022 escape sequences (PS3.5 H.3.1)', () => {
+        const bytes = new Uint8Array([
+            ...ascii('Yamada^Tarou='),
+            ...[ESC, 0x24, 0x42, 0x3b, 0x33, 0x45, 0x44, ESC, 0x28, 0x42],
+            ...ascii('^'),
+            ...[ESC, 0x24, 0x42, 0x42, 0x40, 0x4f, 0x3a, ESC, 0x28, 0x42],
+            ...ascii('='),
+            ...[ESC, 0x24, 0x42, 0x24, 0x64, 0x24, 0x5e, 0x24, 0x40, ESC, 0x28, 0x42],
+            ...ascii('^'),
+            ...[ESC, 0x24, 0x42, 0x24, 0x3f, 0x24, 0x6d, 0x24, 0x26, ESC, 0x28, 0x42],
+        ]);
+
+        expect(decodeText(bytes, ['', 'ISO 2022 IR 87'])).toBe(
+            'Yamada^Tarou=山田^太郎=やまだ^たろう'
+        );
+    });
+
+    it('decodes the G1 element of a code extension (PS3.5 H.3.2)', () => {
+        const bytes = new Uint8Array([
+            ...[0xd4, 0xcf, 0xc0, 0xde, 0x5e, 0xc0, 0xdb, 0xb3],
+            ...ascii('='),
+            ...[ESC, 0x24, 0x42, 0x3b, 0x33, 0x45, 0x44, ESC, 0x28, 0x4a],
+        ]);
+
+        expect(decodeText(bytes, ['ISO 2022 IR 13', 'ISO 2022 IR 87'])).toBe('ﾔﾏﾀﾞ^ﾀﾛｳ=山田');
+    });
+});
+
+describe('characterSets and readText', () => {
+    it('reads multi-valued character sets and decodes values with them', () => {
+        const parsed = implicitDataSet([
+            [0x00080005, ascii('\\ISO 2022 IR 87')],
+            [0x00080016, ascii('1.2.3')],
+            [
+                0x00100010,
+                [
+                    ...ascii('Yamada='),
+                    ...[ESC, 0x24, 0x42, 0x3b, 0x33, 0x45, 0x44, ESC, 0x28, 0x42],
+                ],
+            ],
+        ]);
+        const characterSet = characterSets(parsed);
+
+        expect(characterSet).toEqual(['', 'ISO 2022 IR 87']);
+        expect(readText(parsed, 'x00100010', characterSet)).toBe('Yamada=山田');
+    });
+
+    it('falls back to the inherited character set', () => {
+        const parsed = implicitDataSet([[0x00080016, ascii('1.2.3')]]);
+
+        expect(characterSets(parsed, ['ISO_IR 192'])).toEqual(['ISO_IR 192']);
+    });
+});
@@ -0,0 +1,220 @@
+import type { DataSet } from 'dicom-parser';
+
+/**
+ * Specific Character Set defined terms without code extensions to TextDecoder labels
+ */
+const ENCODINGS: Record<string, string> = {
+    '': 'windows-1252',
+    'ISO_IR 6': 'windows-1252',
+    'ISO_IR 100': 'windows-1252',
+    'ISO_IR 101': 'iso-8859-2',
+    'ISO_IR 109': 'iso-8859-3',
+    'ISO_IR 110': 'iso-8859-4',
+    'ISO_IR 144': 'iso-8859-5',
+    'ISO_IR 127': 'iso-8859-6',
+    'ISO_IR 126': 'iso-8859-7',
+    'ISO_IR 138': 'iso-8859-8',
+    'ISO_IR 148': 'windows-1254',
+    'ISO_IR 203': 'iso-8859-15',
+    'ISO_IR 13': 'shift_jis',
+    'ISO_IR 166': 'windows-874',
+    'ISO_IR 192': 'utf-8',
+    GB18030: 'gb18030',
+    GBK: 'gbk',
+};
+
+/**
+ * Code extension defined terms (ISO 2022) to the code element they designate
+ */
+const EXTENSIONS: Record<string, { g0?: string; g1?: string }> = {
+    'ISO 2022 IR 6': { g0: 'ascii' },
+    'ISO 2022 IR 100': { g1: 'windows-1252' },
+    'ISO 2022 IR 101': { g1: 'iso-8859-2' },
+    'ISO 2022 IR 109': { g1: 'iso-8859-3' },
+    'ISO 2022 IR 110': { g1: 'iso-8859-4' },
+    'ISO 2022 IR 144': { g1: 'iso-8859-5' },
+    'ISO 2022 IR 127': { g1: 'iso-8859-6' },
+    'ISO 2022 IR 126': { g1: 'iso-8859-7' },
+    'ISO 2022 IR 138': { g1: 'iso-8859-8' },
+    'ISO 2022 IR 148': { g1: 'windows-1254' },
+    'ISO 2022 IR 203': { g1: 'iso-8859-15' },
+    'ISO 2022 IR 13': { g0: 'ascii', g1: 'shift_jis' },
+    'ISO 2022 IR 166': { g1: 'windows-874' },
+    'ISO 2022 IR 87': { g0: 'jis-x-0208' },
+    'ISO 2022 IR 159': { g0: 'jis-x-0212' },
+    'ISO 2022 IR 149': { g1: 'euc-kr' },
+    'ISO 2022 IR 58': { g1: 'gbk' },
+};
+
+/**
+ * Escape sequences (bytes following ESC) to the code element they designate
+ */
+const ESCAPES: Record<string, { g0?: string; g1?: string }> = {
+    '(B': { g0: 'ascii' },
+    '(J': { g0: 'ascii' },
+    ')I': { g1: 'shift_jis' },
+    $B: { g0: 'jis-x-0208' },
+    '$@': { g0: 'jis-x-0208' },
+    '$(D': { g0: 'jis-x-0212' },
+    '$)C': { g1: 'euc-kr' },
+    '$)A': { g1: 'gbk' },
+    '-A': { g1: 'windows-1252' },
+    '-B': { g1: 'iso-8859-2' },
+    '-C': { g1: 'iso-8859-3' },
+    '-D': { g1: 'iso-8859-4' },
+    '-L': { g1: 'iso-8859-5' },
+    '-G': { g1: 'iso-8859-6' },
+    '-F': { g1: 'iso-8859-7' },
+    '-H': { g1: 'iso-8859-8' },
+    '-M': { g1: 'windows-1254' },
+    '-b': { g1: 'iso-8859-15' },
+    '-T': { g1: 'windows-874' },
+};
+
+const ESC = 0x1b;
+
+const decoders = new Map<string, TextDecoder>();
+
+const decoder = (encoding: string) => {
+    if (!decoders.has(encoding)) {
+        decoders.set(encoding, new TextDecoder(encoding));
+    }
+
+    return decoders.get(encoding) as TextDecoder;
+};
+
+/**
+ * Run of bytes in a single code element
+ */
+const decodeRun = (bytes: Uint8Array, encoding: string) => {
+    switch (encoding) {
+        case 'ascii':
+            return decoder('windows-1252').decode(bytes);
+        case 'jis-x-0208': {
+            // let the ISO-2022-JP decoder handle the 7 bit two byte codes
+            const sequence = new Uint8Array(bytes.length + 3);
+            sequence.set([ESC, 0x24, 0x42]);
+            sequence.set(bytes, 3);
+            return decoder('iso-2022-jp').decode(sequence);
+        }
+        case 'jis-x-0212': {
+            // EUC-JP encodes JIS X 0212 as 0x8F and two bytes with the high bit set
+            const sequence: number[] = [];
+            for (let index = 0; index + 1 < bytes.length; index += 2) {
+                sequence.push(0x8f, bytes[index] | 0x80, bytes[index + 1] | 0x80);
+            }
+            return decoder('euc-jp').decode(new Uint8Array(sequence));
+        }
+        default:
+            return decoder(encoding).decode(bytes);
+    }
+};
+
+/**
+ * Value with ISO 2022 code extensions: escape sequences switch the G0 (bytes below 0x80)
+ * and G1 (bytes from 0x80) code elements, control characters switch G0 back to ASCII.
+ */
+const decodeExtended = (bytes: Uint8Array, characterSet: string[]) => {
+    const initial = EXTENSIONS[characterSet[0]] ?? {};
+    let g0 = initial.g0 ?? 'ascii';
+    let g1 = initial.g1 ?? 'windows-1252';
+
+    let text = '';
+    let start = 0;
+    let high = false;
+
+    const flush = (end: number) => {
+        if (end > start) {
+            text += decodeRun(bytes.subarray(start, end), high ? g1 : g0);
+        }
+        start = end;
+    };
+
+    for (let index = 0; index < bytes.length; index++) {
+        const byte = bytes[index];
+
+        if (byte === ESC) {
+            flush(index);
+
+            // intermediate bytes (0x20-0x2f) then a final byte
+            let end = index + 1;
+            while (end < bytes.length && bytes[end] >= 0x20 && bytes[end] <= 0x2f) end++;
+            const escape = String.fromCharCode(...bytes.subarray(index + 1, end + 1));
+            const designation = ESCAPES[escape] ?? {};
+
+            g0 = designation.g0 ?? g0;
+            g1 = designation.g1 ?? g1;
+            index = end;
+            start = end + 1;
+            continue;
+        }
+
+        if (byte === 0x09 || byte === 0x0a || byte === 0x0c || byte === 0x0d) {
+            flush(index);
+            g0 = initial.g0 ?? 'ascii';
+            high = false;
+            continue;
+        }
+
+        if (byte >= 0x80 !== high) {
+            flush(index);
+            high = byte >= 0x80;
+        }
+    }
+    flush(bytes.length);
+
+    return text;
+};
+
+/**
+ * Specific Character Set (0008,0005) of a dataset, the inherited one when it has none
+ */
+export const characterSets = (dataSet: DataSet, inherited: string[] = []): string[] => {
+    const element = dataSet.elements.x00080005;
+    if (!element) {
+        return inherited;
+    }
+
+    const count = dataSet.numStringValues('x00080005') ?? 1;
+    const values: string[] = [];
+    for (let index = 0; index < count; index++) {
+        values.push(dataSet.string('x00080005', index) ?? '');
+    }
+
+    return values;
+};
+
+/**
+ * Bytes of a text value (PN, LO, SH, ST, LT, UT, UC) to a string
+ */
+export const decodeText = (bytes: Uint8Array, characterSet: string[]) => {
+    if (characterSet.some((term) => term.startsWith('ISO 2022'))) {
+        return decodeExtended(bytes, characterSet);
+    }
+
+    return decodeRun(bytes, ENCODINGS[characterSet[0] ?? ''] ?? 'windows-1252');
+};
+
+/**
+ * dataSet.string() honoring the character set: the whole value or one of its values, trimmed
+ */
+export const readText = (
+    dataSet: DataSet,
+    tag: string,
+    characterSet: string[],
+    index?: number
+): string | undefined => {
+    const element = dataSet.elements[tag];
+    if (!element || !element.length) {
+        return undefined;
+    }
+
+    const bytes = dataSet.byteArray.subarray(
+        element.dataOffset,
+        element.dataOffset + element.length
+    );
+    const text = decodeText(bytes, characterSet);
+    const value = index === undefined ? text : text.split('\\')[index];
+
+    return value?.replace(/[\0 ]+$/, '').trim();
+};
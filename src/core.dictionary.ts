@@ -0,0 +1,447 @@
+export type VR =
+    | 'AE'
+    | 'AS'
+    | 'AT'
+    | 'CS'
+    | 'DA'
+    | 'DS'
+    | 'DT'
+    | 'FD'
+    | 'FL'
+    | 'IS'
+    | 'LO'
+    | 'LT'
+    | 'OB'
+    | 'OD'
+    | 'OF'
+    | 'OL'
+    | 'OV'
+    | 'OW'
+    | 'PN'
+    | 'SH'
+    | 'SL'
+    | 'SQ'
+    | 'SS'
+    | 'ST'
+    | 'SV'
+    | 'TM'
+    | 'UC'
+    | 'UI'
+    | 'UL'
+    | 'UN'
+    | 'UR'
+    | 'US'
+    | 'UT'
+    | 'UV';
+
+export interface DictionaryEntry {
+    tag: string;
+    keyword: string;
+    /**
+     * Value Representation, 'US or SS' style entries depend on Pixel Representation,
+     * 'US or OW' entries are written OW
+     */
+    vr: VR | 'US or SS' | 'US or OW' | 'OB or OW';
+    /** Value Multiplicity: '1', '2', '1-n', '2-2n'... */
+    vm: string;
+}
+
+/**
+ * Subset of the PS3.6 data dictionary: the attributes of the image, patient, study, series,
+ * enhanced multi-frame, segmentation, RT structure set, ultrasound and display modules.
+ */
+const ENTRIES: Record<string, [string, DictionaryEntry['vr'], string]> = {
+    // File Meta Information
+    x00020000: ['FileMetaInformationGroupLength', 'UL', '1'],
+    x00020001: ['FileMetaInformationVersion', 'OB', '1'],
+    x00020002: ['MediaStorageSOPClassUID', 'UI', '1'],
+    x00020003: ['MediaStorageSOPInstanceUID', 'UI', '1'],
+    x00020010: ['TransferSyntaxUID', 'UI', '1'],
+    x00020012: ['ImplementationClassUID', 'UI', '1'],
+    x00020013: ['ImplementationVersionName', 'SH', '1'],
+    x00020016: ['SourceApplicationEntityTitle', 'AE', '1'],
+    x00020100: ['PrivateInformationCreatorUID', 'UI', '1'],
+    x00020102: ['PrivateInformation', 'OB', '1'],
+
+    // Directory
+    x00041130: ['FileSetID', 'CS', '1'],
+    x00041200: ['OffsetOfTheFirstDirectoryRecordOfTheRootDirectoryEntity', 'UL', '1'],
+    x00041202: ['OffsetOfTheLastDirectoryRecordOfTheRootDirectoryEntity', 'UL', '1'],
+    x00041212: ['FileSetConsistencyFlag', 'US', '1'],
+    x00041220: ['DirectoryRecordSequence', 'SQ', '1'],
+    x00041400: ['OffsetOfTheNextDirectoryRecord', 'UL', '1'],
+    x00041410: ['RecordInUseFlag', 'US', '1'],
+    x00041420: ['OffsetOfReferencedLowerLevelDirectoryEntity', 'UL', '1'],
+    x00041430: ['DirectoryRecordType', 'CS', '1'],
+    x00041500: ['ReferencedFileID', 'CS', '1-8'],
+    x00041510: ['ReferencedSOPClassUIDInFile', 'UI', '1'],
+    x00041511: ['ReferencedSOPInstanceUIDInFile', 'UI', '1'],
+    x00041512: ['ReferencedTransferSyntaxUIDInFile', 'UI', '1'],
+
+    // SOP Common, General Study, General Series, General Equipment
+    x00080005: ['SpecificCharacterSet', 'CS', '1-n'],
+    x00080008: ['ImageType', 'CS', '2-n'],
+    x00080012: ['InstanceCreationDate', 'DA', '1'],
+    x00080013: ['InstanceCreationTime', 'TM', '1'],
+    x00080014: ['InstanceCreatorUID', 'UI', '1'],
+    x00080016: ['SOPClassUID', 'UI', '1'],
+    x00080018: ['SOPInstanceUID', 'UI', '1'],
+    x00080020: ['StudyDate', 'DA', '1'],
+    x00080021: ['SeriesDate', 'DA', '1'],
+    x00080022: ['AcquisitionDate', 'DA', '1'],
+    x00080023: ['ContentDate', 'DA', '1'],
+    x0008002a: ['AcquisitionDateTime', 'DT', '1'],
+    x00080030: ['StudyTime', 'TM', '1'],
+    x00080031: ['SeriesTime', 'TM', '1'],
+    x00080032: ['AcquisitionTime', 'TM', '1'],
+    x00080033: ['ContentTime', 'TM', '1'],
+    x00080050: ['AccessionNumber', 'SH', '1'],
+    x00080052: ['QueryRetrieveLevel', 'CS', '1'],
+    x00080054: ['RetrieveAETitle', 'AE', '1-n'],
+    x00080056: ['InstanceAvailability', 'CS', '1'],
+    x00080060: ['Modality', 'CS', '1'],
+    x00080061: ['ModalitiesInStudy', 'CS', '1-n'],
+    x00080064: ['ConversionType', 'CS', '1'],
+    x00080068: ['PresentationIntentType', 'CS', '1'],
+    x00080070: ['Manufacturer', 'LO', '1'],
+    x00080080: ['InstitutionName', 'LO', '1'],
+    x00080081: ['InstitutionAddress', 'ST', '1'],
+    x00080090: ['ReferringPhysicianName', 'PN', '1'],
+    x00080100: ['CodeValue', 'SH', '1'],
+    x00080102: ['CodingSchemeDesignator', 'SH', '1'],
+    x00080103: ['CodingSchemeVersion', 'SH', '1'],
+    x00080104: ['CodeMeaning', 'LO', '1'],
+    x00080201: ['TimezoneOffsetFromUTC', 'SH', '1'],
+    x00081010: ['StationName', 'SH', '1'],
+    x00081030: ['StudyDescription', 'LO', '1'],
+    x00081032: ['ProcedureCodeSequence', 'SQ', '1'],
+    x0008103e: ['SeriesDescription', 'LO', '1'],
+    x00081040: ['InstitutionalDepartmentName', 'LO', '1'],
+    x00081048: ['PhysiciansOfRecord', 'PN', '1-n'],
+    x00081050: ['PerformingPhysicianName', 'PN', '1-n'],
+    x00081060: ['NameOfPhysiciansReadingStudy', 'PN', '1-n'],
+    x00081070: ['OperatorsName', 'PN', '1-n'],
+    x00081090: ['ManufacturerModelName', 'LO', '1'],
+    x00081110: ['ReferencedStudySequence', 'SQ', '1'],
+    x00081111: ['ReferencedPerformedProcedureStepSequence', 'SQ', '1'],
+    x00081115: ['ReferencedSeriesSequence', 'SQ', '1'],
+    x00081140: ['ReferencedImageSequence', 'SQ', '1'],
+    x00081150: ['ReferencedSOPClassUID', 'UI', '1'],
+    x00081155: ['ReferencedSOPInstanceUID', 'UI', '1'],
+    x00081160: ['ReferencedFrameNumber', 'IS', '1-n'],
+    x00081190: ['RetrieveURL', 'UR', '1'],
+    x00081199: ['ReferencedSOPSequence', 'SQ', '1'],
+    x00082111: ['DerivationDescription', 'ST', '1'],
+    x00082112: ['SourceImageSequence', 'SQ', '1'],
+    x00089121: ['ReferencedRawDataSequence', 'SQ', '1'],
+    x00089124: ['DerivationImageSequence', 'SQ', '1'],
+    x00089205: ['PixelPresentation', 'CS', '1'],
+    x00089206: ['VolumetricProperties', 'CS', '1'],
+    x00089207: ['VolumeBasedCalculationTechnique', 'CS', '1'],
+
+    // Patient
+    x00100010: ['PatientName', 'PN', '1'],
+    x00100020: ['PatientID', 'LO', '1'],
+    x00100021: ['IssuerOfPatientID', 'LO', '1'],
+    x00100030: ['PatientBirthDate', 'DA', '1'],
+    x00100032: ['PatientBirthTime', 'TM', '1'],
+    x00100040: ['PatientSex', 'CS', '1'],
+    x00101000: ['OtherPatientIDs', 'LO', '1-n'],
+    x00101001: ['OtherPatientNames', 'PN', '1-n'],
+    x00101010: ['PatientAge', 'AS', '1'],
+    x00101020: ['PatientSize', 'DS', '1'],
+    x00101030: ['PatientWeight', 'DS', '1'],
+    x00101040: ['PatientAddress', 'LO', '1'],
+    x00102160: ['EthnicGroup', 'SH', '1'],
+    x00104000: ['PatientComments', 'LT', '1'],
+    x00120062: ['PatientIdentityRemoved', 'CS', '1'],
+    x00120063: ['DeidentificationMethod', 'LO', '1-n'],
+    x00120064: ['DeidentificationMethodCodeSequence', 'SQ', '1'],
+
+    // Acquisition
+    x00180010: ['ContrastBolusAgent', 'LO', '1'],
+    x00180015: ['BodyPartExamined', 'CS', '1'],
+    x00180020: ['ScanningSequence', 'CS', '1-n'],
+    x00180021: ['SequenceVariant', 'CS', '1-n'],
+    x00180022: ['ScanOptions', 'CS', '1-n'],
+    x00180023: ['MRAcquisitionType', 'CS', '1'],
+    x00180050: ['SliceThickness', 'DS', '1'],
+    x00180060: ['KVP', 'DS', '1'],
+    x00180080: ['RepetitionTime', 'DS', '1'],
+    x00180081: ['EchoTime', 'DS', '1'],
+    x00180082: ['InversionTime', 'DS', '1'],
+    x00180083: ['NumberOfAverages', 'DS', '1'],
+    x00180084: ['ImagingFrequency', 'DS', '1'],
+    x00180086: ['EchoNumbers', 'IS', '1-n'],
+    x00180087: ['MagneticFieldStrength', 'DS', '1'],
+    x00180088: ['SpacingBetweenSlices', 'DS', '1'],
+    x00180091: ['EchoTrainLength', 'IS', '1'],
+    x00181000: ['DeviceSerialNumber', 'LO', '1'],
+    x00181020: ['SoftwareVersions', 'LO', '1-n'],
+    x00181030: ['ProtocolName', 'LO', '1'],
+    x00181060: ['TriggerTime', 'DS', '1'],
+    x00181063: ['FrameTime', 'DS', '1'],
+    x00181065: ['FrameTimeVector', 'DS', '1-n'],
+    x00181088: ['HeartRate', 'IS', '1'],
+    x00181100: ['ReconstructionDiameter', 'DS', '1'],
+    x00181120: ['GantryDetectorTilt', 'DS', '1'],
+    x00181150: ['ExposureTime', 'IS', '1'],
+    x00181151: ['XRayTubeCurrent', 'IS', '1'],
+    x00181152: ['Exposure', 'IS', '1'],
+    x00181210: ['ConvolutionKernel', 'SH', '1-n'],
+    x00181250: ['ReceiveCoilName', 'SH', '1'],
+    x00181310: ['AcquisitionMatrix', 'US', '4'],
+    x00181312: ['InPlanePhaseEncodingDirection', 'CS', '1'],
+    x00181314: ['FlipAngle', 'DS', '1'],
+    x00181316: ['SAR', 'DS', '1'],
+    x00181318: ['dBdt', 'DS', '1'],
+    x00185100: ['PatientPosition', 'CS', '1'],
+    x00186011: ['SequenceOfUltrasoundRegions', 'SQ', '1'],
+    x00186012: ['RegionSpatialFormat', 'US', '1'],
+    x00186014: ['RegionDataType', 'US', '1'],
+    x00186016: ['RegionFlags', 'UL', '1'],
+    x00186018: ['RegionLocationMinX0', 'UL', '1'],
+    x0018601a: ['RegionLocationMinY0', 'UL', '1'],
+    x0018601c: ['RegionLocationMaxX1', 'UL', '1'],
+    x0018601e: ['RegionLocationMaxY1', 'UL', '1'],
+    x00186020: ['ReferencePixelX0', 'SL', '1'],
+    x00186022: ['ReferencePixelY0', 'SL', '1'],
+    x00186024: ['PhysicalUnitsXDirection', 'US', '1'],
+    x00186026: ['PhysicalUnitsYDirection', 'US', '1'],
+    x00186028: ['ReferencePixelPhysicalValueX', 'FD', '1'],
+    x0018602a: ['ReferencePixelPhysicalValueY', 'FD', '1'],
+    x0018602c: ['PhysicalDeltaX', 'FD', '1'],
+    x0018602e: ['PhysicalDeltaY', 'FD', '1'],
+    x00189004: ['ContentQualification', 'CS', '1'],
+    x00189087: ['DiffusionBValue', 'FD', '1'],
+    x00189089: ['DiffusionGradientOrientation', 'FD', '3'],
+    x00189117: ['MRDiffusionSequence', 'SQ', '1'],
+    x00189226: ['MRImageFrameTypeSequence', 'SQ', '1'],
+
+    // Image Plane, Frame of Reference, Enhanced Multi-frame
+    x0020000d: ['StudyInstanceUID', 'UI', '1'],
+    x0020000e: ['SeriesInstanceUID', 'UI', '1'],
+    x00200010: ['StudyID', 'SH', '1'],
+    x00200011: ['SeriesNumber', 'IS', '1'],
+    x00200012: ['AcquisitionNumber', 'IS', '1'],
+    x00200013: ['InstanceNumber', 'IS', '1'],
+    x00200020: ['PatientOrientation', 'CS', '2'],
+    x00200032: ['ImagePositionPatient', 'DS', '3'],
+    x00200037: ['ImageOrientationPatient', 'DS', '6'],
+    x00200052: ['FrameOfReferenceUID', 'UI', '1'],
+    x00200060: ['Laterality', 'CS', '1'],
+    x00200100: ['TemporalPositionIdentifier', 'IS', '1'],
+    x00200105: ['NumberOfTemporalPositions', 'IS', '1'],
+    x00201040: ['PositionReferenceIndicator', 'LO', '1'],
+    x00201041: ['SliceLocation', 'DS', '1'],
+    x00201208: ['NumberOfStudyRelatedInstances', 'IS', '1'],
+    x00201209: ['NumberOfSeriesRelatedInstances', 'IS', '1'],
+    x00204000: ['ImageComments', 'LT', '1'],
+    x00209056: ['StackID', 'SH', '1'],
+    x00209057: ['InStackPositionNumber', 'UL', '1'],
+    x00209071: ['FrameAnatomySequence', 'SQ', '1'],
+    x00209111: ['FrameContentSequence', 'SQ', '1'],
+    x00209113: ['PlanePositionSequence', 'SQ', '1'],
+    x00209116: ['PlaneOrientationSequence', 'SQ', '1'],
+    x00209128: ['TemporalPositionIndex', 'UL', '1'],
+    x00209153: ['NominalCardiacTriggerDelayTime', 'FD', '1'],
+    x00209156: ['FrameAcquisitionNumber', 'US', '1'],
+    x00209157: ['DimensionIndexValues', 'UL', '1-n'],
+    x00209158: ['FrameComments', 'LT', '1'],
+    x00209161: ['ConcatenationUID', 'UI', '1'],
+    x00209162: ['InConcatenationNumber', 'US', '1'],
+    x00209163: ['InConcatenationTotalNumber', 'US', '1'],
+    x00209164: ['DimensionOrganizationUID', 'UI', '1'],
+    x00209165: ['DimensionIndexPointer', 'AT', '1'],
+    x00209167: ['FunctionalGroupPointer', 'AT', '1'],
+    x00209221: ['DimensionOrganizationSequence', 'SQ', '1'],
+    x00209222: ['DimensionIndexSequence', 'SQ', '1'],
+    x00209228: ['ConcatenationFrameOffsetNumber', 'UL', '1'],
+    x00209241: ['NominalPercentageOfCardiacPhase', 'FL', '1'],
+    x00209421: ['DimensionDescriptionLabel', 'LO', '1'],
+    x00209453: ['FrameLabel', 'LO', '1'],
+
+    // Image Pixel
+    x00280002: ['SamplesPerPixel', 'US', '1'],
+    x00280004: ['PhotometricInterpretation', 'CS', '1'],
+    x00280006: ['PlanarConfiguration', 'US', '1'],
+    x00280008: ['NumberOfFrames', 'IS', '1'],
+    x00280009: ['FrameIncrementPointer', 'AT', '1-n'],
+    x00280010: ['Rows', 'US', '1'],
+    x00280011: ['Columns', 'US', '1'],
+    x00280030: ['PixelSpacing', 'DS', '2'],
+    x00280034: ['PixelAspectRatio', 'IS', '2'],
+    x00280100: ['BitsAllocated', 'US', '1'],
+    x00280101: ['BitsStored', 'US', '1'],
+    x00280102: ['HighBit', 'US', '1'],
+    x00280103: ['PixelRepresentation', 'US', '1'],
+    x00280106: ['SmallestImagePixelValue', 'US or SS', '1'],
+    x00280107: ['LargestImagePixelValue', 'US or SS', '1'],
+    x00280120: ['PixelPaddingValue', 'US or SS', '1'],
+    x00280301: ['BurnedInAnnotation', 'CS', '1'],
+    x00280303: ['LongitudinalTemporalInformationModified', 'CS', '1'],
+    x00280a02: ['PixelSpacingCalibrationType', 'CS', '1'],
+    x00281040: ['PixelIntensityRelationship', 'CS', '1'],
+    x00281041: ['PixelIntensityRelationshipSign', 'SS', '1'],
+    x00281050: ['WindowCenter', 'DS', '1-n'],
+    x00281051: ['WindowWidth', 'DS', '1-n'],
+    x00281052: ['RescaleIntercept', 'DS', '1'],
+    x00281053: ['RescaleSlope', 'DS', '1'],
+    x00281054: ['RescaleType', 'LO', '1'],
+    x00281055: ['WindowCenterWidthExplanation', 'LO', '1-n'],
+    x00281056: ['VOILUTFunction', 'CS', '1'],
+    x00281101: ['RedPaletteColorLookupTableDescriptor', 'US or SS', '3'],
+    x00281102: ['GreenPaletteColorLookupTableDescriptor', 'US or SS', '3'],
+    x00281103: ['BluePaletteColorLookupTableDescriptor', 'US or SS', '3'],
+    x00281199: ['PaletteColorLookupTableUID', 'UI', '1'],
+    x00281201: ['RedPaletteColorLookupTableData', 'OW', '1'],
+    x00281202: ['GreenPaletteColorLookupTableData', 'OW', '1'],
+    x00281203: ['BluePaletteColorLookupTableData', 'OW', '1'],
+    x00281221: ['SegmentedRedPaletteColorLookupTableData', 'OW', '1'],
+    x00281222: ['SegmentedGreenPaletteColorLookupTableData', 'OW', '1'],
+    x00281223: ['SegmentedBluePaletteColorLookupTableData', 'OW', '1'],
+    x00282110: ['LossyImageCompression', 'CS', '1'],
+    x00282112: ['LossyImageCompressionRatio', 'DS', '1-n'],
+    x00282114: ['LossyImageCompressionMethod', 'CS', '1-n'],
+    x00283000: ['ModalityLUTSequence', 'SQ', '1'],
+    x00283002: ['LUTDescriptor', 'US or SS', '3'],
+    x00283003: ['LUTExplanation', 'LO', '1'],
+    x00283004: ['ModalityLUTType', 'LO', '1'],
+    x00283006: ['LUTData', 'US or OW', '1-n'],
+    x00283010: ['VOILUTSequence', 'SQ', '1'],
+    x00289110: ['PixelMeasuresSequence', 'SQ', '1'],
+    x00289132: ['FrameVOILUTSequence', 'SQ', '1'],
+    x00289145: ['PixelValueTransformationSequence', 'SQ', '1'],
+
+    // Study and procedure
+    x00321032: ['RequestingPhysician', 'PN', '1'],
+    x00321060: ['RequestedProcedureDescription', 'LO', '1'],
+    x00400244: ['PerformedProcedureStepStartDate', 'DA', '1'],
+    x00400245: ['PerformedProcedureStepStartTime', 'TM', '1'],
+    x00400253: ['PerformedProcedureStepID', 'SH', '1'],
+    x00400254: ['PerformedProcedureStepDescription', 'LO', '1'],
+    x00401001: ['RequestedProcedureID', 'SH', '1'],
+    x0040a124: ['UID', 'UI', '1'],
+
+    // PET
+    x00540016: ['RadiopharmaceuticalInformationSequence', 'SQ', '1'],
+    x00540022: ['DetectorInformationSequence', 'SQ', '1'],
+    x00540081: ['NumberOfSlices', 'US', '1'],
+    x00541001: ['Units', 'CS', '1'],
+    x00541002: ['CountsSource', 'CS', '1'],
+    x00541102: ['DecayCorrection', 'CS', '1'],
+    x00541300: ['FrameReferenceTime', 'DS', '1'],
+    x00181072: ['RadiopharmaceuticalStartTime', 'TM', '1'],
+    x00181074: ['RadionuclideTotalDose', 'DS', '1'],
+    x00181075: ['RadionuclideHalfLife', 'DS', '1'],
+
+    // Segmentation
+    x00620001: ['SegmentationType', 'CS', '1'],
+    x00620002: ['SegmentSequence', 'SQ', '1'],
+    x00620003: ['SegmentedPropertyCategoryCodeSequence', 'SQ', '1'],
+    x00620004: ['SegmentNumber', 'US', '1'],
+    x00620005: ['SegmentLabel', 'LO', '1'],
+    x00620006: ['SegmentDescription', 'ST', '1'],
+    x00620008: ['SegmentAlgorithmType', 'CS', '1'],
+    x00620009: ['SegmentAlgorithmName', 'LO', '1-n'],
+    x0062000a: ['SegmentIdentificationSequence', 'SQ', '1'],
+    x0062000b: ['ReferencedSegmentNumber', 'US', '1-n'],
+    x0062000c: ['RecommendedDisplayGrayscaleValue', 'US', '1'],
+    x0062000d: ['RecommendedDisplayCIELabValue', 'US', '3'],
+    x0062000e: ['MaximumFractionalValue', 'US', '1'],
+    x0062000f: ['SegmentedPropertyTypeCodeSequence', 'SQ', '1'],
+    x00620010: ['SegmentationFractionalType', 'CS', '1'],
+
+    // RT Structure Set
+    x30060002: ['StructureSetLabel', 'SH', '1'],
+    x30060004: ['StructureSetName', 'LO', '1'],
+    x30060008: ['StructureSetDate', 'DA', '1'],
+    x30060009: ['StructureSetTime', 'TM', '1'],
+    x30060010: ['ReferencedFrameOfReferenceSequence', 'SQ', '1'],
+    x30060012: ['RTReferencedStudySequence', 'SQ', '1'],
+    x30060014: ['RTReferencedSeriesSequence', 'SQ', '1'],
+    x30060016: ['ContourImageSequence', 'SQ', '1'],
+    x30060020: ['StructureSetROISequence', 'SQ', '1'],
+    x30060022: ['ROINumber', 'IS', '1'],
+    x30060024: ['ReferencedFrameOfReferenceUID', 'UI', '1'],
+    x30060026: ['ROIName', 'LO', '1'],
+    x30060028: ['ROIDescription', 'ST', '1'],
+    x3006002a: ['ROIDisplayColor', 'IS', '3'],
+    x30060036: ['ROIGenerationAlgorithm', 'CS', '1'],
+    x30060039: ['ROIContourSequence', 'SQ', '1'],
+    x30060040: ['ContourSequence', 'SQ', '1'],
+    x30060042: ['ContourGeometricType', 'CS', '1'],
+    x30060046: ['NumberOfContourPoints', 'IS', '1'],
+    x30060048: ['ContourNumber', 'IS', '1'],
+    x30060050: ['ContourData', 'DS', '3-3n'],
+    x30060080: ['RTROIObservationsSequence', 'SQ', '1'],
+    x30060082: ['ObservationNumber', 'IS', '1'],
+    x30060084: ['ReferencedROINumber', 'IS', '1'],
+    x300600a4: ['RTROIInterpretedType', 'CS', '1'],
+    x300600a6: ['ROIInterpreter', 'PN', '1'],
+
+    // Functional groups, overlays, pixel data
+    x52009229: ['SharedFunctionalGroupsSequence', 'SQ', '1'],
+    x52009230: ['PerFrameFunctionalGroupsSequence', 'SQ', '1'],
+    x60000010: ['OverlayRows', 'US', '1'],
+    x60000011: ['OverlayColumns', 'US', '1'],
+    x60000015: ['NumberOfFramesInOverlay', 'IS', '1'],
+    x60000022: ['OverlayDescription', 'LO', '1'],
+    x60000040: ['OverlayType', 'CS', '1'],
+    x60000050: ['OverlayOrigin', 'SS', '2'],
+    x60000051: ['ImageFrameOrigin', 'US', '1'],
+    x60000100: ['OverlayBitsAllocated', 'US', '1'],
+    x60000102: ['OverlayBitPosition', 'US', '1'],
+    x60003000: ['OverlayData', 'OB or OW', '1'],
+    x7fe00008: ['FloatPixelData', 'OF', '1'],
+    x7fe00009: ['DoubleFloatPixelData', 'OD', '1'],
+    x7fe00010: ['PixelData', 'OB or OW', '1'],
+    xfffafffa: ['DigitalSignaturesSequence', 'SQ', '1'],
+    xfffcfffc: ['DataSetTrailingPadding', 'OB', '1'],
+};
+
+const KEYWORDS = new Map(Object.entries(ENTRIES).map(([tag, [keyword]]) => [keyword, tag]));
+
+/**
+ * Normalize a keyword ('PixelSpacing'), a number (0x00280030), a 'x00280030' string
+ * or a '(0028,0030)' string to the 'xGGGGEEEE' form used by dicom-parser.
+ */
+export const toTag = (tag: string | number): string | null => {
+    if (typeof tag === 'number') {
+        return 'x' + (tag >>> 0).toString(16).padStart(8, '0');
+    }
+
+    const match = /^\(?x?([0-9a-f]{4}),?([0-9a-f]{4})\)?$/i.exec(tag);
+    if (match) {
+        return `x${match[1]}${match[2]}`.toLowerCase();
+    }
+
+    return KEYWORDS.get(tag) ?? null;
+};
+
+/**
+ * '(GGGG,EEEE)' notation of a 'xGGGGEEEE' tag
+ */
+export const formatTag = (tag: string) => `(${tag.slice(1, 5)},${tag.slice(5, 9)})`.toUpperCase();
+
+export const isPrivateTag = (tag: string) => parseInt(tag.slice(1, 5), 16) % 2 === 1;
+
+/**
+ * Dictionary entry of a tag, repeating groups (60xx overlays) included.
+ */
+export const dictionaryEntry = (tag: string): DictionaryEntry | null => {
+    const group = parseInt(tag.slice(1, 5), 16);
+    const key = group >= 0x6000 && group <= 0x601e ? `x6000${tag.slice(5)}` : tag;
+
+    if (ENTRIES[key]) {
+        const [keyword, vr, vm] = ENTRIES[key];
+        return { tag, keyword, vr, vm };
+    }
+
+    // group length of any group
+    if (tag.endsWith('0000')) {
+        return { tag, keyword: 'GenericGroupLength', vr: 'UL', vm: '1' };
+    }
+
+    return null;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { renderFrame } from './core.display.ts';
+import MutableDataSet from './model.dataset.ts';
+import DicomParser from './parser.dicom.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+/**
+ * Single row palette color image, the same lookup table for the three channels
+ */
+const paletteImage = (
+    indexes: number[],
+    bitsAllocated: number,
+    lookupTable: { firstMappedValue: number; bitsPerEntry: number; entries: number[] }
+) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.7');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4');
+    dataSet.setString('PhotometricInterpretation', 'PALETTE COLOR', 'CS');
+    dataSet.setNumbers('SamplesPerPixel', 1, 'US');
+    dataSet.setNumbers('Rows', 1, 'US');
+    dataSet.setNumbers('Columns', indexes.length, 'US');
+    dataSet.setNumbers('BitsAllocated', bitsAllocated, 'US');
+    dataSet.setNumbers('BitsStored', bitsAllocated, 'US');
+    dataSet.setNumbers('HighBit', bitsAllocated - 1, 'US');
+    dataSet.setNumbers('PixelRepresentation', 0, 'US');
+
+    const { firstMappedValue, bitsPerEntry, entries } = lookupTable;
+    const data =
+        bitsPerEntry > 8
+            ? new Uint8Array(Uint16Array.from(entries).buffer)
+            : Uint8Array.from(entries.length % 2 ? [...entries, 0] : entries);
+    for (const channel of ['1', '2', '3']) {
+        dataSet.setNumbers(
+            `x0028110${channel}`,
+            [entries.length, firstMappedValue, bitsPerEntry],
+            'US'
+        );
+        dataSet.setBytes(`x0028120${channel}`, data, 'OW');
+    }
+
+    dataSet.setBytes(
+        'x7fe00010',
+        bitsAllocated > 8
+            ? new Uint8Array(Uint16Array.from(indexes).buffer)
+            : Uint8Array.from(indexes.length % 2 ? [...indexes, 0] : indexes),
+        bitsAllocated > 8 ? 'OW' : 'OB'
+    );
+
+    return new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+};
+
+describe('renderFrame', () => {
+    it('brings 16 bit palette entries of 8 bit indexes to 8 bits', async () => {
+        const entries = Array.from({ length: 256 }, (_, index) => index << 8);
+        const dicomParser = paletteImage([0x12, 0xff], 8, {
+            firstMappedValue: 0,
+            bitsPerEntry: 16,
+            entries,
+        });
+
+        expect(Array.from(await renderFrame(dicomParser))).toEqual([
+            0x12, 0x12, 0x12, 0xff, 0xff, 0xff,
+        ]);
+    });
+
+    it('keeps 8 bit palette entries of 16 bit indexes', async () => {
+        const dicomParser = paletteImage([1000, 1003], 16, {
+            firstMappedValue: 1000,
+            bitsPerEntry: 8,
+            entries: [10, 20, 30, 40],
+        });
+
+        expect(Array.from(await renderFrame(dicomParser))).toEqual([10, 10, 10, 40, 40, 40]);
+    });
+
+    it('brings 12 bit RGB samples stored in 16 bits to 8 bits', async () => {
+        const dataSet = new MutableDataSet();
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.7');
+        dataSet.setString('SOPInstanceUID', '1.2.3.4');
+        dataSet.setString('PhotometricInterpretation', 'RGB', 'CS');
+        dataSet.setNumbers('SamplesPerPixel', 3, 'US');
+        dataSet.setNumbers('PlanarConfiguration', 0, 'US');
+        dataSet.setNumbers('Rows', 1, 'US');
+        dataSet.setNumbers('Columns', 1, 'US');
+        dataSet.setNumbers('BitsAllocated', 16, 'US');
+        dataSet.setNumbers('BitsStored', 12, 'US');
+        dataSet.setNumbers('HighBit', 11, 'US');
+        dataSet.setNumbers('PixelRepresentation', 0, 'US');
+        dataSet.setBytes(
+            'x7fe00010',
+            new Uint8Array(Uint16Array.from([0xfff, 0x800, 0x10]).buffer),
+            'OW'
+        );
+        const dicomParser = new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+
+        expect(Array.from(await renderFrame(dicomParser))).toEqual([0xff, 0x80, 0x01]);
+    });
+});
@@ -0,0 +1,197 @@
+import type { TypedArray } from '@cornerstonejs/dicom-codec';
+import type DicomParser from './parser.dicom.ts';
+import type { LookupTable, VOIWindow } from './parser.dicom.ts';
+
+export type VOILUTFunction = 'LINEAR' | 'LINEAR_EXACT' | 'SIGMOID';
+
+/**
+ * Values of interest transform: a window or a VOI lookup table.
+ */
+export type VOI =
+    | { type: 'window'; window: VOIWindow; voiLUTFunction: VOILUTFunction }
+    | { type: 'lut'; lookupTable: LookupTable };
+
+export interface DisplayOptions {
+    frameIndex?: number;
+    /** Index of the transform among `voiChoices` (defaults to the first one) */
+    voiIndex?: number;
+    /** Window overriding the ones of the file */
+    window?: { center: number; width: number };
+    /** Function overriding the VOI LUT Function of the file */
+    voiLUTFunction?: VOILUTFunction;
+}
+
+const lookup = (lookupTable: LookupTable, value: number) => {
+    const index = Math.min(
+        Math.max(Math.round(value) - lookupTable.firstMappedValue, 0),
+        lookupTable.data.length - 1
+    );
+
+    return lookupTable.data[index];
+};
+
+/**
+ * Stored values to modality values (e.g. Hounsfield units), through the Modality LUT Sequence
+ * or the rescale slope and intercept.
+ */
+export const modalityValues = (dicomParser: DicomParser, pixelData: TypedArray, frameIndex = 0) => {
+    const values = new Float32Array(pixelData.length);
+    const modalityLookupTable = dicomParser.modalityLookupTable();
+
+    if (modalityLookupTable) {
+        for (let i = 0; i < pixelData.length; i++) {
+            values[i] = lookup(modalityLookupTable, pixelData[i]);
+        }
+
+        return values;
+    }
+
+    const slope = dicomParser.rescaleSlope(frameIndex) ?? 1;
+    const intercept = dicomParser.rescaleIntercept(frameIndex) ?? 0;
+    for (let i = 0; i < pixelData.length; i++) {
+        values[i] = pixelData[i] * slope + intercept;
+    }
+
+    return values;
+};
+
+/**
+ * Every VOI transform the frame carries: windows first, then VOI lookup tables.
+ */
+export const voiChoices = (dicomParser: DicomParser, frameIndex = 0): VOI[] => {
+    const voiLUTFunction = (dicomParser.voiLUTFunction(frameIndex) ?? 'LINEAR') as VOILUTFunction;
+
+    return [
+        ...dicomParser
+            .windows(frameIndex)
+            .map((window): VOI => ({ type: 'window', window, voiLUTFunction })),
+        ...dicomParser
+            .voiLookupTables(frameIndex)
+            .map((lookupTable): VOI => ({ type: 'lut', lookupTable })),
+    ];
+};
+
+/**
+ * Window covering the whole range of values, when the file has no VOI transform.
+ */
+export const fullRangeWindow = (values: Float32Array): VOIWindow => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+        min = Math.min(min, values[i]);
+        max = Math.max(max, values[i]);
+    }
+
+    if (min > max) {
+        return { center: 0, width: 1, explanation: 'full range' };
+    }
+
+    return { center: (min + max) / 2, width: Math.max(max - min, 1), explanation: 'full range' };
+};
+
+/**
+ * Window function, maps a value to [0, 255]
+ * https://dicom.nema.org/medical/dicom/current/output/chtml/part03/sect_C.11.2.html#sect_C.11.2.1.2
+ */
+const windowFunction = (window: VOIWindow, voiLUTFunction: VOILUTFunction) => {
+    const { center, width } = window;
+
+    switch (voiLUTFunction) {
+        case 'LINEAR_EXACT':
+            return (x: number) => {
+                if (x <= center - width / 2) return 0;
+                if (x > center + width / 2) return 255;
+                return ((x - center) / width + 0.5) * 255;
+            };
+        case 'SIGMOID':
+            return (x: number) => 255 / (1 + Math.exp((-4 * (x - center)) / width));
+        case 'LINEAR':
+        default: {
+            const w = Math.max(width, 1);
+            return (x: number) => {
+                if (x <= center - 0.5 - (w - 1) / 2) return 0;
+                if (x > center - 0.5 + (w - 1) / 2) return 255;
+                return ((x - (center - 0.5)) / (w - 1) + 0.5) * 255;
+            };
+        }
+    }
+};
+
+/**
+ * Modality values to an 8 bit display image, inverted for MONOCHROME1.
+ */
+export const applyVOI = (values: Float32Array, voi: VOI, invert = false) => {
+    const displayData = new Uint8Array(values.length);
+
+    let transform: (x: number) => number;
+    if (voi.type === 'window') {
+        transform = windowFunction(voi.window, voi.voiLUTFunction);
+    } else {
+        const maxValue = 2 ** voi.lookupTable.bitsPerEntry - 1;
+        transform = (x: number) => (lookup(voi.lookupTable, x) / maxValue) * 255;
+    }
+
+    for (let i = 0; i < values.length; i++) {
+        const value = Math.min(Math.max(Math.round(transform(values[i])), 0), 255);
+        displayData[i] = invert ? 255 - value : value;
+    }
+
+    return displayData;
+};
+
+/**
+ * Bits per sample of decoded color data: palette color samples come from the lookup tables,
+ * whatever the bits allocated to the indexes, other samples use the bits stored.
+ */
+const sampleBits = (dicomParser: DicomParser, pixelData: TypedArray) => {
+    if (pixelData.BYTES_PER_ELEMENT === 1) {
+        return 8;
+    }
+
+    const lookupTables = dicomParser.paletteColorLookupTables;
+    if (dicomParser.photometricInterpretation === 'PALETTE COLOR' && lookupTables) {
+        const { red, green, blue } = lookupTables;
+        return Math.max(red.bitsPerEntry, green.bitsPerEntry, blue.bitsPerEntry);
+    }
+
+    return dicomParser.bitsStored ?? dicomParser.bitsAllocated ?? 16;
+};
+
+/**
+ * Decode a frame and turn it into a display-ready 8 bit image:
+ * one byte per pixel for grayscale images, interleaved RGB for color images.
+ */
+export const renderFrame = async (dicomParser: DicomParser, options: DisplayOptions = {}) => {
+    const { frameIndex = 0, voiIndex = 0 } = options;
+    const pixelData = await dicomParser.extractPixelData(frameIndex);
+
+    // color images only need their samples brought to 8 bits
+    if (dicomParser.numberOfChannels > 1) {
+        const shift = Math.max(sampleBits(dicomParser, pixelData) - 8, 0);
+        return Uint8Array.from(pixelData, (value) => value >> shift);
+    }
+
+    const values = modalityValues(dicomParser, pixelData, frameIndex);
+
+    let voi: VOI;
+    if (options.window) {
+        voi = {
+            type: 'window',
+            window: { ...options.window, explanation: null },
+            voiLUTFunction: options.voiLUTFunction ?? 'LINEAR',
+        };
+    } else {
+        const choices = voiChoices(dicomParser, frameIndex);
+        voi = choices[voiIndex] ?? choices[0];
+
+        if (!voi) {
+            voi = { type: 'window', window: fullRangeWindow(values), voiLUTFunction: 'LINEAR' };
+        }
+
+        if (voi.type === 'window' && options.voiLUTFunction) {
+            voi = { ...voi, voiLUTFunction: options.voiLUTFunction };
+        }
+    }
+
+    return applyVOI(values, voi, dicomParser.invert());
+};
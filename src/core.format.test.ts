@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseOptions } from './core.format.ts';
+
+const IMPLICIT = { TransferSyntaxUID: '1.2.840.10008.1.2' };
+
+/**
+ * Implicit VR little endian elements: tag, then value of the given length
+ */
+const implicitElements = (...elements: [group: number, element: number, length: number][]) => {
+    const bytes = new Uint8Array(elements.reduce((size, [, , length]) => size + 8 + length, 0));
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+
+    for (const [group, element, length] of elements) {
+        view.setUint16(offset, group, true);
+        view.setUint16(offset + 2, element, true);
+        view.setUint32(offset + 4, length, true);
+        bytes.fill(0x31, offset + 8, offset + 8 + length);
+        offset += 8 + length;
+    }
+
+    return bytes;
+};
+
+describe('parseOptions', () => {
+    it('reads the transfer syntax of Part 10 files from their header', () => {
+        const bytes = new Uint8Array(140);
+        bytes.set([0x44, 0x49, 0x43, 0x4d], 128);
+
+        expect(parseOptions(bytes)).toEqual({});
+    });
+
+    it('recognizes bare implicit VR datasets from group 0008 on', () => {
+        expect(parseOptions(implicitElements([0x0008, 0x0016, 4], [0x0008, 0x0018, 4]))).toEqual(
+            IMPLICIT
+        );
+        // no group 0008, e.g. a dataset that starts with the patient module
+        expect(parseOptions(implicitElements([0x0010, 0x0010, 8], [0x0020, 0x000d, 6]))).toEqual(
+            IMPLICIT
+        );
+        // the next element is past the first bytes
+        expect(parseOptions(implicitElements([0x0028, 0x0010, 2]))).toEqual(IMPLICIT);
+    });
+
+    it('rejects other content', () => {
+        expect(parseOptions(new TextEncoder().encode('not a DICOM file at all'))).toBeNull();
+        expect(parseOptions(new Uint8Array(4))).toBeNull();
+        // meta group without preamble, items
+        expect(parseOptions(implicitElements([0x0002, 0x0010, 4], [0x0002, 0x0012, 4]))).toBeNull();
+        expect(parseOptions(implicitElements([0xfffe, 0xe000, 4]))).toBeNull();
+        // tags not in ascending order
+        expect(parseOptions(implicitElements([0x0010, 0x0020, 4], [0x0010, 0x0010, 4]))).toBeNull();
+        // explicit VR
+        expect(parseOptions(new Uint8Array([0x08, 0x00, 0x16, 0x00, 0x55, 0x49, 4, 0]))).toBeNull();
+    });
+});
@@ -0,0 +1,40 @@
+import type { ParseDicomOptions } from 'dicom-parser';
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+
+/**
+ * Parse options of a file from its first bytes, null if it is not DICOM.
+ * Part 10 files have 'DICM' after the 128 byte preamble. Bare datasets (e.g. in archives)
+ * are implicit VR little endian: they start with an element of group 0008 or above
+ * with a defined length up to 0xffff, followed by an element with a greater tag.
+ * Explicit VR datasets without the Part 10 header are not recognized.
+ */
+export const parseOptions = (bytes: Uint8Array): ParseDicomOptions | null => {
+    if (bytes.length >= 132 && String.fromCharCode(...bytes.subarray(128, 132)) === 'DICM') {
+        return {};
+    }
+
+    if (bytes.length < 8) {
+        return null;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tag = (offset: number) =>
+        view.getUint16(offset, true) * 0x10000 + view.getUint16(offset + 2, true);
+    const group = view.getUint16(0, true);
+    const length = view.getUint32(4, true);
+    const explicitVR = /^[A-Z]{2}$/.test(String.fromCharCode(bytes[4], bytes[5]));
+
+    // Группы ниже 0008 только в заголовке Part 10, FFFE — элементы последовательностей
+    if (group < 0x0008 || group >= 0xfffe || explicitVR || length > 0xffff) {
+        return null;
+    }
+
+    // Следующий элемент, если он в прочитанных байтах, идёт после первого
+    const next = 8 + length;
+    if (next + 4 <= bytes.length && tag(next) <= tag(0)) {
+        return null;
+    }
+
+    return { TransferSyntaxUID: IMPLICIT_VR_LITTLE_ENDIAN };
+};
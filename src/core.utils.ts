@@ -0,0 +1,88 @@
+import { Matrix4, Vector3 } from 'three';
+
+export default class Utils {
+    /**
+     * Matrix that maps voxel indices to patient coordinates (LPS).
+     *
+     * @param o position of the first voxel
+     * @param i step between two columns
+     * @param j step between two rows
+     * @param k step between two slices
+     */
+    public static ijk2lps(o: Vector3, i: Vector3, j: Vector3, k: Vector3) {
+        return new Matrix4().makeBasis(i, j, k).setPosition(o);
+    }
+
+    /**
+     * Row, column and normal direction cosines from Image Orientation (Patient).
+     * The normal is computed as row x column.
+     */
+    public static directionCosines(imageOrientation: number[]): [Vector3, Vector3, Vector3] {
+        const row = new Vector3(imageOrientation[0], imageOrientation[1], imageOrientation[2]);
+        const column = new Vector3(imageOrientation[3], imageOrientation[4], imageOrientation[5]);
+        row.normalize();
+        column.normalize();
+        const normal = new Vector3().crossVectors(row, column).normalize();
+
+        return [row, column, normal];
+    }
+
+    /**
+     * Signed distance of a position along the slice normal.
+     */
+    public static distanceAlongNormal(position: number[], normal: Vector3) {
+        return new Vector3(position[0], position[1], position[2]).dot(normal);
+    }
+
+    /**
+     * Name of the anatomical plane closest to the slice, 'oblique' when none is.
+     */
+    public static orientationLabel(normal: Vector3) {
+        const components = [Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z)];
+        const major = components.indexOf(Math.max(...components));
+
+        if (components[major] < 0.9) {
+            return 'oblique';
+        }
+
+        return ['sagittal', 'coronal', 'axial'][major];
+    }
+
+    /**
+     * CIELab (D65) to 8 bit sRGB
+     * https://dicom.nema.org/medical/dicom/current/output/chtml/part03/sect_C.10.7.html#sect_C.10.7.1.1
+     */
+    public static cielabToRGB(cielab: number[]): [number, number, number] {
+        const [l, a, b] = cielab;
+
+        // CIELab to XYZ
+        const fy = (l + 16) / 116;
+        const fx = fy + a / 500;
+        const fz = fy - b / 200;
+        const inverse = (t: number) => (t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29));
+        const x = 0.95047 * inverse(fx);
+        const y = 1.0 * inverse(fy);
+        const z = 1.08883 * inverse(fz);
+
+        // XYZ to linear sRGB, then gamma
+        const linear = [
+            3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+            -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+            0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+        ];
+        const gamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+        return linear.map((c) => Math.round(Math.min(Math.max(gamma(c), 0), 1) * 255)) as [
+            number,
+            number,
+            number
+        ];
+    }
+
+    /**
+     * New UID under the 2.25 root, derived from a random UUID (PS3.5 B.2)
+     */
+    public static generateUID() {
+        return `2.25.${BigInt(`0x${crypto.randomUUID().replace(/-/g, '')}`)}`;
+    }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+    combineDateTime,
+    formatPersonName,
+    parseAge,
+    parseDate,
+    parseDateTime,
+    parsePersonName,
+    parseRange,
+    parseTime,
+    parseUTCOffset,
+} from './core.values.ts';
+
+describe('parsePersonName', () => {
+    it('splits the component groups and components', () => {
+        const name = parsePersonName('Yamada^Tarou=山田^太郎=やまだ^たろう');
+
+        expect(name?.alphabetic).toEqual({
+            familyName: 'Yamada',
+            givenName: 'Tarou',
+            middleName: '',
+            namePrefix: '',
+            nameSuffix: '',
+        });
+        expect(name?.ideographic?.familyName).toBe('山田');
+        expect(name?.phonetic?.givenName).toBe('たろう');
+    });
+
+    it('keeps empty groups null', () => {
+        const name = parsePersonName('=山田^太郎');
+
+        expect(name?.alphabetic).toBeNull();
+        expect(name?.ideographic?.givenName).toBe('太郎');
+        expect(name?.phonetic).toBeNull();
+        expect(parsePersonName('  ')).toBeNull();
+    });
+
+    it('formats a group for display', () => {
+        expect(formatPersonName(parsePersonName('Doe^John^A^Dr^Jr')?.alphabetic ?? null)).toBe(
+            'Dr John A Doe, Jr'
+        );
+        expect(formatPersonName(null)).toBe('');
+    });
+});
+
+describe('parseTime', () => {
+    it('parses every precision', () => {
+        expect(parseTime('07')?.precision).toBe('hour');
+        expect(parseTime('0730')?.precision).toBe('minute');
+        expect(parseTime('073015')).toMatchObject({ seconds: 15, precision: 'second' });
+        expect(parseTime('073015.25')).toMatchObject({
+            milliseconds: 250,
+            precision: 'fraction',
+            timeOfDay: (7 * 3600 + 30 * 60 + 15) * 1000 + 250,
+        });
+    });
+
+    it('accepts the ACR-NEMA form and rejects garbage', () => {
+        expect(parseTime('07:30:15')?.timeOfDay).toBe((7 * 3600 + 30 * 60 + 15) * 1000);
+        expect(parseTime('7:30')).toBeNull();
+        expect(parseTime('')).toBeNull();
+    });
+});
+
+describe('parseDateTime', () => {
+    it('covers the period of its precision', () => {
+        const year = parseDateTime('2024', 0);
+
+        expect(year?.precision).toBe('year');
+        expect(year?.date.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+        expect(year?.end.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('applies the suffix offset before the given one', () => {
+        const dateTime = parseDateTime('20240315103000+0200', 0);
+
+        expect(dateTime?.utcOffset).toBe(120);
+        expect(dateTime?.date.toISOString()).toBe('2024-03-15T08:30:00.000Z');
+        expect(parseDateTime('20240315103000', -60)?.date.toISOString()).toBe(
+            '2024-03-15T11:30:00.000Z'
+        );
+    });
+
+    it('rejects invalid months and days', () => {
+        expect(parseDateTime('202413')).toBeNull();
+        expect(parseDateTime('20240132')).toBeNull();
+    });
+});
+
+describe('parseDate and combineDateTime', () => {
+    it('parses DA and the ACR-NEMA form', () => {
+        expect(parseDate('20240315', 0)?.date.toISOString()).toBe('2024-03-15T00:00:00.000Z');
+        expect(parseDate('2024.03.15', 0)?.precision).toBe('day');
+        expect(parseDate('202403')).toBeNull();
+    });
+
+    it('combines a date and a time', () => {
+        expect(combineDateTime('20240315', '10:30', 0)?.date.toISOString()).toBe(
+            '2024-03-15T10:30:00.000Z'
+        );
+        expect(combineDateTime(undefined, '1030')).toBeNull();
+    });
+});
+
+describe('parseUTCOffset', () => {
+    it('parses signed offsets in minutes', () => {
+        expect(parseUTCOffset('+0300')).toBe(180);
+        expect(parseUTCOffset('-0130')).toBe(-90);
+        expect(parseUTCOffset('0300')).toBeNull();
+    });
+});
+
+describe('parseRange', () => {
+    it('parses closed and open ranges', () => {
+        expect(parseRange('20240101-20240131', parseDate)).toMatchObject({
+            start: { precision: 'day' },
+            end: { precision: 'day' },
+        });
+        expect(parseRange('-1200', parseTime)).toMatchObject({ start: null, end: { hours: 12 } });
+        expect(parseRange('0800-', parseTime)).toMatchObject({ start: { hours: 8 }, end: null });
+    });
+
+    it('keeps a DT with a negative offset as a single value', () => {
+        const range = parseRange('20240101120000-0500', (value) => parseDateTime(value));
+
+        expect(range?.start).toBe(range?.end);
+        expect(range?.start?.utcOffset).toBe(-300);
+    });
+});
+
+describe('parseAge', () => {
+    it('parses every unit', () => {
+        expect(parseAge('045Y')).toEqual({ value: 45, unit: 'years', days: 45 * 365.25 });
+        expect(parseAge('003W')).toEqual({ value: 3, unit: 'weeks', days: 21 });
+        expect(parseAge('45Y')).toBeNull();
+    });
+});
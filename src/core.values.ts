@@ -0,0 +1,289 @@
+export type Precision = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'fraction';
+
+export interface PersonNameComponents {
+    familyName: string;
+    givenName: string;
+    middleName: string;
+    namePrefix: string;
+    nameSuffix: string;
+}
+
+/**
+ * PN value: up to three component groups separated by '='
+ */
+export interface PersonName {
+    raw: string;
+    alphabetic: PersonNameComponents | null;
+    ideographic: PersonNameComponents | null;
+    phonetic: PersonNameComponents | null;
+}
+
+/**
+ * TM value (HHMMSS.FFFFFF), components missing from the value are 0
+ */
+export interface DicomTime {
+    hours: number;
+    minutes: number;
+    seconds: number;
+    milliseconds: number;
+    precision: Precision;
+    /** Milliseconds since midnight */
+    timeOfDay: number;
+}
+
+/**
+ * DA or DT value: the period covered by the value at its precision, e.g. the whole year for '2024'
+ */
+export interface DicomDateTime {
+    /** Start of the period */
+    date: Date;
+    /** End of the period (exclusive) */
+    end: Date;
+    precision: Precision;
+    /** Offset from UTC in minutes, null when the value is in local time */
+    utcOffset: number | null;
+}
+
+/**
+ * Range matching value ('20240101-20240131', '-1200'...), open ends are null
+ */
+export interface DicomRange<T> {
+    start: T | null;
+    end: T | null;
+}
+
+/**
+ * AS value (nnnD, nnnW, nnnM or nnnY)
+ */
+export interface DicomAge {
+    value: number;
+    unit: 'days' | 'weeks' | 'months' | 'years';
+    /** Approximate age in days */
+    days: number;
+}
+
+const PRECISIONS: Precision[] = ['year', 'month', 'day', 'hour', 'minute', 'second', 'fraction'];
+
+const AGE_UNITS: Record<string, [DicomAge['unit'], number]> = {
+    D: ['days', 1],
+    W: ['weeks', 7],
+    M: ['months', 30.4375],
+    Y: ['years', 365.25],
+};
+
+const parseComponents = (group: string): PersonNameComponents | null => {
+    if (!group.replace(/\^/g, '').trim()) {
+        return null;
+    }
+
+    const [familyName = '', givenName = '', middleName = '', namePrefix = '', nameSuffix = ''] =
+        group.split('^').map((component) => component.trim());
+
+    return { familyName, givenName, middleName, namePrefix, nameSuffix };
+};
+
+/**
+ * 'DOE^JOHN^^DR^=ドウ^ジョン=どう^じょん' to its alphabetic, ideographic and phonetic groups
+ */
+export const parsePersonName = (value?: string | null): PersonName | null => {
+    if (!value?.trim()) {
+        return null;
+    }
+
+    const [alphabetic = '', ideographic = '', phonetic = ''] = value.trim().split('=');
+
+    return {
+        raw: value.trim(),
+        alphabetic: parseComponents(alphabetic),
+        ideographic: parseComponents(ideographic),
+        phonetic: parseComponents(phonetic),
+    };
+};
+
+/**
+ * Display form of a name group: 'Prefix Given Middle Family, Suffix'
+ */
+export const formatPersonName = (name: PersonNameComponents | null) => {
+    if (!name) {
+        return '';
+    }
+
+    const fullName = [name.namePrefix, name.givenName, name.middleName, name.familyName]
+        .filter((component) => component)
+        .join(' ');
+
+    return name.nameSuffix ? `${fullName}, ${name.nameSuffix}` : fullName;
+};
+
+/**
+ * Timezone Offset From UTC (0008,0201) or the &ZZXX suffix of a DT: '+0300' to 180 minutes
+ */
+export const parseUTCOffset = (value?: string | null): number | null => {
+    const match = value?.trim().match(/^([+-])(\d{2})(\d{2})$/);
+    if (!match) {
+        return null;
+    }
+
+    const [, sign, hours, minutes] = match;
+
+    return (sign === '-' ? -1 : 1) * (+hours * 60 + +minutes);
+};
+
+/**
+ * TM (HHMMSS.FFFFFF, or HH:MM:SS.FFFFFF from ACR-NEMA) to its components
+ */
+export const parseTime = (value?: string | null): DicomTime | null => {
+    const match = value?.trim().match(/^(\d{2})(?::?(\d{2}))?(?::?(\d{2}))?(?:\.(\d{1,6}))?$/);
+    if (!match) {
+        return null;
+    }
+
+    const [, hours, minutes, seconds, fraction] = match;
+    const components = [hours, minutes, seconds, fraction];
+    const precision = fraction
+        ? 'fraction'
+        : PRECISIONS[3 + components.filter((component) => component).length - 1];
+    const milliseconds = fraction ? parseFloat(`0.${fraction}`) * 1000 : 0;
+
+    return {
+        hours: +hours,
+        minutes: +(minutes ?? 0),
+        seconds: +(seconds ?? 0),
+        milliseconds,
+        precision,
+        timeOfDay: ((+hours * 60 + +(minutes ?? 0)) * 60 + +(seconds ?? 0)) * 1000 + milliseconds,
+    };
+};
+
+/**
+ * DT (YYYYMMDDHHMMSS.FFFFFF&ZZXX) to the period it covers. Without a &ZZXX suffix the
+ * given offset applies (Timezone Offset From UTC), else the value is in local time.
+ */
+export const parseDateTime = (
+    value?: string | null,
+    utcOffset: number | null = null
+): DicomDateTime | null => {
+    const match = value
+        ?.trim()
+        .match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.(\d{1,6}))?([+-]\d{4})?$/);
+    if (!match) {
+        return null;
+    }
+
+    const [, year, month, day, hours, minutes, seconds, fraction, suffix] = match;
+    const components = [year, month, day, hours, minutes, seconds, fraction];
+    const precision = fraction
+        ? 'fraction'
+        : PRECISIONS[components.filter((component) => component).length - 1];
+    const offset = suffix ? parseUTCOffset(suffix) : utcOffset;
+
+    const parts = [
+        +year,
+        +(month ?? 1) - 1,
+        +(day ?? 1),
+        +(hours ?? 0),
+        +(minutes ?? 0),
+        +(seconds ?? 0),
+        fraction ? parseFloat(`0.${fraction}`) * 1000 : 0,
+    ];
+
+    const toDate = (values: number[]) => {
+        const [y, mo, d, h, mi, s, ms] = values;
+        if (offset === null) {
+            const date = new Date(y, mo, d, h, mi, s, ms);
+            date.setFullYear(y);
+            return date;
+        }
+        const utc = new Date(Date.UTC(y, mo, d, h, mi, s, ms));
+        utc.setUTCFullYear(y);
+        return new Date(utc.getTime() - offset * 60000);
+    };
+
+    // one unit of the last component present, e.g. one month for '202401'
+    const endParts = [...parts];
+    const last = PRECISIONS.indexOf(precision);
+    endParts[last] += last === 6 ? Math.max(1, 1000 / 10 ** (fraction?.length ?? 0)) : 1;
+
+    const date = toDate(parts);
+    if (
+        date.getTime() !== date.getTime() ||
+        (month && (+month < 1 || +month > 12)) ||
+        (day && (+day < 1 || +day > 31))
+    ) {
+        return null;
+    }
+
+    return { date, end: toDate(endParts), precision, utcOffset: offset };
+};
+
+/**
+ * DA (YYYYMMDD, or YYYY.MM.DD from ACR-NEMA) to the day it covers
+ */
+export const parseDate = (value?: string | null, utcOffset: number | null = null) => {
+    const date = value?.trim().replace(/\./g, '');
+
+    return date && /^\d{8}$/.test(date) ? parseDateTime(date, utcOffset) : null;
+};
+
+/**
+ * DA and TM pair (Study Date and Study Time...) to a single DT value
+ */
+export const combineDateTime = (
+    date?: string | null,
+    time?: string | null,
+    utcOffset: number | null = null
+) => {
+    const day = date?.trim().replace(/\./g, '');
+    if (!day || !/^\d{8}$/.test(day)) {
+        return null;
+    }
+
+    return parseDateTime(day + (time?.trim().replace(/:/g, '') ?? ''), utcOffset);
+};
+
+/**
+ * Range matching value of DA, TM or DT: 'start-end', 'start-' or '-end'.
+ * A single value gives a range starting and ending with it.
+ */
+export const parseRange = <T>(
+    value: string | null | undefined,
+    parse: (value: string) => T | null
+): DicomRange<T> | null => {
+    if (!value?.trim()) {
+        return null;
+    }
+
+    // a DT with a negative UTC offset is a single value, not a range
+    const single = parse(value.trim());
+    if (single) {
+        return { start: single, end: single };
+    }
+
+    const separator = value.indexOf('-');
+    if (separator === -1) {
+        return null;
+    }
+
+    const [start, end] = [value.slice(0, separator), value.slice(separator + 1)].map((part) =>
+        part.trim() ? parse(part.trim()) : null
+    );
+    if (!start && !end) {
+        return null;
+    }
+
+    return { start, end };
+};
+
+/**
+ * AS ('045Y') to a number and a unit
+ */
+export const parseAge = (value?: string | null): DicomAge | null => {
+    const match = value?.trim().match(/^(\d{3})([DWMY])$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [unit, days] = AGE_UNITS[match[2].toUpperCase()];
+
+    return { value: +match[1], unit, days: +match[1] * days };
+};
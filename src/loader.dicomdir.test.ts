@@ -0,0 +1,166 @@
+import * as dicomParser from 'dicom-parser';
+import { describe, expect, it } from 'vitest';
+import { readDicomDir } from './loader.dicomdir.ts';
+import MutableDataSet from './model.dataset.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+interface DirectoryRecord {
+    type: string;
+    fields?: Record<string, string>;
+    inUse?: boolean;
+    /** Indexes of the records the offsets point to */
+    next?: number;
+    lower?: number;
+}
+
+/**
+ * DICOMDIR of the records, with the offsets of the links resolved when `root` is set.
+ * The offsets are 32 bit values: writing them does not move the records.
+ */
+const dicomDir = (name: string, records: DirectoryRecord[], root?: number) => {
+    const build = (offsets: number[]) => {
+        const offset = (index?: number) => (index === undefined ? 0 : offsets[index]);
+        const dataSet = new MutableDataSet();
+        dataSet.setString('x00020002', '1.2.840.10008.1.3.10', 'UI');
+        dataSet.setString('x00020003', '1.2.3.9', 'UI');
+        dataSet.setNumbers('x00041200', offset(root), 'UL');
+        dataSet.setSequence(
+            'x00041220',
+            records.map((record) => {
+                const item = new MutableDataSet();
+                item.setNumbers('x00041400', offset(record.next), 'UL');
+                item.setNumbers('x00041410', record.inUse === false ? 0 : 0xffff, 'US');
+                item.setNumbers('x00041420', offset(record.lower), 'UL');
+                item.setString('x00041430', record.type, 'CS');
+                for (const [tag, value] of Object.entries(record.fields ?? {})) {
+                    item.setString(tag, value, tag === 'x00041500' ? 'CS' : 'UI');
+                }
+                return item;
+            })
+        );
+        return writeDicom(dataSet);
+    };
+
+    const unresolved = build(records.map(() => 0));
+    const items = dicomParser.parseDicom(unresolved).elements.x00041220.items ?? [];
+    const bytes = root === undefined ? unresolved : build(items.map((item) => item.dataOffset - 8));
+
+    return new File([bytes], name);
+};
+
+const file = (name: string) => new File([new Uint8Array(4)], name);
+
+const image = (referencedFileID: string, sopInstanceUID: string, inUse = true) => ({
+    type: 'IMAGE',
+    fields: { x00041500: referencedFileID, x00041511: sopInstanceUID },
+    inUse,
+});
+
+const series = (seriesInstanceUID: string) => ({
+    type: 'SERIES',
+    fields: { x0020000e: seriesInstanceUID },
+});
+
+describe('readDicomDir', () => {
+    it('follows the record offsets rather than the order of the sequence', async () => {
+        // the image of the second series is stored first, before any series record
+        const directory = dicomDir(
+            'DICOMDIR',
+            [
+                image('IM2', '1.2.3.2.1'),
+                { type: 'PATIENT', lower: 2 },
+                { type: 'STUDY', fields: { x0020000d: '1.2.3' }, lower: 3 },
+                { ...series('1.2.3.1'), lower: 4, next: 5 },
+                image('IM1', '1.2.3.1.1'),
+                { ...series('1.2.3.2'), lower: 0 },
+            ],
+            1
+        );
+
+        const content = await readDicomDir(directory, [file('IM1'), file('IM2')]);
+
+        expect(
+            content.dicomFiles.map((dicomFile) => [
+                dicomFile.file.name,
+                dicomFile.studyInstanceUID,
+                dicomFile.seriesInstanceUID,
+            ])
+        ).toEqual([
+            ['IM1', '1.2.3', '1.2.3.1'],
+            ['IM2', '1.2.3', '1.2.3.2'],
+        ]);
+        expect(content.missing).toEqual([]);
+    });
+
+    it('rebuilds the hierarchy from the record types when the offsets do not resolve', async () => {
+        const directory = dicomDir('DICOMDIR', [
+            { type: 'PATIENT' },
+            { type: 'STUDY', fields: { x0020000d: '1.2.3' } },
+            series('1.2.3.1'),
+            image('IM1', '1.2.3.1.1'),
+            series('1.2.3.2'),
+            image('IM2', '1.2.3.2.1'),
+        ]);
+
+        const content = await readDicomDir(directory, [file('IM1'), file('IM2')]);
+
+        expect(content.dicomFiles.map((dicomFile) => dicomFile.seriesInstanceUID)).toEqual([
+            '1.2.3.1',
+            '1.2.3.2',
+        ]);
+    });
+
+    it('matches Referenced File IDs regardless of case and version suffix', async () => {
+        const directory = dicomDir('disk/DICOMDIR', [
+            { type: 'PATIENT' },
+            { type: 'STUDY', fields: { x0020000d: '1.2.3' } },
+            series('1.2.3.1'),
+            image('SUB\\IM1.;1', '1.2.3.1.1'),
+            image('sub\\im2;1', '1.2.3.1.2'),
+        ]);
+        const selected = [file('disk/sub/im1'), file('disk/SUB/IM2')];
+
+        const content = await readDicomDir(directory, selected);
+
+        expect(content.dicomFiles.map((dicomFile) => dicomFile.file)).toEqual(selected);
+    });
+
+    it('skips inactive records and reports missing and ambiguous files', async () => {
+        const directory = dicomDir('disk/DICOMDIR', [
+            { type: 'PATIENT' },
+            { type: 'STUDY', fields: { x0020000d: '1.2.3' } },
+            series('1.2.3.1'),
+            image('IM1', '1.2.3.1.1', false),
+            image('IM3', '1.2.3.1.3'),
+            image('SUB\\IM9', '1.2.3.1.9'),
+        ]);
+
+        const content = await readDicomDir(directory, [file('disk/a/IM3'), file('disk/b/IM3')]);
+
+        expect(content.dicomFiles).toEqual([]);
+        expect(content.missing).toEqual([
+            {
+                referencedFileID: 'IM3',
+                recordType: 'IMAGE',
+                sopInstanceUID: '1.2.3.1.3',
+                reason: 'ambiguous',
+            },
+            {
+                referencedFileID: 'SUB/IM9',
+                recordType: 'IMAGE',
+                sopInstanceUID: '1.2.3.1.9',
+                reason: 'missing',
+            },
+        ]);
+    });
+
+    it('rejects a file that is not a DICOMDIR', async () => {
+        const dataSet = new MutableDataSet();
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+        dataSet.setString('SOPInstanceUID', '1.2.3.1');
+
+        await expect(readDicomDir(new File([writeDicom(dataSet)], 'DICOMDIR'), [])).rejects.toThrow(
+            'loader.dicomdir DICOMDIR is not a DICOMDIR'
+        );
+    });
+});
@@ -0,0 +1,263 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet } from 'dicom-parser';
+import { characterSets, readText } from './core.charset.ts';
+import type { DicomFile } from './preloader.ts';
+
+export interface MissingRecord {
+    /** Referenced File ID (0004,1500) joined with '/' */
+    referencedFileID: string;
+    /** Directory Record Type (0004,1430), e.g. 'IMAGE' */
+    recordType: string;
+    sopInstanceUID: string | null;
+    /** 'missing' when no selected file matches, 'ambiguous' when several do */
+    reason: 'missing' | 'ambiguous';
+}
+
+export interface DicomDirContent {
+    /** Records of the referenced files, built from the directory records only */
+    dicomFiles: DicomFile[];
+    /** Records whose file is not among the selected files */
+    missing: MissingRecord[];
+}
+
+// Уровни иерархии, для записей без ссылок на соседей
+const RECORD_LEVELS: Record<string, number> = {
+    PATIENT: 0,
+    STUDY: 1,
+    SERIES: 2,
+};
+
+const MEDIA_STORAGE_DIRECTORY = '1.2.840.10008.1.3.10';
+
+/**
+ * Path of a selected file, relative to the selected folder when there is one
+ */
+const filePath = (file: File) => file.webkitRelativePath || file.name;
+
+/**
+ * Path in upper case with '/' separators, without ISO 9660 version suffixes ('IM1.;1' -> 'IM1')
+ */
+const normalizePath = (path: string) =>
+    path
+        .split(/[\\/]+/)
+        .filter(Boolean)
+        .map((component) => component.toUpperCase().replace(/;\d+$/, '').replace(/\.$/, ''))
+        .join('/');
+
+/**
+ * Whether a file is named like a DICOMDIR (the content is checked when it is read)
+ */
+export const isDicomDir = (name: string) => normalizePath(name).split('/').pop() === 'DICOMDIR';
+
+const endsWithPath = (path: string, suffix: string) =>
+    path === suffix || path.endsWith(`/${suffix}`);
+
+const recordType = (record: DataSet) => record.string('x00041430')?.toUpperCase() ?? '';
+
+/**
+ * Directory records (Directory Record Sequence items) by their offset in the file
+ */
+const directoryRecords = (dataSet: DataSet) => {
+    const items = dataSet.elements.x00041220?.items ?? [];
+    const records = new Map<number, DataSet>();
+
+    for (const item of items) {
+        if (item.dataSet) {
+            // Смещение записи указывает на тег элемента последовательности
+            records.set(item.dataOffset - 8, item.dataSet);
+        }
+    }
+
+    return { records, ordered: items.flatMap((item) => (item.dataSet ? [item.dataSet] : [])) };
+};
+
+/**
+ * Every directory record with its ancestors, following the offsets from the root directory
+ * entity. Falls back to the order of the sequence when the offsets do not resolve.
+ */
+const walkRecords = (dataSet: DataSet) => {
+    const { records, ordered } = directoryRecords(dataSet);
+    const walked: { record: DataSet; ancestors: DataSet[] }[] = [];
+    const visited = new Set<number>();
+
+    const visit = (offset: number | undefined, ancestors: DataSet[]) => {
+        while (offset && records.has(offset) && !visited.has(offset)) {
+            visited.add(offset);
+            const record = records.get(offset) as DataSet;
+            walked.push({ record, ancestors });
+            visit(record.uint32('x00041420'), [...ancestors, record]);
+            offset = record.uint32('x00041400');
+        }
+    };
+    visit(dataSet.uint32('x00041200'), []);
+
+    if (walked.length || !ordered.length) {
+        return walked;
+    }
+
+    // Ссылки не работают: восстанавливаем иерархию по типам записей
+    let ancestors: DataSet[] = [];
+    for (const record of ordered) {
+        const level = RECORD_LEVELS[recordType(record)];
+        if (level !== undefined) {
+            ancestors = ancestors.filter((ancestor) => RECORD_LEVELS[recordType(ancestor)] < level);
+        }
+        walked.push({ record, ancestors });
+        if (level !== undefined) {
+            ancestors = [...ancestors, record];
+        }
+    }
+
+    return walked;
+};
+
+/**
+ * Index of the selected files by normalized path, with a fallback on the trailing components
+ */
+const fileResolver = (files: File[], dicomDirFile: File) => {
+    const byPath = new Map<string, File>();
+    const byName = new Map<string, File[]>();
+
+    for (const file of files) {
+        const path = normalizePath(filePath(file));
+        byPath.set(path, file);
+
+        const name = path.split('/').pop() ?? '';
+        if (!byName.has(name)) {
+            byName.set(name, []);
+        }
+        byName.get(name)?.push(file);
+    }
+
+    const directory = normalizePath(filePath(dicomDirFile)).split('/').slice(0, -1).join('/');
+
+    return (referencedFileID: string[]): File | 'missing' | 'ambiguous' => {
+        const relativePath = normalizePath(referencedFileID.join('/'));
+        const exact = byPath.get(directory ? `${directory}/${relativePath}` : relativePath);
+        if (exact) {
+            return exact;
+        }
+
+        // Папка выбрана не целиком или пути не совпадают: сравниваем хвост пути
+        const candidates = (byName.get(relativePath.split('/').pop() ?? '') ?? []).filter(
+            (file) => {
+                const path = normalizePath(filePath(file));
+                return endsWithPath(path, relativePath) || endsWithPath(relativePath, path);
+            }
+        );
+
+        if (candidates.length > 1) {
+            // Предпочитаем файл, путь которого содержит весь Referenced File ID
+            const matching = candidates.filter((file) =>
+                endsWithPath(normalizePath(filePath(file)), relativePath)
+            );
+            return matching.length === 1 ? matching[0] : 'ambiguous';
+        }
+
+        return candidates[0] ?? 'missing';
+    };
+};
+
+const numbers = (dataSet: DataSet, tag: string) => dataSet.string(tag)?.split('\\').map(parseFloat);
+
+/**
+ * Preloader record of a referenced file from its directory record and the records above it
+ */
+const readRecord = (
+    file: File,
+    record: DataSet,
+    ancestors: DataSet[],
+    inherited: string[]
+): DicomFile => {
+    const find = (type: string) => ancestors.find((ancestor) => recordType(ancestor) === type);
+    const patient = find('PATIENT');
+    const study = find('STUDY');
+    const series = find('SERIES');
+
+    // Набор символов записи, иначе набор символов DICOMDIR
+    const text = (dataSet: DataSet | undefined, tag: string) =>
+        dataSet ? readText(dataSet, tag, characterSets(dataSet, inherited)) : undefined;
+
+    const imagePosition = numbers(record, 'x00200032');
+    const imageOrientation = numbers(record, 'x00200037');
+    const imageType = record.string('x00080008')?.toUpperCase().split('\\') ?? [];
+
+    return {
+        file,
+        SOPInstanceUID: record.string('x00041511') || record.string('x00080018') || 'unknown',
+        seriesInstanceUID: series?.string('x0020000e') || 'unknown',
+        studyInstanceUID: study?.string('x0020000d') || 'unknown',
+        patientName: text(patient, 'x00100010'),
+        patientID: text(patient, 'x00100020'),
+        patientSex: patient?.string('x00100040'),
+        patientBirthdate: patient?.string('x00100030'),
+        studyDate: study?.string('x00080020'),
+        studyDescription: text(study, 'x00081030'),
+        modality: series?.string('x00080060'),
+        seriesDescription: text(series, 'x0008103e'),
+        seriesNumber: series?.intString('x00200011'),
+        sliceLocation: record.floatString('x00201041'),
+        imagePosition:
+            imagePosition?.length === 3 ? (imagePosition as DicomFile['imagePosition']) : undefined,
+        imageOrientation:
+            imageOrientation?.length === 6
+                ? (imageOrientation as DicomFile['imageOrientation'])
+                : undefined,
+        instanceNumber: record.intString('x00200013'),
+        rows: record.uint16('x00280010'),
+        columns: record.uint16('x00280011'),
+        localizer: imageType.includes('LOCALIZER'),
+    };
+};
+
+/**
+ * Read a DICOMDIR and build the records of the files it references among the selected files,
+ * without opening them. Referenced File IDs are matched regardless of case and separators.
+ * Throws if the file is not a DICOMDIR.
+ */
+export const readDicomDir = async (dicomDirFile: File, files: File[]): Promise<DicomDirContent> => {
+    const dataSet = dicomParser.parseDicom(new Uint8Array(await dicomDirFile.arrayBuffer()));
+
+    if (!dataSet.elements.x00041220 && dataSet.string('x00020002') !== MEDIA_STORAGE_DIRECTORY) {
+        const error = new Error(`loader.dicomdir ${dicomDirFile.name} is not a DICOMDIR`);
+        throw error;
+    }
+
+    const inherited = characterSets(dataSet);
+    const resolve = fileResolver(
+        files.filter((file) => file !== dicomDirFile),
+        dicomDirFile
+    );
+    const content: DicomDirContent = { dicomFiles: [], missing: [] };
+
+    for (const { record, ancestors } of walkRecords(dataSet)) {
+        const referencedFileID = record.string('x00041500');
+        const inUse = record.uint16('x00041410') !== 0x0000;
+
+        // Только записи исследований пациента, остальные файлы разбираются как обычно
+        if (
+            !referencedFileID ||
+            !inUse ||
+            !ancestors.some((ancestor) => recordType(ancestor) === 'SERIES')
+        ) {
+            continue;
+        }
+
+        const components = referencedFileID.split('\\').map((component) => component.trim());
+        const file = resolve(components);
+
+        if (typeof file === 'string') {
+            content.missing.push({
+                referencedFileID: components.join('/'),
+                recordType: recordType(record),
+                sopInstanceUID: record.string('x00041511') ?? null,
+                reason: file,
+            });
+            continue;
+        }
+
+        content.dicomFiles.push(readRecord(file, record, ancestors, inherited));
+    }
+
+    return content;
+};
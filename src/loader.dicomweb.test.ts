@@ -0,0 +1,395 @@
+import { describe, expect, it } from 'vitest';
+import DicomWebClient, {
+    buildMultipart,
+    parseContentType,
+    parseMultipart,
+} from './loader.dicomweb.ts';
+
+interface RecordedRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body: Uint8Array | null;
+}
+
+/**
+ * Mock server behind an injected fetch: records every request and answers with the handler
+ */
+const mockServer = (handler: (request: RecordedRequest) => Response | Promise<Response>) => {
+    const requests: RecordedRequest[] = [];
+
+    const fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const request: RecordedRequest = {
+            url: String(input),
+            method: init.method ?? 'GET',
+            headers: (init.headers ?? {}) as Record<string, string>,
+            body: init.body ? new Uint8Array(await new Response(init.body).arrayBuffer()) : null,
+        };
+        requests.push(request);
+
+        return handler(request);
+    };
+
+    return { requests, fetch: fetch as typeof globalThis.fetch };
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const multipartResponse = (parts: { contentType: string; data: string }[], type: string) => {
+    const boundary = 'b0undary';
+
+    return new Response(
+        buildMultipart(
+            parts.map((part) => ({
+                contentType: part.contentType,
+                data: encoder.encode(part.data),
+            })),
+            boundary
+        ),
+        {
+            headers: {
+                'Content-Type': `multipart/related; type="${type}"; boundary=${boundary}`,
+            },
+        }
+    );
+};
+
+describe('parseContentType', () => {
+    it('reads quoted and unquoted parameters', () => {
+        expect(
+            parseContentType(
+                'Multipart/Related; type="application/dicom"; Boundary="a;b c";transfer-syntax=1.2.840.10008.1.2.1'
+            )
+        ).toEqual({
+            type: 'multipart/related',
+            parameters: {
+                type: 'application/dicom',
+                boundary: 'a;b c',
+                'transfer-syntax': '1.2.840.10008.1.2.1',
+            },
+        });
+    });
+});
+
+describe('parseMultipart', () => {
+    it('splits the parts on the boundary and keeps line breaks inside the data', () => {
+        const body = encoder.encode(
+            [
+                'preamble to ignore',
+                '--xyz',
+                'Content-Type: application/octet-stream; transfer-syntax=1.2.840.10008.1.2.1',
+                'Content-Location: /frames/1',
+                '',
+                'first\r\nline',
+                '--xyz',
+                '',
+                '\r\n',
+                '--xyz--',
+                'epilogue',
+            ].join('\r\n')
+        );
+        const parts = parseMultipart(
+            body,
+            'multipart/related; type="application/octet-stream"; boundary="xyz"'
+        );
+
+        expect(parts).toHaveLength(2);
+        expect(parts[0].contentType).toBe(
+            'application/octet-stream; transfer-syntax=1.2.840.10008.1.2.1'
+        );
+        expect(parts[0].headers['content-location']).toBe('/frames/1');
+        expect(decoder.decode(parts[0].data)).toBe('first\r\nline');
+        // without a Content-Type the part has the type of the body
+        expect(parts[1].contentType).toBe('application/octet-stream');
+        expect(decoder.decode(parts[1].data)).toBe('\r\n');
+    });
+
+    it('returns a body of another type as a single part', () => {
+        const parts = parseMultipart(encoder.encode('{}'), 'application/dicom+json');
+
+        expect(parts).toEqual([
+            {
+                headers: { 'content-type': 'application/dicom+json' },
+                contentType: 'application/dicom+json',
+                data: encoder.encode('{}'),
+            },
+        ]);
+    });
+
+    it('rejects bodies without boundary or with a truncated part', () => {
+        expect(() => parseMultipart(new Uint8Array(), 'multipart/related')).toThrow(
+            'without boundary'
+        );
+        expect(() =>
+            parseMultipart(
+                encoder.encode('--xyz\r\nContent-Type: text/plain\r\n\r\ndata'),
+                'multipart/related; boundary=xyz'
+            )
+        ).toThrow('truncated multipart body');
+    });
+});
+
+describe('buildMultipart', () => {
+    it('builds a body parseMultipart reads back', async () => {
+        const body = buildMultipart(
+            [
+                { contentType: 'application/dicom', data: new Uint8Array([0, 13, 10, 45, 45]) },
+                { contentType: 'application/dicom', data: 'second' },
+            ],
+            'edge'
+        );
+        const bytes = new Uint8Array(await body.arrayBuffer());
+
+        const header = '--edge\r\nContent-Type: application/dicom\r\n\r\n';
+        expect(decoder.decode(bytes.subarray(0, header.length))).toBe(header);
+        expect(decoder.decode(bytes.subarray(-10))).toBe('--edge--\r\n');
+
+        const parts = parseMultipart(bytes, 'multipart/related; boundary=edge');
+        expect(Array.from(parts[0].data)).toEqual([0, 13, 10, 45, 45]);
+        expect(decoder.decode(parts[1].data)).toBe('second');
+    });
+});
+
+describe('DicomWebClient', () => {
+    describe('QIDO-RS', () => {
+        it('builds the query from keywords, tags and options', async () => {
+            const server = mockServer(() => Response.json([{ '0020000D': { vr: 'UI' } }]));
+            const client = new DicomWebClient({
+                url: 'https://pacs.test/dicom-web/',
+                headers: { Authorization: 'Bearer token' },
+                fetch: server.fetch,
+            });
+
+            const results = await client.searchForSeries('1.2.3', {
+                filters: { PatientID: 'A B', '00080060': 'CT', StudyDate: '20240101-20240131' },
+                includeFields: ['SeriesDescription', 0x00200011],
+                fuzzyMatching: true,
+                limit: 10,
+                offset: 20,
+            });
+
+            expect(results).toHaveLength(1);
+            const [request] = server.requests;
+            const url = new URL(request.url);
+            expect(url.origin + url.pathname).toBe(
+                'https://pacs.test/dicom-web/studies/1.2.3/series'
+            );
+            expect([...url.searchParams]).toEqual([
+                ['00100020', 'A B'],
+                ['00080060', 'CT'],
+                ['00080020', '20240101-20240131'],
+                ['includefield', '0008103E'],
+                ['includefield', '00200011'],
+                ['fuzzymatching', 'true'],
+                ['limit', '10'],
+                ['offset', '20'],
+            ]);
+            expect(request.headers).toEqual({
+                Authorization: 'Bearer token',
+                Accept: 'application/dicom+json',
+            });
+        });
+
+        it('uses the QIDO URL and reads 204 as no match', async () => {
+            const server = mockServer(() => new Response(null, { status: 204 }));
+            const client = new DicomWebClient({
+                url: 'https://pacs.test/wado',
+                qidoURL: 'https://pacs.test/qido',
+                fetch: server.fetch,
+            });
+
+            expect(await client.searchForStudies({ includeFields: 'all' })).toEqual([]);
+            expect(server.requests[0].url).toBe('https://pacs.test/qido/studies?includefield=all');
+        });
+
+        it('rejects unknown attributes and failed requests', async () => {
+            const server = mockServer(
+                () => new Response('nope', { status: 400, statusText: 'Bad Request' })
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            await expect(client.searchForStudies({ filters: { Nope: 1 } })).rejects.toThrow(
+                'unknown attribute: Nope'
+            );
+            await expect(client.searchForStudies()).rejects.toThrow(
+                'GET https://pacs.test/studies failed: 400 Bad Request'
+            );
+        });
+    });
+
+    describe('WADO-RS', () => {
+        const frameURL = 'https://pacs.test/studies/1/series/2/instances/3/frames/1,3';
+
+        it('negotiates the frame media types in order of preference', async () => {
+            const server = mockServer(() =>
+                multipartResponse(
+                    [
+                        {
+                            contentType: 'image/jls; transfer-syntax=1.2.840.10008.1.2.4.80',
+                            data: 'first',
+                        },
+                        // the transfer syntax follows from the media type
+                        { contentType: 'image/jls', data: 'third' },
+                    ],
+                    'image/jls'
+                )
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            const frames = await client.retrieveFrames('1', '2', '3', [0, 2], {
+                transferSyntaxes: ['1.2.840.10008.1.2.4.80', '1.2.840.10008.1.2.1'],
+            });
+
+            expect(server.requests[0].url).toBe(frameURL);
+            expect(server.requests[0].headers.Accept).toBe(
+                'multipart/related; type="image/jls"; transfer-syntax=1.2.840.10008.1.2.4.80, ' +
+                    'multipart/related; type="application/octet-stream"; transfer-syntax=1.2.840.10008.1.2.1; q=0.9'
+            );
+            expect(
+                frames.map(({ frameIndex, transferSyntaxUID, data }) => ({
+                    frameIndex,
+                    transferSyntaxUID,
+                    data: decoder.decode(data),
+                }))
+            ).toEqual([
+                { frameIndex: 0, transferSyntaxUID: '1.2.840.10008.1.2.4.80', data: 'first' },
+                { frameIndex: 2, transferSyntaxUID: '1.2.840.10008.1.2.4.80', data: 'third' },
+            ]);
+        });
+
+        it('rejects a transfer syntax that was not requested', async () => {
+            const server = mockServer(() =>
+                multipartResponse(
+                    [
+                        {
+                            contentType: 'image/jpeg; transfer-syntax=1.2.840.10008.1.2.4.50',
+                            data: 'lossy',
+                        },
+                    ],
+                    'image/jpeg'
+                )
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            await expect(
+                client.retrieveFrames('1', '2', '3', [0], {
+                    transferSyntaxes: ['1.2.840.10008.1.2.4.80'],
+                })
+            ).rejects.toThrow('transfer syntax 1.2.840.10008.1.2.4.50 was not requested');
+        });
+
+        it('rejects a response without one part per requested frame', async () => {
+            const server = mockServer(() =>
+                multipartResponse(
+                    [{ contentType: 'application/octet-stream', data: 'first' }],
+                    'application/octet-stream'
+                )
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            await expect(client.retrieveFrames('1', '2', '3', [0, 2])).rejects.toThrow(
+                'expected 2 frames, received 1'
+            );
+        });
+
+        it('reads a part without headers with the type of the body', async () => {
+            const server = mockServer(
+                () =>
+                    new Response('--b0undary\r\n\r\nraw\r\n--b0undary--\r\n', {
+                        headers: {
+                            'Content-Type':
+                                'multipart/related; type="application/octet-stream"; boundary=b0undary',
+                        },
+                    })
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            const [frame] = await client.retrieveFrames('1', '2', '3', [4]);
+
+            expect(frame.frameIndex).toBe(4);
+            expect(frame.contentType).toBe('application/octet-stream');
+            // the only transfer syntax requested with that media type
+            expect(frame.transferSyntaxUID).toBe('1.2.840.10008.1.2.1');
+            expect(decoder.decode(frame.data)).toBe('raw');
+        });
+
+        it('retrieves instances as named files', async () => {
+            const server = mockServer(() =>
+                multipartResponse(
+                    [
+                        { contentType: 'application/dicom', data: 'DICM1' },
+                        { contentType: 'application/dicom', data: 'DICM2' },
+                    ],
+                    'application/dicom'
+                )
+            );
+            const client = new DicomWebClient({
+                url: 'https://pacs.test',
+                wadoURL: 'https://wado.test/rs',
+                fetch: server.fetch,
+            });
+
+            const files = await client.retrieveInstances('1', '2', undefined, {
+                transferSyntaxes: ['*'],
+            });
+
+            expect(server.requests[0].url).toBe('https://wado.test/rs/studies/1/series/2');
+            expect(server.requests[0].headers.Accept).toBe(
+                'multipart/related; type="application/dicom"; transfer-syntax=*'
+            );
+            expect(files.map((file) => file.name)).toEqual(['1.dcm', '2.dcm']);
+            expect(await files[1].text()).toBe('DICM2');
+        });
+    });
+
+    describe('STOW-RS', () => {
+        it('posts the instances as multipart/related and reads the failures', async () => {
+            const server = mockServer(() =>
+                Response.json(
+                    {
+                        '00081199': {
+                            vr: 'SQ',
+                            Value: [{ '00081155': { vr: 'UI', Value: ['1.2.3.1'] } }],
+                        },
+                        '00081198': {
+                            vr: 'SQ',
+                            Value: [
+                                {
+                                    '00081155': { vr: 'UI', Value: ['1.2.3.2'] },
+                                    '00081197': { vr: 'US', Value: [0xa700] },
+                                },
+                            ],
+                        },
+                    },
+                    { status: 409 }
+                )
+            );
+            const client = new DicomWebClient({ url: 'https://pacs.test', fetch: server.fetch });
+
+            const result = await client.store(
+                [new Uint8Array([1, 2, 3]), new Blob(['second'])],
+                '1.2.3'
+            );
+
+            expect(result.stored).toEqual(['1.2.3.1']);
+            expect(result.failures).toEqual([{ sopInstanceUID: '1.2.3.2', reason: 0xa700 }]);
+
+            const [request] = server.requests;
+            expect(request.method).toBe('POST');
+            expect(request.url).toBe('https://pacs.test/studies/1.2.3');
+
+            const contentType = parseContentType(request.headers['Content-Type']);
+            expect(contentType.type).toBe('multipart/related');
+            expect(contentType.parameters.type).toBe('application/dicom');
+
+            const parts = parseMultipart(request.body!, request.headers['Content-Type']);
+            expect(parts.map((part) => part.contentType)).toEqual([
+                'application/dicom',
+                'application/dicom',
+            ]);
+            expect(Array.from(parts[0].data)).toEqual([1, 2, 3]);
+            expect(decoder.decode(parts[1].data)).toBe('second');
+        });
+    });
+});
@@ -0,0 +1,554 @@
+import { formatTag, toTag } from './core.dictionary.ts';
+import DicomParser from './parser.dicom.ts';
+import type { DicomJSON } from './parser.json.ts';
+import { preloader } from './preloader.ts';
+import type { PreloaderOptions, Series } from './preloader.ts';
+import { EXPLICIT_VR_LITTLE_ENDIAN } from './writer.dicom.ts';
+
+export interface DicomWebOptions {
+    /** Base URL of the service, e.g. 'https://pacs.example.com/dicom-web' */
+    url: string;
+    /** Base URLs of the services hosted apart from `url` */
+    qidoURL?: string;
+    wadoURL?: string;
+    stowURL?: string;
+    /** Headers of every request, e.g. Authorization */
+    headers?: Record<string, string>;
+    /** Implementation of fetch, e.g. a mock server in tests (defaults to the global one) */
+    fetch?: typeof fetch;
+}
+
+export interface SearchQuery {
+    /** Matching keys by keyword or tag, e.g. { PatientID: '123', StudyDate: '20240101-20240131' } */
+    filters?: Record<string, string | number>;
+    /** Attributes to return beyond the default ones, 'all' for every available attribute */
+    includeFields?: (string | number)[] | 'all';
+    fuzzyMatching?: boolean;
+    limit?: number;
+    offset?: number;
+}
+
+export interface RetrieveOptions {
+    /**
+     * Acceptable transfer syntaxes in order of preference, '*' for any of them.
+     * The server picks its default (explicit VR little endian) when absent.
+     */
+    transferSyntaxes?: string[];
+}
+
+export interface MultipartPart {
+    /** Header names in lower case */
+    headers: Record<string, string>;
+    contentType: string;
+    data: Uint8Array;
+}
+
+export interface RetrievedFrame {
+    frameIndex: number;
+    /** Transfer syntax of the frame, null when the server did not tell and it cannot be inferred */
+    transferSyntaxUID: string | null;
+    contentType: string;
+    data: Uint8Array;
+}
+
+export interface StoreFailure {
+    sopInstanceUID: string | null;
+    /** Failure Reason (0008,1197), e.g. 0xA700 out of resources, 0xC000 cannot understand */
+    reason: number | null;
+}
+
+export interface StoreResult {
+    /** SOP Instance UIDs of the stored instances */
+    stored: string[];
+    failures: StoreFailure[];
+    /** Store Instances Response Module, null when the server sent no body */
+    response: DicomJSON | null;
+}
+
+/**
+ * Media types of single frames by transfer syntax (PS3.18 Table 8.7.3-5)
+ */
+const FRAME_MEDIA_TYPES: Record<string, string> = {
+    '1.2.840.10008.1.2.1': 'application/octet-stream',
+    '1.2.840.10008.1.2.4.50': 'image/jpeg',
+    '1.2.840.10008.1.2.4.51': 'image/jpeg',
+    '1.2.840.10008.1.2.4.57': 'image/jpeg',
+    '1.2.840.10008.1.2.4.70': 'image/jpeg',
+    '1.2.840.10008.1.2.4.80': 'image/jls',
+    '1.2.840.10008.1.2.4.81': 'image/jls',
+    '1.2.840.10008.1.2.4.90': 'image/jp2',
+    '1.2.840.10008.1.2.4.91': 'image/jp2',
+    '1.2.840.10008.1.2.4.92': 'image/jpx',
+    '1.2.840.10008.1.2.4.93': 'image/jpx',
+    '1.2.840.10008.1.2.4.201': 'image/jphc',
+    '1.2.840.10008.1.2.4.202': 'image/jphc',
+    '1.2.840.10008.1.2.4.203': 'image/jphc',
+    '1.2.840.10008.1.2.5': 'image/dicom-rle',
+};
+
+const CRLF = '\r\n';
+
+const encoder = new TextEncoder();
+
+const indexOf = (bytes: Uint8Array, pattern: Uint8Array, from: number) => {
+    for (let index = bytes.indexOf(pattern[0], from); index !== -1; ) {
+        if (index + pattern.length > bytes.length) {
+            return -1;
+        }
+
+        let match = true;
+        for (let offset = 1; offset < pattern.length; offset++) {
+            if (bytes[index + offset] !== pattern[offset]) {
+                match = false;
+                break;
+            }
+        }
+        if (match) {
+            return index;
+        }
+
+        index = bytes.indexOf(pattern[0], index + 1);
+    }
+
+    return -1;
+};
+
+/**
+ * Media type and parameters of a Content-Type header, parameter names in lower case
+ */
+export const parseContentType = (contentType: string) => {
+    const [type] = contentType.split(';');
+    const parameters: Record<string, string> = {};
+
+    for (const [, name, value] of contentType.matchAll(/;\s*([^=;\s]+)\s*=\s*("[^"]*"|[^;]*)/g)) {
+        parameters[name.toLowerCase()] = value.trim().replace(/^"(.*)"$/, '$1');
+    }
+
+    return { type: type.trim().toLowerCase(), parameters };
+};
+
+/**
+ * Parts of a multipart/related body (RFC 2387). A body of any other type is a single part.
+ */
+export const parseMultipart = (bytes: Uint8Array, contentType: string): MultipartPart[] => {
+    const { type, parameters } = parseContentType(contentType);
+
+    if (!type.startsWith('multipart/')) {
+        return [{ headers: { 'content-type': contentType }, contentType, data: bytes }];
+    }
+
+    if (!parameters.boundary) {
+        const error = new Error(`loader.dicomweb multipart body without boundary: ${contentType}`);
+        throw error;
+    }
+
+    const delimiter = encoder.encode(`--${parameters.boundary}`);
+    // the line break before a delimiter belongs to it, not to the part
+    const partEnd = encoder.encode(`${CRLF}--${parameters.boundary}`);
+    const headerEnd = encoder.encode(CRLF + CRLF);
+    const parts: MultipartPart[] = [];
+
+    let position = indexOf(bytes, delimiter, 0);
+    while (position !== -1) {
+        position += delimiter.length;
+
+        // '--' after the delimiter closes the body
+        if (bytes[position] === 0x2d && bytes[position + 1] === 0x2d) {
+            break;
+        }
+
+        const headersEnd = indexOf(bytes, headerEnd, position);
+        const next = indexOf(bytes, partEnd, position);
+        if (headersEnd === -1 || next === -1 || headersEnd > next) {
+            const error = new Error('loader.dicomweb truncated multipart body');
+            throw error;
+        }
+
+        const headers: Record<string, string> = {};
+        const lines = String.fromCharCode(...bytes.subarray(position, headersEnd)).split(CRLF);
+        for (const line of lines) {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                headers[line.slice(0, separator).trim().toLowerCase()] = line
+                    .slice(separator + 1)
+                    .trim();
+            }
+        }
+
+        parts.push({
+            headers,
+            contentType: headers['content-type'] ?? parameters.type ?? 'application/octet-stream',
+            data: bytes.subarray(headersEnd + headerEnd.length, next),
+        });
+
+        position = next + CRLF.length;
+    }
+
+    return parts;
+};
+
+/**
+ * multipart/related body of the parts, as sent by STOW-RS
+ */
+export const buildMultipart = (
+    parts: { contentType: string; data: BlobPart }[],
+    boundary: string
+) =>
+    new Blob([
+        ...parts.flatMap((part) => [
+            `--${boundary}${CRLF}Content-Type: ${part.contentType}${CRLF}${CRLF}`,
+            part.data,
+            CRLF,
+        ]),
+        `--${boundary}--${CRLF}`,
+    ]);
+
+const acceptedTypes = (type: (transferSyntaxUID: string) => string, transferSyntaxes: string[]) =>
+    transferSyntaxes
+        .map((transferSyntaxUID, index) =>
+            [
+                `multipart/related; type="${type(transferSyntaxUID)}"`,
+                `transfer-syntax=${transferSyntaxUID}`,
+                ...(index ? [`q=${Math.max(1 - index / 10, 0.1).toFixed(1)}`] : []),
+            ].join('; ')
+        )
+        .join(', ');
+
+const attributeKey = (attribute: string | number) => {
+    const tag = toTag(attribute);
+    if (!tag) {
+        const error = new Error(`loader.dicomweb unknown attribute: ${attribute}`);
+        throw error;
+    }
+
+    return formatTag(tag).replace(/[(),]/g, '');
+};
+
+/**
+ * DICOMweb client: QIDO-RS search, WADO-RS retrieval of instances, metadata and frames,
+ * STOW-RS storage. Retrieved instances are Part 10 files, as read by `DicomParser` and
+ * `preloader`.
+ */
+export default class DicomWebClient {
+    private _options: DicomWebOptions;
+
+    constructor(options: DicomWebOptions) {
+        this._options = options;
+    }
+
+    /**
+     * QIDO-RS Search for Studies
+     */
+    async searchForStudies(query: SearchQuery = {}) {
+        return this._search(['studies'], query);
+    }
+
+    /**
+     * QIDO-RS Search for Series, in a study or in all of them
+     */
+    async searchForSeries(studyInstanceUID?: string, query: SearchQuery = {}) {
+        return this._search(
+            studyInstanceUID ? ['studies', studyInstanceUID, 'series'] : ['series'],
+            query
+        );
+    }
+
+    /**
+     * QIDO-RS Search for Instances, in a series, a study or in all of them
+     */
+    async searchForInstances(
+        studyInstanceUID?: string,
+        seriesInstanceUID?: string,
+        query: SearchQuery = {}
+    ) {
+        const path = studyInstanceUID
+            ? [
+                  'studies',
+                  studyInstanceUID,
+                  ...(seriesInstanceUID ? ['series', seriesInstanceUID] : []),
+              ]
+            : [];
+
+        return this._search([...path, 'instances'], query);
+    }
+
+    /**
+     * WADO-RS metadata of the instances of a study, series or single instance, in the DICOM
+     * JSON Model (read it with `parseDicomJSON`). Bulk data are referenced by BulkDataURI.
+     */
+    async retrieveMetadata(
+        studyInstanceUID: string,
+        seriesInstanceUID?: string,
+        sopInstanceUID?: string
+    ): Promise<DicomJSON[]> {
+        const response = await this._fetch(
+            this._url(this._options.wadoURL, [
+                ...this._resource(studyInstanceUID, seriesInstanceUID, sopInstanceUID),
+                'metadata',
+            ]),
+            { headers: { Accept: 'application/dicom+json' } }
+        );
+
+        return response.status === 204 ? [] : response.json();
+    }
+
+    /**
+     * WADO-RS instances of a study, series or single instance as Part 10 files
+     */
+    async retrieveInstances(
+        studyInstanceUID: string,
+        seriesInstanceUID?: string,
+        sopInstanceUID?: string,
+        options: RetrieveOptions = {}
+    ): Promise<File[]> {
+        const { transferSyntaxes } = options;
+        const parts = await this._retrieve(
+            this._url(
+                this._options.wadoURL,
+                this._resource(studyInstanceUID, seriesInstanceUID, sopInstanceUID)
+            ),
+            transferSyntaxes?.length
+                ? acceptedTypes(() => 'application/dicom', transferSyntaxes)
+                : 'multipart/related; type="application/dicom"',
+            transferSyntaxes
+        );
+
+        return parts.map((part, index) => {
+            const name = part.headers['content-location']?.split('/').pop() || `${index + 1}.dcm`;
+
+            return new File([part.data], name, { type: 'application/dicom' });
+        });
+    }
+
+    /**
+     * Parsers of the instances of a study, series or single instance
+     */
+    async retrieveDicomParsers(
+        studyInstanceUID: string,
+        seriesInstanceUID?: string,
+        sopInstanceUID?: string,
+        options: RetrieveOptions = {}
+    ) {
+        const files = await this.retrieveInstances(
+            studyInstanceUID,
+            seriesInstanceUID,
+            sopInstanceUID,
+            options
+        );
+
+        return Promise.all(
+            files.map(async (file) => new DicomParser({ buffer: await file.arrayBuffer() }))
+        );
+    }
+
+    /**
+     * Retrieve a study or series and group it like local files: one entry per homogeneous stack
+     */
+    async preload(
+        studyInstanceUID: string,
+        seriesInstanceUID?: string,
+        options: PreloaderOptions & RetrieveOptions = {}
+    ): Promise<Series[]> {
+        const { transferSyntaxes, ...preloaderOptions } = options;
+        const files = await this.retrieveInstances(studyInstanceUID, seriesInstanceUID, undefined, {
+            transferSyntaxes,
+        });
+
+        return preloader(files, preloaderOptions);
+    }
+
+    /**
+     * WADO-RS frames of an instance, as pixel data (native or compressed bitstream)
+     *
+     * @param frameIndexes 0-based frame indices
+     */
+    async retrieveFrames(
+        studyInstanceUID: string,
+        seriesInstanceUID: string,
+        sopInstanceUID: string,
+        frameIndexes: number[],
+        options: RetrieveOptions = {}
+    ): Promise<RetrievedFrame[]> {
+        const transferSyntaxes = options.transferSyntaxes?.length
+            ? options.transferSyntaxes
+            : [EXPLICIT_VR_LITTLE_ENDIAN];
+        const parts = await this._retrieve(
+            this._url(this._options.wadoURL, [
+                ...this._resource(studyInstanceUID, seriesInstanceUID, sopInstanceUID),
+                'frames',
+                frameIndexes.map((frameIndex) => frameIndex + 1).join(','),
+            ]),
+            acceptedTypes(
+                (transferSyntaxUID) =>
+                    FRAME_MEDIA_TYPES[transferSyntaxUID] ?? 'application/octet-stream',
+                transferSyntaxes
+            ),
+            transferSyntaxes
+        );
+
+        if (parts.length !== frameIndexes.length) {
+            const error = new Error(
+                `loader.dicomweb expected ${frameIndexes.length} frames, received ${parts.length}`
+            );
+            throw error;
+        }
+
+        return parts.map((part, index) => {
+            const { type, parameters } = parseContentType(part.contentType);
+            const candidates = transferSyntaxes.filter(
+                (transferSyntaxUID) => FRAME_MEDIA_TYPES[transferSyntaxUID] === type
+            );
+
+            return {
+                frameIndex: frameIndexes[index],
+                transferSyntaxUID:
+                    parameters['transfer-syntax'] ??
+                    (candidates.length === 1 ? candidates[0] : null),
+                contentType: part.contentType,
+                data: part.data,
+            };
+        });
+    }
+
+    /**
+     * STOW-RS: store instances, in a given study when `studyInstanceUID` is set
+     */
+    async store(
+        instances: (Blob | ArrayBuffer | Uint8Array)[],
+        studyInstanceUID?: string
+    ): Promise<StoreResult> {
+        const boundary = `dicomweb-${Math.random().toString(16).slice(2)}`;
+        const response = await this._fetch(
+            this._url(
+                this._options.stowURL,
+                studyInstanceUID ? ['studies', studyInstanceUID] : ['studies']
+            ),
+            {
+                method: 'POST',
+                headers: {
+                    Accept: 'application/dicom+json',
+                    'Content-Type': `multipart/related; type="application/dicom"; boundary=${boundary}`,
+                },
+                body: buildMultipart(
+                    instances.map((data) => ({ contentType: 'application/dicom', data })),
+                    boundary
+                ),
+            },
+            // 409 Conflict: some instances were not stored, the response tells which
+            [409]
+        );
+
+        const text = await response.text();
+        const json: DicomJSON | null = text ? JSON.parse(text) : null;
+        const items = (tag: string) => (json?.[tag]?.Value ?? []) as DicomJSON[];
+        const value = <T>(item: DicomJSON, tag: string) =>
+            (item[tag]?.Value?.[0] ?? null) as T | null;
+
+        return {
+            stored: items('00081199').map((item) => value<string>(item, '00081155') ?? ''),
+            failures: items('00081198').map((item) => ({
+                sopInstanceUID: value<string>(item, '00081155'),
+                reason: value<number>(item, '00081197'),
+            })),
+            response: json,
+        };
+    }
+
+    private async _search(path: string[], query: SearchQuery): Promise<DicomJSON[]> {
+        const parameters = new URLSearchParams();
+
+        for (const [attribute, value] of Object.entries(query.filters ?? {})) {
+            parameters.append(attributeKey(attribute), String(value));
+        }
+        if (query.includeFields === 'all') {
+            parameters.append('includefield', 'all');
+        } else {
+            for (const attribute of query.includeFields ?? []) {
+                parameters.append('includefield', attributeKey(attribute));
+            }
+        }
+        if (query.fuzzyMatching) parameters.append('fuzzymatching', 'true');
+        if (query.limit !== undefined) parameters.append('limit', String(query.limit));
+        if (query.offset !== undefined) parameters.append('offset', String(query.offset));
+
+        const search = parameters.toString();
+        const response = await this._fetch(
+            this._url(this._options.qidoURL, path) + (search ? `?${search}` : ''),
+            { headers: { Accept: 'application/dicom+json' } }
+        );
+
+        // 204 No Content: nothing matches
+        return response.status === 204 ? [] : response.json();
+    }
+
+    /**
+     * Parts of a WADO-RS response, checked against the accepted transfer syntaxes
+     */
+    private async _retrieve(url: string, accept: string, transferSyntaxes?: string[]) {
+        const response = await this._fetch(url, { headers: { Accept: accept } });
+        const parts = parseMultipart(
+            new Uint8Array(await response.arrayBuffer()),
+            response.headers.get('Content-Type') ?? 'application/octet-stream'
+        );
+
+        for (const part of parts) {
+            const transferSyntaxUID = parseContentType(part.contentType).parameters[
+                'transfer-syntax'
+            ];
+            if (
+                transferSyntaxUID &&
+                transferSyntaxes?.length &&
+                !transferSyntaxes.includes('*') &&
+                !transferSyntaxes.includes(transferSyntaxUID)
+            ) {
+                const error = new Error(
+                    `loader.dicomweb transfer syntax ${transferSyntaxUID} was not requested`
+                );
+                throw error;
+            }
+        }
+
+        return parts;
+    }
+
+    private async _fetch(url: string, init: RequestInit, acceptedStatuses: number[] = []) {
+        const fetchImplementation = this._options.fetch ?? globalThis.fetch.bind(globalThis);
+        const response = await fetchImplementation(url, {
+            ...init,
+            headers: { ...this._options.headers, ...(init.headers as Record<string, string>) },
+        });
+
+        if (!response.ok && !acceptedStatuses.includes(response.status)) {
+            const error = new Error(
+                `loader.dicomweb ${init.method ?? 'GET'} ${url} failed: ${response.status} ${
+                    response.statusText
+                }`
+            );
+            throw error;
+        }
+
+        return response;
+    }
+
+    private _resource(
+        studyInstanceUID: string,
+        seriesInstanceUID?: string,
+        sopInstanceUID?: string
+    ) {
+        if (sopInstanceUID && !seriesInstanceUID) {
+            const error = new Error('loader.dicomweb an instance needs its series');
+            throw error;
+        }
+
+        return [
+            'studies',
+            studyInstanceUID,
+            ...(seriesInstanceUID ? ['series', seriesInstanceUID] : []),
+            ...(sopInstanceUID ? ['instances', sopInstanceUID] : []),
+        ];
+    }
+
+    private _url(baseURL: string | undefined, path: string[]) {
+        return [(baseURL ?? this._options.url).replace(/\/+$/, ''), ...path].join('/');
+    }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { rasterizeROI, readStructureSet } from './loader.rtstruct.ts';
+import type { RTROI } from './loader.rtstruct.ts';
+import MutableDataSet from './model.dataset.ts';
+import Volume from './model.volume.ts';
+import DicomParser from './parser.dicom.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+const toParser = (dataSet: MutableDataSet) =>
+    new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+
+/**
+ * Axial grid of 6 x 6 voxels of 1 mm, two slices at z = 0 and z = 1
+ */
+const gridVolume = () => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+    dataSet.setString('SOPInstanceUID', '1.2.3.1');
+    dataSet.setString('ImageOrientationPatient', ['1', '0', '0', '0', '1', '0'], 'DS');
+    dataSet.setNumbers('Rows', 6, 'US');
+    dataSet.setNumbers('Columns', 6, 'US');
+
+    return new Volume(
+        toParser(dataSet),
+        [
+            [0, 0, 0],
+            [0, 0, 1],
+        ],
+        new Uint8Array(72),
+        '1.2.3',
+        ['1.2.3.1', '1.2.3.2']
+    );
+};
+
+const square = (from: number, to: number, z: number): [number, number, number][] => [
+    [from, from, z],
+    [to, from, z],
+    [to, to, z],
+    [from, to, z],
+];
+
+const roi = (...contours: [number, number, number][][]): RTROI => ({
+    number: 1,
+    name: null,
+    color: null,
+    interpretedType: null,
+    interpreter: null,
+    referencedFrameOfReferenceUID: null,
+    contours: contours.map((points) => ({
+        geometricType: 'CLOSED_PLANAR',
+        points,
+        closed: true,
+        referencedSOPInstanceUIDs: [],
+    })),
+});
+
+/**
+ * Rows of a slice of the mask, '#' inside the ROI
+ */
+const sliceRows = (mask: Uint8Array, slice: number) =>
+    Array.from({ length: 6 }, (_, row) =>
+        Array.from(mask.subarray((slice * 6 + row) * 6, (slice * 6 + row + 1) * 6))
+            .map((value) => (value ? '#' : '.'))
+            .join('')
+    );
+
+describe('readStructureSet', () => {
+    it('joins the ROI, contour and observation sequences on the ROI number', () => {
+        const structureSetROI = new MutableDataSet();
+        structureSetROI.setString('x30060022', '7', 'IS');
+        structureSetROI.setString('x30060024', '1.2.3.100', 'UI');
+        structureSetROI.setString('x30060026', 'Liver', 'LO');
+
+        const contourImage = new MutableDataSet();
+        contourImage.setString('x00081150', '1.2.840.10008.5.1.4.1.1.2', 'UI');
+        contourImage.setString('x00081155', '1.2.3.1', 'UI');
+        const contour = new MutableDataSet();
+        contour.setSequence('x30060016', [contourImage]);
+        contour.setString('x30060042', 'CLOSED_PLANAR', 'CS');
+        contour.setString('x30060046', '2', 'IS');
+        contour.setString('x30060050', ['1', '2', '3', '4.5', '5', '6'], 'DS');
+
+        const roiContour = new MutableDataSet();
+        roiContour.setString('x3006002a', ['255', '128', '0'], 'IS');
+        roiContour.setSequence('x30060040', [contour]);
+        roiContour.setString('x30060084', '7', 'IS');
+
+        const observation = new MutableDataSet();
+        observation.setString('x30060084', '7', 'IS');
+        observation.setString('x300600a4', 'ORGAN', 'CS');
+
+        const dataSet = new MutableDataSet();
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.481.3');
+        dataSet.setString('SOPInstanceUID', '1.2.3.9');
+        dataSet.setSequence('x30060020', [structureSetROI]);
+        dataSet.setSequence('x30060039', [roiContour]);
+        dataSet.setSequence('x30060080', [observation]);
+
+        expect(readStructureSet(toParser(dataSet))).toEqual([
+            {
+                number: 7,
+                name: 'Liver',
+                color: [255, 128, 0],
+                interpretedType: 'ORGAN',
+                interpreter: null,
+                referencedFrameOfReferenceUID: '1.2.3.100',
+                contours: [
+                    {
+                        geometricType: 'CLOSED_PLANAR',
+                        points: [
+                            [1, 2, 3],
+                            [4.5, 5, 6],
+                        ],
+                        closed: true,
+                        referencedSOPInstanceUIDs: ['1.2.3.1'],
+                    },
+                ],
+            },
+        ]);
+    });
+});
+
+describe('rasterizeROI', () => {
+    it('fills a square contour on the slice of its plane', () => {
+        const mask = rasterizeROI(roi(square(1, 4, 1)), gridVolume());
+
+        // rows and columns on the outline count from the first edge on, not the last one
+        expect(sliceRows(mask, 1)).toEqual([
+            '......',
+            '.####.',
+            '.####.',
+            '.####.',
+            '......',
+            '......',
+        ]);
+        expect(sliceRows(mask, 0)).toEqual(Array(6).fill('......'));
+    });
+
+    it('leaves the inner contour of a ring as a hole', () => {
+        const mask = rasterizeROI(roi(square(0, 5, 0), square(2, 4, 0)), gridVolume());
+
+        expect(sliceRows(mask, 0)).toEqual([
+            '######',
+            '######',
+            '##...#',
+            '##...#',
+            '######',
+            '......',
+        ]);
+    });
+
+    it('skips a contour on a plane with no slice', () => {
+        const mask = rasterizeROI(roi(square(1, 4, 5)), gridVolume());
+
+        expect(mask.every((value) => value === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,170 @@
+import { Vector3 } from 'three';
+import type { DataSet } from 'dicom-parser';
+import type Volume from './model.volume.ts';
+import type DicomParser from './parser.dicom.ts';
+
+export type ContourGeometricType = 'POINT' | 'OPEN_PLANAR' | 'OPEN_NONPLANAR' | 'CLOSED_PLANAR';
+
+export interface RTContour {
+    geometricType: ContourGeometricType;
+    /** Points in patient coordinates (LPS, mm) */
+    points: [number, number, number][];
+    closed: boolean;
+    /** Images the contour was drawn on */
+    referencedSOPInstanceUIDs: string[];
+}
+
+export interface RTROI {
+    number: number;
+    name: string | null;
+    /** Display color (0-255) */
+    color: [number, number, number] | null;
+    /** RT ROI Interpreted Type, e.g. ORGAN, PTV, EXTERNAL */
+    interpretedType: string | null;
+    interpreter: string | null;
+    referencedFrameOfReferenceUID: string | null;
+    contours: RTContour[];
+}
+
+const items = (dataSet: DataSet, tag: string) =>
+    (dataSet.elements[tag]?.items ?? [])
+        .map((item) => item.dataSet)
+        .filter((item): item is DataSet => !!item);
+
+const readContour = (contour: DataSet): RTContour => {
+    const geometricType = (contour.string('x30060042') ?? 'CLOSED_PLANAR') as ContourGeometricType;
+    const values = (contour.string('x30060050') ?? '').split('\\').map(parseFloat);
+
+    const points: [number, number, number][] = [];
+    for (let i = 0; i + 2 < values.length; i += 3) {
+        points.push([values[i], values[i + 1], values[i + 2]]);
+    }
+
+    return {
+        geometricType,
+        points,
+        closed: geometricType === 'CLOSED_PLANAR',
+        referencedSOPInstanceUIDs: items(contour, 'x30060016')
+            .map((image) => image.string('x00081155'))
+            .filter((uid): uid is string => !!uid),
+    };
+};
+
+/**
+ * ROIs of an RT Structure Set
+ * -> Structure Set ROI Sequence (3006,0020): number, name, frame of reference
+ * -> ROI Contour Sequence (3006,0039): color and contours
+ * -> RT ROI Observations Sequence (3006,0080): interpreted type
+ */
+export const readStructureSet = (dicomParser: DicomParser): RTROI[] => {
+    const dataSet = dicomParser.rawHeader;
+    const rois = new Map<number, RTROI>();
+
+    for (const item of items(dataSet, 'x30060020')) {
+        const number = item.intString('x30060022');
+        if (number === undefined) {
+            continue;
+        }
+
+        rois.set(number, {
+            number,
+            name: dicomParser.string('x30060026', item),
+            color: null,
+            interpretedType: null,
+            interpreter: null,
+            referencedFrameOfReferenceUID: item.string('x30060024') ?? null,
+            contours: [],
+        });
+    }
+
+    for (const item of items(dataSet, 'x30060039')) {
+        const roi = rois.get(item.intString('x30060084') ?? -1);
+        if (!roi) {
+            continue;
+        }
+
+        if (item.numStringValues('x3006002a') === 3) {
+            roi.color = [0, 1, 2].map((i) => item.intString('x3006002a', i) ?? 0) as [
+                number,
+                number,
+                number
+            ];
+        }
+        roi.contours = items(item, 'x30060040').map(readContour);
+    }
+
+    for (const item of items(dataSet, 'x30060080')) {
+        const roi = rois.get(item.intString('x30060084') ?? -1);
+        if (roi) {
+            roi.interpretedType = item.string('x300600a4') ?? null;
+            roi.interpreter = item.string('x300600a6') ?? null;
+        }
+    }
+
+    return [...rois.values()];
+};
+
+/**
+ * Fill the closed contours of an ROI on the volume grid (even-odd rule, so inner contours are holes).
+ * The mask has one byte per voxel, 1 inside the ROI.
+ */
+export const rasterizeROI = (roi: RTROI, volume: Volume) => {
+    const [columns, rows, slices] = volume.dimensions;
+    const mask = new Uint8Array(columns * rows * slices);
+
+    for (const contour of roi.contours) {
+        if (!contour.closed || contour.points.length < 3) {
+            continue;
+        }
+
+        const ijk = contour.points.map((point) =>
+            new Vector3(...point).applyMatrix4(volume.lps2ijk)
+        );
+        const k = Math.round(ijk.reduce((sum, point) => sum + point.z, 0) / ijk.length);
+        if (k < 0 || k >= slices) {
+            continue;
+        }
+
+        const offset = k * columns * rows;
+        const minJ = Math.max(Math.ceil(Math.min(...ijk.map((point) => point.y))), 0);
+        const maxJ = Math.min(Math.floor(Math.max(...ijk.map((point) => point.y))), rows - 1);
+
+        for (let j = minJ; j <= maxJ; j++) {
+            // crossings of the row with the polygon edges
+            const crossings: number[] = [];
+            for (let n = 0; n < ijk.length; n++) {
+                const a = ijk[n];
+                const b = ijk[(n + 1) % ijk.length];
+
+                if ((a.y <= j && j < b.y) || (b.y <= j && j < a.y)) {
+                    crossings.push(a.x + ((j - a.y) * (b.x - a.x)) / (b.y - a.y));
+                }
+            }
+            crossings.sort((a, b) => a - b);
+
+            for (let n = 0; n + 1 < crossings.length; n += 2) {
+                const start = Math.max(Math.ceil(crossings[n]), 0);
+                const end = Math.min(Math.floor(crossings[n + 1]), columns - 1);
+
+                for (let i = start; i <= end; i++) {
+                    mask[offset + j * columns + i] ^= 1;
+                }
+            }
+        }
+    }
+
+    return mask;
+};
+
+/**
+ * Masks of every ROI on the volume grid, indexed by ROI number.
+ */
+export const rasterizeStructureSet = (rois: RTROI[], volume: Volume) => {
+    const masks = new Map<number, Uint8Array>();
+
+    for (const roi of rois) {
+        masks.set(roi.number, rasterizeROI(roi, volume));
+    }
+
+    return masks;
+};
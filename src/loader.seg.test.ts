@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { loadSegmentation } from './loader.seg.ts';
+import MutableDataSet from './model.dataset.ts';
+import Volume from './model.volume.ts';
+import DicomParser from './parser.dicom.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+const image = (dataSet: MutableDataSet, pixels: number[], numberOfFrames = 1) => {
+    dataSet.setNumbers('Rows', 1, 'US');
+    dataSet.setNumbers('Columns', pixels.length / numberOfFrames, 'US');
+    dataSet.setNumbers('NumberOfFrames', numberOfFrames, 'IS');
+    dataSet.setNumbers('SamplesPerPixel', 1, 'US');
+    dataSet.setString('PhotometricInterpretation', 'MONOCHROME2', 'CS');
+    dataSet.setNumbers('BitsAllocated', 8, 'US');
+    dataSet.setNumbers('BitsStored', 8, 'US');
+    dataSet.setNumbers('HighBit', 7, 'US');
+    dataSet.setNumbers('PixelRepresentation', 0, 'US');
+    dataSet.setBytes('x7fe00010', Uint8Array.from(pixels), 'OB');
+
+    return new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+};
+
+/**
+ * Two slices of two pixels, from the files 1.2.3.1 and 1.2.3.2
+ * or from the frames of a multi-frame file
+ */
+const sourceVolume = (sopInstanceUIDs = ['1.2.3.1', '1.2.3.2'], frameIndexes?: number[]) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+    dataSet.setString('SOPInstanceUID', '1.2.3.1');
+
+    return new Volume(
+        image(dataSet, [0, 0]),
+        [
+            [0, 0, 0],
+            [0, 0, 1],
+        ],
+        new Uint8Array(4),
+        '1.2.3',
+        sopInstanceUIDs,
+        0,
+        frameIndexes
+    );
+};
+
+/**
+ * FRACTIONAL segmentation, one frame per source image (and frame number)
+ */
+const segmentation = (sources: string[], pixels: number[], frameNumbers: number[] = []) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.66.4');
+    dataSet.setString('SOPInstanceUID', '1.2.3.9');
+    dataSet.setString('x00620001', 'FRACTIONAL', 'CS');
+    dataSet.setNumbers('x00620014', 255, 'US');
+
+    const segment = new MutableDataSet();
+    segment.setNumbers('x00620004', 1, 'US');
+    segment.setString('x00620005', 'Liver', 'LO');
+    dataSet.setSequence('x00620002', [segment]);
+
+    dataSet.setSequence(
+        'x52009230',
+        sources.map((sopInstanceUID, index) => {
+            const sourceImage = new MutableDataSet();
+            sourceImage.setString('x00081155', sopInstanceUID, 'UI');
+            if (frameNumbers[index] !== undefined) {
+                sourceImage.setString('x00081160', String(frameNumbers[index]), 'IS');
+            }
+            const derivationImage = new MutableDataSet();
+            derivationImage.setSequence('x00082112', [sourceImage]);
+            const segmentIdentification = new MutableDataSet();
+            segmentIdentification.setNumbers('x0062000b', 1, 'US');
+
+            const item = new MutableDataSet();
+            item.setSequence('x00089124', [derivationImage]);
+            item.setSequence('x0062000a', [segmentIdentification]);
+            return item;
+        })
+    );
+
+    return image(dataSet, pixels, sources.length);
+};
+
+describe('loadSegmentation', () => {
+    it('returns the frames that match no slice of the volume', async () => {
+        const result = await loadSegmentation(
+            segmentation(['1.2.3.2', '1.2.3.7'], [255, 0, 255, 255]),
+            sourceVolume()
+        );
+
+        expect(result.unmatchedFrames).toEqual([1]);
+        expect(Array.from(result.labelMap)).toEqual([0, 0, 1, 0]);
+        expect(Array.from(result.masks.get(1) ?? [])).toEqual([0, 0, 255, 0]);
+    });
+
+    it('matches the frames of a multi-frame source on their frame number', async () => {
+        const result = await loadSegmentation(
+            segmentation(['1.2.3.5', '1.2.3.5', '1.2.3.5'], [255, 0, 0, 255, 255, 255], [2, 1]),
+            sourceVolume(['1.2.3.5', '1.2.3.5'], [0, 1])
+        );
+
+        // without frame number the third frame could lie on any slice
+        expect(result.unmatchedFrames).toEqual([2]);
+        expect(Array.from(result.labelMap)).toEqual([0, 1, 1, 0]);
+    });
+});
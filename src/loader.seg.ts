@@ -0,0 +1,162 @@
+import { Vector3 } from 'three';
+import type Volume from './model.volume.ts';
+import type DicomParser from './parser.dicom.ts';
+import type { SegmentationSegment } from './parser.dicom.ts';
+
+export interface SegmentationFrame {
+    frameIndex: number;
+    segmentNumber: number;
+    /** Source image the frame was derived from, if referenced */
+    referencedSOPInstanceUID: string | null;
+    /** Frame (1-based) of a multi-frame source image, if referenced */
+    referencedFrameNumber: number | null;
+    imagePosition: [number, number, number] | null;
+}
+
+export interface SegmentationOptions {
+    /** FRACTIONAL segmentations: minimum fraction (0-1) for a voxel to belong to a segment */
+    threshold?: number;
+}
+
+export interface Segmentation {
+    segments: SegmentationSegment[];
+    frames: SegmentationFrame[];
+    /** Same dimensions as the source volume */
+    dimensions: [columns: number, rows: number, slices: number];
+    /**
+     * Mask of each segment on the volume grid, indexed by segment number:
+     * 0-1 for BINARY, 0-255 (fraction) for FRACTIONAL segmentations
+     */
+    masks: Map<number, Uint8Array>;
+    /** Segment number of each voxel, 0 outside of every segment, the last frame wins on overlap */
+    labelMap: Uint8Array | Uint16Array;
+    /** Frames without segment or slice of the volume, left out of the masks */
+    unmatchedFrames: number[];
+}
+
+/**
+ * Segment and source image (or plane position) of every frame of a SEG object.
+ */
+export const segmentationFrames = (dicomParser: DicomParser): SegmentationFrame[] => {
+    const frames: SegmentationFrame[] = [];
+
+    for (let frameIndex = 0; frameIndex < (dicomParser.numberOfFrames ?? 1); frameIndex++) {
+        frames.push({
+            frameIndex,
+            segmentNumber: dicomParser.referencedSegmentNumber(frameIndex) ?? -1,
+            referencedSOPInstanceUID: dicomParser.referencedSOPInstanceUID(frameIndex),
+            referencedFrameNumber: dicomParser.referencedFrameNumber(frameIndex),
+            imagePosition: dicomParser.imagePosition(frameIndex),
+        });
+    }
+
+    return frames;
+};
+
+/**
+ * Slice of the volume a frame lies on, from its source image (and frame of a multi-frame
+ * source) or else its position.
+ */
+const sliceIndex = (frame: SegmentationFrame, volume: Volume) => {
+    if (frame.referencedSOPInstanceUID) {
+        const { referencedSOPInstanceUID, referencedFrameNumber } = frame;
+        const matches = volume.sopInstanceUIDs.flatMap((sopInstanceUID, index) =>
+            sopInstanceUID === referencedSOPInstanceUID &&
+            (referencedFrameNumber === null ||
+                volume.frameIndexes[index] === referencedFrameNumber - 1)
+                ? [index]
+                : []
+        );
+
+        // a multi-frame source without frame number does not tell the slice
+        if (matches.length === 1) {
+            return matches[0];
+        }
+    }
+
+    if (frame.imagePosition) {
+        const ijk = new Vector3(...frame.imagePosition).applyMatrix4(volume.lps2ijk);
+        const index = Math.round(ijk.z);
+
+        if (index >= 0 && index < volume.dimensions[2]) {
+            return index;
+        }
+    }
+
+    return -1;
+};
+
+/**
+ * Unpack the frames of a SEG object onto the grid of its source volume.
+ */
+export const loadSegmentation = async (
+    dicomParser: DicomParser,
+    volume: Volume,
+    options: SegmentationOptions = {}
+): Promise<Segmentation> => {
+    const [columns, rows, slices] = volume.dimensions;
+    const sliceLength = columns * rows;
+
+    if (dicomParser.columns !== columns || dicomParser.rows !== rows) {
+        const error = new Error(
+            `loader.seg segmentation is ${dicomParser.columns}x${dicomParser.rows}, volume is ${columns}x${rows}`
+        );
+        throw error;
+    }
+
+    const segments = dicomParser.segmentationSegments;
+    const frames = segmentationFrames(dicomParser);
+    const fractional = dicomParser.segmentationType === 'FRACTIONAL';
+    const maximumFractionalValue = dicomParser.maximumFractionalValue ?? 255;
+    const threshold = (options.threshold ?? 0.5) * maximumFractionalValue;
+
+    const maxSegmentNumber = Math.max(0, ...segments.map((segment) => segment.segmentNumber ?? 0));
+    const labelMap =
+        maxSegmentNumber > 255
+            ? new Uint16Array(sliceLength * slices)
+            : new Uint8Array(sliceLength * slices);
+    const masks = new Map<number, Uint8Array>();
+    const unmatchedFrames: number[] = [];
+
+    for (const frame of frames) {
+        const slice = sliceIndex(frame, volume);
+        if (slice === -1 || frame.segmentNumber < 0) {
+            unmatchedFrames.push(frame.frameIndex);
+            continue;
+        }
+
+        if (!masks.has(frame.segmentNumber)) {
+            masks.set(frame.segmentNumber, new Uint8Array(sliceLength * slices));
+        }
+        const mask = masks.get(frame.segmentNumber)!;
+
+        const pixelData = await dicomParser.extractPixelData(frame.frameIndex);
+        const offset = slice * sliceLength;
+
+        for (let i = 0; i < sliceLength; i++) {
+            const value = pixelData[i];
+            if (!value) {
+                continue;
+            }
+
+            if (fractional) {
+                mask[offset + i] = Math.round((value / maximumFractionalValue) * 255);
+                if (value >= threshold) {
+                    labelMap[offset + i] = frame.segmentNumber;
+                }
+            } else {
+                mask[offset + i] = 1;
+                labelMap[offset + i] = frame.segmentNumber;
+            }
+        }
+    }
+
+    return {
+        segments,
+        frames,
+        dimensions: [columns, rows, slices],
+        masks,
+        labelMap,
+        unmatchedFrames,
+    };
+};
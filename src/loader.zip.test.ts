@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { extractEntry, isZipArchive, zipEntries } from './loader.zip.ts';
+
+interface TestEntry {
+    path: string;
+    data: Uint8Array;
+    deflate?: boolean;
+    flags?: number;
+}
+
+const deflateRaw = async (data: Uint8Array) =>
+    new Uint8Array(
+        await new Response(
+            new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+        ).arrayBuffer()
+    );
+
+/**
+ * Archive of the entries, sizes and offsets moved to ZIP64 records when `zip64` is set
+ */
+const buildZip = async (entries: TestEntry[], zip64 = false) => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const data = entry.deflate ? await deflateRaw(entry.data) : entry.data;
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(6, entry.flags ?? 0, true);
+        localView.setUint16(8, entry.deflate ? 8 : 0, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, entry.data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const extra = zip64 ? 4 + 24 : 0;
+        const record = new Uint8Array(46 + name.length + extra);
+        const view = new DataView(record.buffer);
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(8, entry.flags ?? 0, true);
+        view.setUint16(10, entry.deflate ? 8 : 0, true);
+        view.setUint32(20, zip64 ? 0xffffffff : data.length, true);
+        view.setUint32(24, zip64 ? 0xffffffff : entry.data.length, true);
+        view.setUint16(28, name.length, true);
+        view.setUint16(30, extra, true);
+        view.setUint32(42, zip64 ? 0xffffffff : offset, true);
+        record.set(name, 46);
+        if (zip64) {
+            const field = 46 + name.length;
+            view.setUint16(field, 0x0001, true);
+            view.setUint16(field + 2, 24, true);
+            view.setBigUint64(field + 4, BigInt(entry.data.length), true);
+            view.setBigUint64(field + 12, BigInt(data.length), true);
+            view.setBigUint64(field + 20, BigInt(offset), true);
+        }
+
+        chunks.push(local, data);
+        central.push(record);
+        offset += local.length + data.length;
+    }
+
+    const directorySize = central.reduce((size, record) => size + record.length, 0);
+    const tail: Uint8Array[] = [];
+
+    if (zip64) {
+        const record = new Uint8Array(56);
+        const view = new DataView(record.buffer);
+        view.setUint32(0, 0x06064b50, true);
+        view.setBigUint64(4, 44n, true);
+        view.setBigUint64(24, BigInt(entries.length), true);
+        view.setBigUint64(32, BigInt(entries.length), true);
+        view.setBigUint64(40, BigInt(directorySize), true);
+        view.setBigUint64(48, BigInt(offset), true);
+
+        const locator = new Uint8Array(20);
+        const locatorView = new DataView(locator.buffer);
+        locatorView.setUint32(0, 0x07064b50, true);
+        locatorView.setBigUint64(8, BigInt(offset + directorySize), true);
+        locatorView.setUint32(16, 1, true);
+
+        tail.push(record, locator);
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, zip64 ? 0xffff : entries.length, true);
+    endView.setUint16(10, zip64 ? 0xffff : entries.length, true);
+    endView.setUint32(12, zip64 ? 0xffffffff : directorySize, true);
+    endView.setUint32(16, zip64 ? 0xffffffff : offset, true);
+
+    return new Blob([...chunks, ...central, ...tail, end]);
+};
+
+const text = async (file: Blob) => new TextDecoder().decode(await file.arrayBuffer());
+
+const bytes = (value: string) => new TextEncoder().encode(value);
+
+describe('isZipArchive', () => {
+    it('checks the signature', async () => {
+        expect(await isZipArchive(await buildZip([{ path: 'a', data: bytes('a') }]))).toBe(true);
+        expect(await isZipArchive(await buildZip([]))).toBe(true);
+        expect(await isZipArchive(new Blob([new Uint8Array(132)]))).toBe(false);
+        expect(await isZipArchive(new Blob([]))).toBe(false);
+    });
+});
+
+describe('zipEntries', () => {
+    it('lists the files of the central directory without directories', async () => {
+        const archive = await buildZip([
+            { path: 'STUDY/', data: new Uint8Array() },
+            { path: 'STUDY\\IM1', data: bytes('first') },
+            { path: 'STUDY/снимок', data: bytes('second'), flags: 0x0800 },
+        ]);
+
+        expect((await zipEntries(archive)).map((entry) => entry.path)).toEqual([
+            'STUDY/IM1',
+            'STUDY/снимок',
+        ]);
+    });
+
+    it('reads sizes and offsets from ZIP64 records', async () => {
+        const archive = await buildZip(
+            [
+                { path: 'a', data: bytes('first') },
+                { path: 'b', data: bytes('second entry'), deflate: true },
+            ],
+            true
+        );
+        const entries = await zipEntries(archive);
+
+        expect(entries[1]).toMatchObject({ path: 'b', method: 8, uncompressedSize: 12 });
+        expect(entries[1].localHeaderOffset).toBe(31 + 5);
+        expect(await text(await extractEntry(archive, entries[1]))).toBe('second entry');
+    });
+
+    it('throws without an end of central directory', async () => {
+        await expect(zipEntries(new Blob([new Uint8Array(64)]))).rejects.toThrow(
+            'end of central directory not found'
+        );
+    });
+});
+
+describe('extractEntry', () => {
+    it('extracts stored and deflated entries', async () => {
+        const data = bytes('DICM'.repeat(1000));
+        const archive = await buildZip([
+            { path: 'stored', data },
+            { path: 'deflated', data, deflate: true },
+        ]);
+        const [stored, deflated] = await zipEntries(archive);
+
+        expect(deflated.compressedSize).toBeLessThan(data.length);
+        expect(new Uint8Array(await (await extractEntry(archive, stored)).arrayBuffer())).toEqual(
+            data
+        );
+        expect(new Uint8Array(await (await extractEntry(archive, deflated)).arrayBuffer())).toEqual(
+            data
+        );
+    });
+
+    it('rejects encrypted entries and unknown methods', async () => {
+        const archive = await buildZip([{ path: 'secret', data: bytes('x'), flags: 0x0001 }]);
+        const [entry] = await zipEntries(archive);
+
+        await expect(extractEntry(archive, entry)).rejects.toThrow('encrypted entry: secret');
+        await expect(
+            extractEntry(archive, { ...entry, encrypted: false, method: 12 })
+        ).rejects.toThrow('unsupported compression method 12');
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Entry of a ZIP archive, from its central directory record
+ */
+export interface ZipEntry {
+    /** Path within the archive, '/' separated */
+    path: string;
+    /** 0 stored, 8 deflated */
+    method: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+    encrypted: boolean;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+// Запись конца центрального каталога и комментарий длиной до 65535 байт
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const read = async (file: Blob, start: number, end: number) =>
+    new DataView(await file.slice(start, end).arrayBuffer());
+
+const uint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+/**
+ * Whether a file is a ZIP archive, by its signature rather than its extension
+ */
+export const isZipArchive = async (file: Blob) => {
+    if (file.size < 4) {
+        return false;
+    }
+
+    const signature = (await read(file, 0, 4)).getUint32(0, true);
+
+    // Архив с файлами или пустой архив
+    return signature === LOCAL_FILE_HEADER || signature === END_OF_CENTRAL_DIRECTORY;
+};
+
+/**
+ * Offset, size and number of entries of the central directory, from the end of central
+ * directory record or its ZIP64 counterpart
+ */
+const centralDirectory = async (file: Blob) => {
+    const tailStart = Math.max(0, file.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+    const tail = await read(file, tailStart, file.size);
+
+    let position = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+    while (position >= 0 && tail.getUint32(position, true) !== END_OF_CENTRAL_DIRECTORY) {
+        position--;
+    }
+    if (position < 0) {
+        const error = new Error('loader.zip end of central directory not found');
+        throw error;
+    }
+
+    let entries = tail.getUint16(position + 10, true);
+    let size = tail.getUint32(position + 12, true);
+    let offset = tail.getUint32(position + 16, true);
+
+    // ZIP64: локатор записи ZIP64 стоит сразу перед записью конца каталога
+    const locator = tailStart + position - 20;
+    if (locator >= 0) {
+        const locatorView = await read(file, locator, locator + 20);
+
+        if (locatorView.getUint32(0, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+            const recordOffset = uint64(locatorView, 8);
+            const record = await read(file, recordOffset, recordOffset + 56);
+
+            if (record.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+                const error = new Error('loader.zip invalid ZIP64 end of central directory');
+                throw error;
+            }
+
+            entries = uint64(record, 32);
+            size = uint64(record, 40);
+            offset = uint64(record, 48);
+        }
+    }
+
+    return { entries, size, offset };
+};
+
+/**
+ * Entries of the central directory, directories excluded
+ */
+export const zipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+    const directory = await centralDirectory(file);
+    const view = await read(file, directory.offset, directory.offset + directory.size);
+    const bytes = new Uint8Array(view.buffer);
+    const entries: ZipEntry[] = [];
+
+    let position = 0;
+    for (let index = 0; index < directory.entries; index++) {
+        if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+            const error = new Error(`loader.zip invalid central directory record ${index}`);
+            throw error;
+        }
+
+        const flags = view.getUint16(position + 8, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const nameBytes = bytes.subarray(position + 46, position + 46 + nameLength);
+
+        const entry: ZipEntry = {
+            // Бит 11: имя в UTF-8, иначе в кодовой странице архиватора
+            path: new TextDecoder(flags & 0x0800 ? 'utf-8' : 'windows-1252')
+                .decode(nameBytes)
+                .replace(/\\/g, '/'),
+            method: view.getUint16(position + 10, true),
+            compressedSize: view.getUint32(position + 20, true),
+            uncompressedSize: view.getUint32(position + 24, true),
+            localHeaderOffset: view.getUint32(position + 42, true),
+            encrypted: (flags & 0x0001) !== 0,
+        };
+
+        // Поля, не поместившиеся в 32 бита, лежат в дополнительном поле ZIP64 в этом порядке
+        let extra = position + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = view.getUint16(extra, true);
+            const length = view.getUint16(extra + 2, true);
+
+            if (id === ZIP64_EXTRA_FIELD) {
+                let field = extra + 4;
+                for (const key of [
+                    'uncompressedSize',
+                    'compressedSize',
+                    'localHeaderOffset',
+                ] as const) {
+                    if (entry[key] === 0xffffffff && field + 8 <= extra + 4 + length) {
+                        entry[key] = uint64(view, field);
+                        field += 8;
+                    }
+                }
+            }
+
+            extra += 4 + length;
+        }
+
+        if (!entry.path.endsWith('/')) {
+            entries.push(entry);
+        }
+
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+};
+
+/**
+ * Content of an entry. Stored entries are slices of the archive, deflated entries are
+ * inflated as a stream.
+ */
+export const extractEntry = async (file: Blob, entry: ZipEntry): Promise<File> => {
+    const name = entry.path;
+
+    if (entry.encrypted) {
+        const error = new Error(`loader.zip encrypted entry: ${name}`);
+        throw error;
+    }
+
+    const header = await read(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+        const error = new Error(`loader.zip invalid local file header: ${name}`);
+        throw error;
+    }
+
+    // Длины имени и дополнительного поля в локальном заголовке могут отличаться от каталога
+    const start =
+        entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = file.slice(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+        case 0:
+            return new File([data], name);
+        case 8: {
+            const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+            return new File([await new Response(stream).blob()], name);
+        }
+        default: {
+            const error = new Error(
+                `loader.zip unsupported compression method ${entry.method}: ${name}`
+            );
+            throw error;
+        }
+    }
+};
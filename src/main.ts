@@ -1,48 +1,58 @@
 import './style.css';
-import typescriptLogo from './typescript.svg';
-import viteLogo from '/vite.svg';
-import { setupCounter } from './counter.ts';
-import { Matrix4, Vector3 } from 'three';
-import DicomParser from './parser.dicom.ts';
-import { preloader } from './preloader.ts';
+import Volume from './model.volume.ts';
+import { preloadFiles } from './preloader.ts';
+import WorkerPool from './worker.pool.ts';
 
 const fileInput = document.getElementById('fileInput') as HTMLInputElement;
 const loadButton = document.getElementById('loadButton') as HTMLButtonElement;
+const cancelButton = document.getElementById('cancelButton') as HTMLButtonElement;
+const progressBar = document.getElementById('progress') as HTMLProgressElement;
+
+const pool = new WorkerPool();
+
+let controller: AbortController | null = null;
+
+cancelButton.addEventListener('click', () => controller?.abort());
 
 loadButton.addEventListener('click', async () => {
     const files = fileInput.files; // Получаем выбранный файл
 
     if (files) {
-        const series = await preloader(files);
-        console.log(series);
+        controller = new AbortController();
+        const { signal } = controller;
+        cancelButton.disabled = false;
+
+        try {
+            const { series, failures } = await preloadFiles(files, {
+                scanMode: 'header',
+                pool,
+                signal,
+                // Прогресс по байтам: число файлов растёт, пока читаются архивы
+                onProgress: (progress) => {
+                    progressBar.max = progress.totalBytes || 1;
+                    progressBar.value = progress.bytesRead;
+                },
+                onSeries: (stacks) => console.log('series ready', stacks),
+            });
+            console.log(series, failures);
+
+            // Собираем объём из первой серии
+            if (series.length) {
+                const volume = await Volume.fromSeries(series[0], {
+                    pool,
+                    signal,
+                    onProgress: (progress) => {
+                        progressBar.max = progress.totalFrames || 1;
+                        progressBar.value = progress.framesDecoded;
+                    },
+                });
+                console.log(volume);
+            }
+        } catch (error) {
+            if (!signal.aborted) throw error;
+            console.log('loading cancelled');
+        } finally {
+            cancelButton.disabled = true;
+        }
     }
 });
-
-// class SomeClassName {
-//     public dicomParser: DicomParser;
-//     public spacing: [xSpacing: number, ySpacing: number, zSpacing: number];
-//     public ijk2lps: Matrix4;
-//     public lps2ijk: Matrix4;
-
-//     constructor(dicomParser: DicomParser) {
-//         this.ijk2lps = Utils.ijk2lps();
-//         this.lps2ijk = this.ijk2lps.clone().invert();
-
-//         if (dicomParser.pixelSpacing()) {
-//         } else this.spacing = [1, 0, 1];
-//     }
-// }
-
-// class Utils {
-//     /**
-//      *
-//      *
-//      * @param o
-//      * @param i
-//      * @param j
-//      * @param k
-//      */
-//     public static ijk2lps(o: Vector3, i: Vector3, j: Vector3, k: Vector3) {
-//         return new Matrix4().makeBasis(i, j, k).setPosition(o);
-//     }
-// }
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { area, distance, regionAt, timeSpan, toPhysical, velocity } from './measure.ultrasound.ts';
+import type { UltrasoundRegion } from './parser.dicom.ts';
+
+const region = (
+    bounds: [x0: number, y0: number, x1: number, y1: number],
+    fields: Partial<UltrasoundRegion>
+): UltrasoundRegion => ({
+    x0: bounds[0],
+    y0: bounds[1],
+    x1: bounds[2],
+    y1: bounds[3],
+    axisX: null,
+    axisY: null,
+    unitsX: 'cm',
+    unitsY: 'cm',
+    deltaX: 0.1,
+    deltaY: 0.1,
+    referencePhysicalValueX: null,
+    referencePhysicalValueY: null,
+    regionSpatialFormat: '2D',
+    regionDataType: 'tissue',
+    regionFlags: null,
+    ...fields,
+});
+
+// a 2D image with a zoomed box, an M-mode strip below it and a PW Doppler spectrum on the right
+const image = region([0, 0, 99, 99], {});
+const zoom = region([40, 40, 60, 60], { deltaX: 0.05, deltaY: 0.05 });
+const mMode = region([0, 100, 99, 199], {
+    unitsX: 'seconds',
+    deltaX: 0.01,
+    regionSpatialFormat: 'M-Mode',
+});
+const doppler = region([100, 0, 199, 199], {
+    unitsX: 'seconds',
+    unitsY: 'cm/sec',
+    deltaX: 0.01,
+    // velocities grow upwards from the baseline, 50 rows below the top of the region
+    deltaY: -2,
+    axisY: 50,
+    regionSpatialFormat: 'spectral',
+    regionDataType: 'PW spectral Doppler',
+});
+const regions = [image, zoom, mMode, doppler];
+
+describe('regionAt', () => {
+    it('returns the smallest region containing the pixel', () => {
+        expect(regionAt(regions, 50, 50)).toBe(zoom);
+        expect(regionAt(regions, 10, 10)).toBe(image);
+        expect(regionAt(regions, 99, 199)).toBe(mMode);
+        expect(regionAt(regions, 250, 10)).toBeNull();
+    });
+});
+
+describe('toPhysical', () => {
+    it('maps a pixel from the reference pixel of its region', () => {
+        const [time, speed] = toPhysical(doppler, 150, 30)!;
+
+        expect(time).toBeCloseTo(0.5);
+        expect(speed).toBeCloseTo(40);
+        expect(toPhysical({ ...doppler, deltaY: null }, 150, 30)).toBeNull();
+    });
+});
+
+describe('measurements', () => {
+    it('measures distances in 2D and along the depth of M-mode regions', () => {
+        expect(distance(regions, [10, 10], [13, 14])).toEqual({
+            value: expect.closeTo(0.5),
+            units: 'cm',
+        });
+        expect(distance(regions, [10, 110], [30, 130])).toEqual({
+            value: expect.closeTo(2),
+            units: 'cm',
+        });
+        expect(distance(regions, [150, 10], [160, 20])).toBeNull();
+    });
+
+    it('measures the area of a polygon in 2D regions only', () => {
+        const square: [number, number][] = [
+            [10, 10],
+            [20, 10],
+            [20, 20],
+            [10, 20],
+        ];
+
+        const inMMode = square.map(([x, y]): [number, number] => [x, y + 100]);
+
+        expect(area(regions, square)).toEqual({ value: expect.closeTo(1), units: 'cm2' });
+        expect(area(regions, inMMode)).toBeNull();
+    });
+
+    it('measures time spans and velocities on the time axis', () => {
+        expect(timeSpan(regions, [10, 110], [60, 120])).toEqual({
+            value: expect.closeTo(0.5),
+            units: 'seconds',
+        });
+        expect(timeSpan(regions, [10, 10], [60, 20])).toBeNull();
+
+        expect(velocity(regions, [150, 30])).toEqual({
+            value: expect.closeTo(40),
+            units: 'cm/sec',
+        });
+        // M-mode slope: 2 cm in 0.5 s
+        expect(velocity(regions, [10, 110], [60, 130])).toEqual({
+            value: expect.closeTo(4),
+            units: 'cm/sec',
+        });
+    });
+
+    it('refuses measurements whose points fall in different regions', () => {
+        expect(distance(regions, [10, 10], [50, 50])).toBeNull();
+        expect(distance(regions, [10, 90], [10, 110])).toBeNull();
+        expect(
+            area(regions, [
+                [10, 10],
+                [90, 10],
+                [90, 150],
+            ])
+        ).toBeNull();
+        expect(timeSpan(regions, [10, 110], [150, 110])).toBeNull();
+        expect(velocity(regions, [10, 110], [150, 130])).toBeNull();
+    });
+});
@@ -0,0 +1,150 @@
+import type { UltrasoundRegion } from './parser.dicom.ts';
+
+export interface Measurement {
+    value: number;
+    units: string;
+}
+
+type Point = [x: number, y: number];
+
+/**
+ * Region containing a pixel, the smallest one if regions overlap.
+ */
+export const regionAt = (regions: UltrasoundRegion[], x: number, y: number) => {
+    const containing = regions.filter(
+        (region) =>
+            region.x0 !== null &&
+            region.y0 !== null &&
+            region.x1 !== null &&
+            region.y1 !== null &&
+            x >= region.x0 &&
+            x <= region.x1 &&
+            y >= region.y0 &&
+            y <= region.y1
+    );
+
+    const area = (region: UltrasoundRegion) =>
+        (region.x1! - region.x0!) * (region.y1! - region.y0!);
+
+    return containing.sort((a, b) => area(a) - area(b))[0] ?? null;
+};
+
+/**
+ * Physical coordinates of a pixel. The reference pixel is relative to the region top left corner
+ * and maps to the reference physical values (0 if absent).
+ */
+export const toPhysical = (region: UltrasoundRegion, x: number, y: number): Point | null => {
+    if (region.deltaX === null || region.deltaY === null) {
+        return null;
+    }
+
+    const referenceX = (region.x0 ?? 0) + (region.axisX ?? 0);
+    const referenceY = (region.y0 ?? 0) + (region.axisY ?? 0);
+
+    return [
+        (region.referencePhysicalValueX ?? 0) + (x - referenceX) * region.deltaX,
+        (region.referencePhysicalValueY ?? 0) + (y - referenceY) * region.deltaY,
+    ];
+};
+
+/**
+ * Region of a measurement: every point must lie in the same calibrated region.
+ */
+const commonRegion = (regions: UltrasoundRegion[], points: Point[]) => {
+    const region = regionAt(regions, ...points[0]);
+
+    if (!region || points.some((point) => regionAt(regions, ...point) !== region)) {
+        return null;
+    }
+
+    return region;
+};
+
+/**
+ * Distance between two points: euclidean in 2D regions, along the depth axis in M-mode regions.
+ */
+export const distance = (regions: UltrasoundRegion[], a: Point, b: Point): Measurement | null => {
+    const region = commonRegion(regions, [a, b]);
+    if (!region || region.deltaX === null || region.deltaY === null) {
+        return null;
+    }
+
+    const dx = Math.abs(b[0] - a[0]) * Math.abs(region.deltaX);
+    const dy = Math.abs(b[1] - a[1]) * Math.abs(region.deltaY);
+
+    if (region.unitsX === region.unitsY && region.unitsX === 'cm') {
+        return { value: Math.hypot(dx, dy), units: 'cm' };
+    }
+
+    // M-mode: time horizontally, depth vertically
+    if (region.unitsY === 'cm') {
+        return { value: dy, units: 'cm' };
+    }
+
+    return null;
+};
+
+/**
+ * Area of a polygon drawn in a 2D region.
+ */
+export const area = (regions: UltrasoundRegion[], polygon: Point[]): Measurement | null => {
+    const region = commonRegion(regions, polygon);
+    if (
+        !region ||
+        region.deltaX === null ||
+        region.deltaY === null ||
+        region.unitsX !== 'cm' ||
+        region.unitsY !== 'cm'
+    ) {
+        return null;
+    }
+
+    // shoelace formula
+    let sum = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const [x0, y0] = polygon[i];
+        const [x1, y1] = polygon[(i + 1) % polygon.length];
+        sum += x0 * y1 - x1 * y0;
+    }
+
+    return {
+        value: (Math.abs(sum) / 2) * Math.abs(region.deltaX * region.deltaY),
+        units: 'cm2',
+    };
+};
+
+/**
+ * Time between two points of a region with a time axis (M-mode, spectral Doppler, traces).
+ */
+export const timeSpan = (regions: UltrasoundRegion[], a: Point, b: Point): Measurement | null => {
+    const region = commonRegion(regions, [a, b]);
+    if (!region || region.deltaX === null || region.unitsX !== 'seconds') {
+        return null;
+    }
+
+    return { value: Math.abs(b[0] - a[0]) * Math.abs(region.deltaX), units: 'seconds' };
+};
+
+/**
+ * Velocity at a point of a spectral Doppler region, or the slope between two points
+ * of an M-mode region.
+ */
+export const velocity = (regions: UltrasoundRegion[], a: Point, b?: Point): Measurement | null => {
+    const region = commonRegion(regions, b ? [a, b] : [a]);
+    if (!region) {
+        return null;
+    }
+
+    if (region.unitsY === 'cm/sec') {
+        const physical = toPhysical(region, ...a);
+        return physical ? { value: physical[1], units: 'cm/sec' } : null;
+    }
+
+    if (b && region.unitsX === 'seconds' && region.unitsY === 'cm') {
+        const time = timeSpan(regions, a, b);
+        const depth = Math.abs(b[1] - a[1]) * Math.abs(region.deltaY ?? 0);
+        return time && time.value ? { value: depth / time.value, units: 'cm/sec' } : null;
+    }
+
+    return null;
+};
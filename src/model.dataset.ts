@@ -0,0 +1,329 @@
+import { bigEndianByteArrayParser } from 'dicom-parser';
+import type { DataSet, Element } from 'dicom-parser';
+import { decodeText } from './core.charset.ts';
+import { dictionaryEntry, toTag } from './core.dictionary.ts';
+
+/**
+ * Element of a mutable dataset. Values are stored little endian, without padding.
+ */
+export interface MutableElement {
+    vr: string;
+    /** Value of any element but sequences and encapsulated pixel data */
+    value?: Uint8Array;
+    /** Items of a sequence */
+    items?: MutableDataSet[];
+    /** Encapsulated pixel data: the basic offset table, then every fragment */
+    fragments?: Uint8Array[];
+}
+
+// bytes per value of the binary VRs, for byte swapping
+const VALUE_SIZES: Record<string, number> = {
+    AT: 2,
+    FD: 8,
+    FL: 4,
+    OD: 8,
+    OF: 4,
+    OL: 4,
+    OV: 8,
+    OW: 2,
+    SL: 4,
+    SS: 2,
+    SV: 8,
+    UL: 4,
+    US: 2,
+    UV: 8,
+};
+
+const TEXT_VRS = ['LO', 'LT', 'PN', 'SH', 'ST', 'UC', 'UT'];
+
+const swap = (bytes: Uint8Array, size: number) => {
+    for (let offset = 0; offset + size <= bytes.length; offset += size) {
+        bytes.subarray(offset, offset + size).reverse();
+    }
+    return bytes;
+};
+
+/**
+ * Dataset that can be edited then written back with `writeDicom`.
+ * Tags are 'xGGGGEEEE' strings, setters also take keywords and numbers.
+ */
+export default class MutableDataSet {
+    elements = new Map<string, MutableElement>();
+    /** Character set of the enclosing dataset, for items without a Specific Character Set */
+    inheritedCharacterSet: string[] = [];
+
+    /**
+     * Copy of a dicom-parser dataset (e.g. `DicomParser.rawHeader`), meta header included
+     */
+    static fromDataSet(dataSet: DataSet, pixelRepresentation?: number): MutableDataSet {
+        const mutableDataSet = new MutableDataSet();
+        const bigEndian = dataSet.byteArrayParser === bigEndianByteArrayParser;
+        const signed = (pixelRepresentation ?? dataSet.uint16('x00280103')) === 1;
+
+        for (const [tag, element] of Object.entries(dataSet.elements)) {
+            mutableDataSet.elements.set(tag, MutableDataSet._copyElement(dataSet, element, signed));
+
+            const value = mutableDataSet.elements.get(tag)?.value;
+            if (bigEndian && value && !tag.startsWith('x0002')) {
+                swap(value, VALUE_SIZES[mutableDataSet.elements.get(tag)?.vr ?? ''] ?? 1);
+            }
+        }
+
+        return mutableDataSet;
+    }
+
+    /**
+     * Tags in ascending order, the order they are written in
+     */
+    get tags() {
+        return [...this.elements.keys()].sort();
+    }
+
+    has(tag: string | number) {
+        return this.elements.has(MutableDataSet._tag(tag));
+    }
+
+    element(tag: string | number) {
+        return this.elements.get(MutableDataSet._tag(tag)) ?? null;
+    }
+
+    delete(tag: string | number) {
+        return this.elements.delete(MutableDataSet._tag(tag));
+    }
+
+    /**
+     * Text of a string element, decoded with the Specific Character Set of this dataset
+     * or the inherited one
+     */
+    string(tag: string | number, inherited: string[] = this.inheritedCharacterSet): string | null {
+        const element = this.element(tag);
+        if (!element?.value) {
+            return null;
+        }
+
+        const characterSet = TEXT_VRS.includes(element.vr) ? this._characterSet(inherited) : [];
+
+        return decodeText(element.value, characterSet)
+            .replace(/[\0 ]+$/, '')
+            .trim();
+    }
+
+    /**
+     * Values of a binary numeric element (US, SS, UL, SL, FL, FD) or a numeric string (DS, IS)
+     */
+    numbers(tag: string | number): number[] {
+        const element = this.element(tag);
+        if (!element?.value) {
+            return [];
+        }
+
+        if (element.vr === 'DS' || element.vr === 'IS') {
+            return (this.string(tag) ?? '')
+                .split('\\')
+                .filter((value) => value.trim() !== '')
+                .map(Number);
+        }
+
+        const view = new DataView(
+            element.value.buffer,
+            element.value.byteOffset,
+            element.value.byteLength
+        );
+        const size = VALUE_SIZES[element.vr] ?? 1;
+        const values: number[] = [];
+        for (let offset = 0; offset + size <= view.byteLength; offset += size) {
+            switch (element.vr) {
+                case 'SS':
+                    values.push(view.getInt16(offset, true));
+                    break;
+                case 'UL':
+                    values.push(view.getUint32(offset, true));
+                    break;
+                case 'SL':
+                    values.push(view.getInt32(offset, true));
+                    break;
+                case 'FL':
+                    values.push(view.getFloat32(offset, true));
+                    break;
+                case 'FD':
+                    values.push(view.getFloat64(offset, true));
+                    break;
+                default:
+                    values.push(size === 2 ? view.getUint16(offset, true) : view.getUint8(offset));
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * Set a string element, multiple values are joined with '\'. Text is encoded as UTF-8 when
+     * the Specific Character Set is ISO_IR 192, else as Latin-1.
+     */
+    setString(tag: string | number, value: string | string[], vr?: string) {
+        const normalizedTag = MutableDataSet._tag(tag);
+        const text = Array.isArray(value) ? value.join('\\') : value;
+        const elementVR = vr ?? MutableDataSet._vr(normalizedTag, 'LO');
+
+        let bytes: Uint8Array;
+        if (
+            TEXT_VRS.includes(elementVR) &&
+            this._characterSet(this.inheritedCharacterSet).includes('ISO_IR 192')
+        ) {
+            bytes = new TextEncoder().encode(text);
+        } else {
+            if ([...text].some((character) => character.charCodeAt(0) > 0xff)) {
+                const error = new Error(
+                    `model.dataset ${normalizedTag} needs the ISO_IR 192 character set: ${text}`
+                );
+                throw error;
+            }
+            bytes = Uint8Array.from(text, (character) => character.charCodeAt(0));
+        }
+
+        this.elements.set(normalizedTag, { vr: elementVR, value: bytes });
+    }
+
+    /**
+     * Set a numeric element: binary for US, SS, UL, SL, FL and FD, string for DS and IS
+     */
+    setNumbers(tag: string | number, values: number | number[], vr?: string) {
+        const normalizedTag = MutableDataSet._tag(tag);
+        const numbers = Array.isArray(values) ? values : [values];
+        const elementVR = vr ?? MutableDataSet._vr(normalizedTag, 'DS');
+
+        if (elementVR === 'DS' || elementVR === 'IS') {
+            this.setString(
+                normalizedTag,
+                // DS values are limited to 16 characters
+                numbers.map((value) =>
+                    elementVR === 'IS'
+                        ? Math.round(value).toString()
+                        : String(+value.toPrecision(10))
+                ),
+                elementVR
+            );
+            return;
+        }
+
+        const size = VALUE_SIZES[elementVR];
+        if (!size) {
+            const error = new Error(`model.dataset ${elementVR} is not a numeric VR`);
+            throw error;
+        }
+
+        const bytes = new Uint8Array(numbers.length * size);
+        const view = new DataView(bytes.buffer);
+        numbers.forEach((value, index) => {
+            const offset = index * size;
+            switch (elementVR) {
+                case 'SS':
+                    view.setInt16(offset, value, true);
+                    break;
+                case 'UL':
+                    view.setUint32(offset, value, true);
+                    break;
+                case 'SL':
+                    view.setInt32(offset, value, true);
+                    break;
+                case 'FL':
+                    view.setFloat32(offset, value, true);
+                    break;
+                case 'FD':
+                    view.setFloat64(offset, value, true);
+                    break;
+                default:
+                    view.setUint16(offset, value, true);
+            }
+        });
+
+        this.elements.set(normalizedTag, { vr: elementVR, value: bytes });
+    }
+
+    setBytes(tag: string | number, bytes: Uint8Array, vr?: string) {
+        const normalizedTag = MutableDataSet._tag(tag);
+        this.elements.set(normalizedTag, {
+            vr: vr ?? MutableDataSet._vr(normalizedTag, 'OB'),
+            value: bytes,
+        });
+    }
+
+    setSequence(tag: string | number, items: MutableDataSet[]) {
+        this.elements.set(MutableDataSet._tag(tag), { vr: 'SQ', items });
+    }
+
+    /**
+     * Encapsulated pixel data: basic offset table (possibly empty) then fragments
+     */
+    setFragments(tag: string | number, fragments: Uint8Array[]) {
+        this.elements.set(MutableDataSet._tag(tag), { vr: 'OB', fragments });
+    }
+
+    private _characterSet(inherited: string[]) {
+        const element = this.elements.get('x00080005');
+        if (!element?.value) {
+            return inherited;
+        }
+
+        return decodeText(element.value, [])
+            .split('\\')
+            .map((term) => term.trim());
+    }
+
+    private static _tag(tag: string | number) {
+        const normalizedTag = toTag(tag);
+        if (!normalizedTag) {
+            const error = new Error(`model.dataset unknown keyword: ${tag}`);
+            throw error;
+        }
+
+        return normalizedTag;
+    }
+
+    private static _vr(tag: string, fallback: string) {
+        const vr = dictionaryEntry(tag)?.vr;
+
+        if (vr === 'US or SS') return 'US';
+        if (vr === 'OB or OW' || vr === 'US or OW') return 'OW';
+
+        return vr ?? fallback;
+    }
+
+    private static _copyElement(dataSet: DataSet, element: Element, signed: boolean) {
+        const dictionaryVR = dictionaryEntry(element.tag)?.vr;
+        let vr = element.vr ?? (element.items ? 'SQ' : dictionaryVR ?? 'UN');
+        if (vr === 'US or SS') vr = signed ? 'SS' : 'US';
+        if (vr === 'OB or OW' || vr === 'US or OW') vr = 'OW';
+
+        const copy: MutableElement = { vr };
+
+        if (element.items) {
+            copy.vr = 'SQ';
+            copy.items = element.items.map((item) =>
+                item.dataSet
+                    ? MutableDataSet.fromDataSet(item.dataSet, signed ? 1 : 0)
+                    : new MutableDataSet()
+            );
+        } else if (element.encapsulatedPixelData && element.fragments) {
+            const basicOffsetTable = new Uint8Array(4 * (element.basicOffsetTable?.length ?? 0));
+            const view = new DataView(basicOffsetTable.buffer);
+            element.basicOffsetTable?.forEach((offset, index) =>
+                view.setUint32(4 * index, offset, true)
+            );
+
+            copy.fragments = [
+                basicOffsetTable,
+                ...element.fragments.map((fragment) =>
+                    dataSet.byteArray.slice(fragment.position, fragment.position + fragment.length)
+                ),
+            ];
+        } else {
+            copy.value = dataSet.byteArray.slice(
+                element.dataOffset,
+                element.dataOffset + element.length
+            );
+        }
+
+        return copy;
+    }
+}
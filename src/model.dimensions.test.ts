@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import { decomposeFrames } from './model.dimensions.ts';
+import DicomParser from './parser.dicom.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+/**
+ * Enhanced multi-frame object with a dimension per pointer (null for an item without pointer)
+ * and the dimension index values of each frame
+ */
+const enhancedImage = (pointers: (number[] | null)[], frames: number[][]) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.4.1');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4');
+    dataSet.setNumbers('NumberOfFrames', frames.length, 'IS');
+
+    dataSet.setSequence(
+        'x00209222',
+        pointers.map((pointer) => {
+            const item = new MutableDataSet();
+            if (pointer) {
+                item.setNumbers('x00209165', pointer, 'AT');
+                item.setNumbers('x00209167', [0x0020, 0x9111], 'AT');
+            }
+            item.setString('x00209164', '1.2.3.5', 'UI');
+            return item;
+        })
+    );
+
+    dataSet.setSequence(
+        'x52009230',
+        frames.map((values) => {
+            const frameContent = new MutableDataSet();
+            frameContent.setNumbers('x00209157', values, 'UL');
+            const item = new MutableDataSet();
+            item.setSequence('x00209111', [frameContent]);
+            return item;
+        })
+    );
+
+    return new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+};
+
+describe('dimensionIndexes', () => {
+    it('keeps an entry for items without a Dimension Index Pointer', () => {
+        const dicomParser = enhancedImage([null, [0x0020, 0x9056]], [[1, 1]]);
+
+        expect(
+            dicomParser.dimensionIndexes.map((dimension) => dimension.dimensionIndexPointer)
+        ).toEqual([null, 'x00209056']);
+    });
+});
+
+describe('decomposeFrames', () => {
+    it('groups frames by the dimension matching each index value', () => {
+        const dicomParser = enhancedImage(
+            [null, [0x0020, 0x9056], [0x0020, 0x9057]],
+            [
+                [1, 1, 2],
+                [1, 1, 1],
+                [1, 2, 1],
+                [1, 2, 2],
+            ]
+        );
+        const stacks = decomposeFrames(dicomParser);
+
+        expect(stacks.map((stack) => stack.indices)).toEqual([
+            { '#0': 1, x00209056: 1 },
+            { '#0': 1, x00209056: 2 },
+        ]);
+        expect(stacks.map((stack) => stack.frames.map((frame) => frame.frameIndex))).toEqual([
+            [1, 0],
+            [2, 3],
+        ]);
+    });
+});
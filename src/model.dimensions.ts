@@ -0,0 +1,119 @@
+import Utils from './core.utils.ts';
+import type DicomParser from './parser.dicom.ts';
+import type { DimensionIndex } from './parser.dicom.ts';
+
+export interface EnhancedFrame {
+    frameIndex: number;
+    dimensionIndexValues: number[] | null;
+    imagePosition: [number, number, number] | null;
+    imageOrientation: [number, number, number, number, number, number] | null;
+    pixelSpacing: [number, number] | null;
+    sliceThickness: number | null;
+}
+
+export interface EnhancedStack {
+    /** Stable identifier built from the non-spatial dimension values */
+    stackKey: string;
+    /**
+     * Value of each non-spatial dimension (stack, echo, temporal position...) keyed by its
+     * pointer, or by its position in the Dimension Index Sequence ('#2') when it has none
+     */
+    indices: Record<string, number>;
+    /** Frames ordered by position within the stack */
+    frames: EnhancedFrame[];
+}
+
+// Dimensions giving the position of a frame inside a stack
+const SPATIAL_DIMENSIONS = ['x00209057', 'x00200032'];
+
+const readFrame = (dicomParser: DicomParser, frameIndex: number): EnhancedFrame => ({
+    frameIndex,
+    dimensionIndexValues: dicomParser.dimensionIndexValues(frameIndex),
+    imagePosition: dicomParser.imagePosition(frameIndex),
+    imageOrientation: dicomParser.imageOrientation(frameIndex),
+    pixelSpacing: dicomParser.pixelSpacing(frameIndex),
+    sliceThickness: dicomParser.sliceThickness(frameIndex),
+});
+
+/**
+ * Order the frames of a stack: by spatial dimension index when there is one,
+ * else along the slice normal.
+ */
+const sortFrames = (frames: EnhancedFrame[], spatialIndex: number) => {
+    if (spatialIndex !== -1) {
+        return frames.sort(
+            (a, b) =>
+                (a.dimensionIndexValues?.[spatialIndex] ?? 0) -
+                (b.dimensionIndexValues?.[spatialIndex] ?? 0)
+        );
+    }
+
+    const orientation = frames[0]?.imageOrientation;
+    if (orientation && frames.every((frame) => frame.imagePosition)) {
+        const [, , normal] = Utils.directionCosines(orientation);
+        return frames.sort(
+            (a, b) =>
+                Utils.distanceAlongNormal(a.imagePosition!, normal) -
+                Utils.distanceAlongNormal(b.imagePosition!, normal)
+        );
+    }
+
+    return frames;
+};
+
+/**
+ * Group the frames of an enhanced multi-frame object into stacks, using the Dimension Index
+ * Sequence to tell spatial dimensions (position in the stack) from the others.
+ * Objects without dimensions are grouped by Stack ID.
+ */
+export const decomposeFrames = (dicomParser: DicomParser): EnhancedStack[] => {
+    const dimensionIndexes: DimensionIndex[] = dicomParser.dimensionIndexes;
+    const pointers = dimensionIndexes.map(
+        (dimension, index) => dimension.dimensionIndexPointer ?? `#${index}`
+    );
+    const spatialIndex = pointers.findIndex((pointer) => SPATIAL_DIMENSIONS.includes(pointer));
+
+    const stacks = new Map<string, EnhancedStack>();
+
+    for (let frameIndex = 0; frameIndex < (dicomParser.numberOfFrames ?? 1); frameIndex++) {
+        const frame = readFrame(dicomParser, frameIndex);
+
+        const indices: Record<string, number> = {};
+        if (frame.dimensionIndexValues && pointers.length) {
+            pointers.forEach((pointer, index) => {
+                if (index !== spatialIndex) {
+                    indices[pointer] = frame.dimensionIndexValues![index];
+                }
+            });
+        } else {
+            const stackID = dicomParser.stackID(frameIndex);
+            if (stackID !== null) {
+                indices.x00209056 = +stackID;
+            }
+        }
+
+        const stackKey =
+            Object.entries(indices)
+                .map(([pointer, value]) => `${pointer}=${value}`)
+                .join('/') || 'default';
+
+        if (!stacks.has(stackKey)) {
+            stacks.set(stackKey, { stackKey, indices, frames: [] });
+        }
+        stacks.get(stackKey)?.frames.push(frame);
+    }
+
+    // stacks in dimension index order, e.g. Stack ID 1 before 2
+    const compareStacks = (a: EnhancedStack, b: EnhancedStack) => {
+        const values = Object.values(b.indices);
+        return Object.values(a.indices).reduce(
+            (result, value, index) => result || value - (values[index] ?? 0),
+            0
+        );
+    };
+
+    return [...stacks.values()].sort(compareStacks).map((stack) => ({
+        ...stack,
+        frames: sortFrames(stack.frames, spatialIndex),
+    }));
+};
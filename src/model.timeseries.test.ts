@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import TimeSeries from './model.timeseries.ts';
+import DicomParser from './parser.dicom.ts';
+import type { DicomFile } from './preloader.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+const dicomFile = (name: string, fields: Partial<DicomFile>) =>
+    ({ file: new File([], name), localizer: false, ...fields } as DicomFile);
+
+const names = (timeSeries: TimeSeries) =>
+    timeSeries.frames.map((frame) => frame.dicomFiles.map((file) => file.file.name));
+
+/**
+ * Multi-frame file with a Frame Time Vector and a Temporal Position Index per frame
+ */
+const multiFrame = (frameTimeVector: number[] | null, temporalPositions: number[]) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.4.1');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4');
+    dataSet.setNumbers('NumberOfFrames', temporalPositions.length, 'IS');
+    if (frameTimeVector) {
+        dataSet.setNumbers('x00181065', frameTimeVector, 'DS');
+    }
+    dataSet.setSequence(
+        'x52009230',
+        temporalPositions.map((temporalPosition) => {
+            const frameContent = new MutableDataSet();
+            frameContent.setNumbers('x00209128', temporalPosition, 'UL');
+            const item = new MutableDataSet();
+            item.setSequence('x00209111', [frameContent]);
+            return item;
+        })
+    );
+
+    return new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+};
+
+describe('TimeSeries.fromFiles', () => {
+    it('uses the first time source every file has', () => {
+        const timeSeries = TimeSeries.fromFiles([
+            dicomFile('a', { triggerTime: 900, acquisitionTime: 5000, contentTime: 1 }),
+            dicomFile('b', { acquisitionTime: 4000, contentTime: 2 }),
+        ]);
+
+        expect(names(timeSeries)).toEqual([['b'], ['a']]);
+        expect(timeSeries.frames.map((frame) => frame.time)).toEqual([0, 1000]);
+    });
+
+    it('throws when no time source is on every file', () => {
+        expect(() =>
+            TimeSeries.fromFiles([
+                dicomFile('a', { triggerTime: 10 }),
+                dicomFile('b', { acquisitionTime: 20 }),
+            ])
+        ).toThrow('no time source for every file');
+    });
+
+    it('groups and orders the files by temporal position', () => {
+        const timeSeries = TimeSeries.fromFiles([
+            dicomFile('a', { temporalPositionIdentifier: 2, triggerTime: 40 }),
+            dicomFile('b', { temporalPositionIdentifier: 1, triggerTime: 0 }),
+            dicomFile('c', { temporalPositionIdentifier: 2, triggerTime: 40 }),
+            dicomFile('d', { temporalPositionIdentifier: 1, triggerTime: 0 }),
+        ]);
+
+        expect(names(timeSeries)).toEqual([
+            ['b', 'd'],
+            ['a', 'c'],
+        ]);
+        expect(timeSeries.frames.map((frame) => frame.temporalPosition)).toEqual([1, 2]);
+        expect(timeSeries.frames.map((frame) => frame.time)).toEqual([0, 40]);
+    });
+});
+
+describe('TimeSeries.fromParser', () => {
+    it('groups the frames of a temporal position', () => {
+        const timeSeries = TimeSeries.fromParser(multiFrame([0, 10, 30, 10], [1, 1, 2, 2]));
+
+        expect(timeSeries.frames.map((frame) => frame.frameIndexes)).toEqual([
+            [0, 1],
+            [2, 3],
+        ]);
+        expect(timeSeries.frames.map((frame) => frame.time)).toEqual([0, 40]);
+    });
+
+    it('throws without a time source for every frame', () => {
+        expect(() => TimeSeries.fromParser(multiFrame(null, [1, 2]))).toThrow(
+            'no time source for every frame'
+        );
+    });
+});
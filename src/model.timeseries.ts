@@ -0,0 +1,212 @@
+import type DicomParser from './parser.dicom.ts';
+import type { DicomFile } from './preloader.ts';
+
+/**
+ * Time sources of series spread over many files, in order of preference
+ */
+const TIME_SOURCES = ['triggerTime', 'acquisitionTime', 'contentTime'] as const;
+
+export interface TimeFrame {
+    /** Milliseconds since the first frame */
+    time: number;
+    /** Frame of a multi-frame file (0 for single frame files) */
+    frameIndex: number;
+    /** Frames of the time point in a multi-frame file, e.g. the slices of a cardiac phase */
+    frameIndexes: number[];
+    /** Temporal Position Index or Identifier of the time point, null if not every one has one */
+    temporalPosition: number | null;
+    /** Files of the time point, for series spread over many files (e.g. one stack per phase) */
+    dicomFiles: DicomFile[];
+}
+
+export interface PlaybackOptions {
+    /** Restart from the first frame after the last one (default true) */
+    loop?: boolean;
+    /** Playback speed factor (default 1) */
+    speed?: number;
+}
+
+/**
+ * Frames or files ordered in time, with playback helpers.
+ */
+export default class TimeSeries {
+    public frames: TimeFrame[];
+
+    constructor(frames: TimeFrame[]) {
+        // temporal positions define the order, the times only when they are missing
+        const sorted = [...frames].sort((a, b) =>
+            a.temporalPosition !== null && b.temporalPosition !== null
+                ? a.temporalPosition - b.temporalPosition
+                : a.time - b.time
+        );
+        const start = sorted[0]?.time ?? 0;
+
+        this.frames = sorted.map((frame) => ({ ...frame, time: frame.time - start }));
+    }
+
+    get numberOfFrames() {
+        return this.frames.length;
+    }
+
+    /**
+     * Mean time between two frames (ms)
+     */
+    get frameInterval() {
+        if (this.frames.length < 2) {
+            return 0;
+        }
+
+        return this.frames[this.frames.length - 1].time / (this.frames.length - 1);
+    }
+
+    /**
+     * Length of one loop (ms): the last frame lasts one mean interval
+     */
+    get duration() {
+        if (!this.frames.length) {
+            return 0;
+        }
+
+        return this.frames[this.frames.length - 1].time + this.frameInterval;
+    }
+
+    timeOf(index: number) {
+        return this.frames[index]?.time ?? null;
+    }
+
+    /**
+     * Index of the frame displayed at `elapsed` ms after the start of the playback.
+     */
+    frameIndexAt(elapsed: number, options: PlaybackOptions = {}) {
+        const { loop = true, speed = 1 } = options;
+
+        if (!this.frames.length) {
+            return -1;
+        }
+
+        let time = Math.max(elapsed * speed, 0);
+        if (loop && this.duration > 0) {
+            time %= this.duration;
+        }
+
+        // last frame starting before `time`
+        let low = 0;
+        let high = this.frames.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.frames[middle].time <= time) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return low;
+    }
+
+    /**
+     * Cine or enhanced multi-frame file. The timestamps come from one source for every frame,
+     * the first one available: Frame Time Vector, frame time, then per-frame trigger times.
+     * Frames sharing a Temporal Position Index make one time point.
+     */
+    static fromParser(dicomParser: DicomParser, dicomFile?: DicomFile) {
+        const numberOfFrames = dicomParser.numberOfFrames ?? 1;
+        const frameIndexes = Array.from({ length: numberOfFrames }, (_, index) => index);
+        const frameTimeVector = dicomParser.frameTimeVector;
+        const frameTime = dicomParser.frameTime;
+        const triggerTimes = frameIndexes.map((frameIndex) => dicomParser.triggerTime(frameIndex));
+        const dicomFiles = dicomFile ? [dicomFile] : [];
+
+        let times: number[];
+        if (frameTimeVector?.length === numberOfFrames) {
+            // the first value is 0, each next one is relative to the previous frame
+            times = [];
+            for (const frameIndex of frameIndexes) {
+                times.push(
+                    (times[frameIndex - 1] ?? 0) + (frameIndex ? frameTimeVector[frameIndex] : 0)
+                );
+            }
+        } else if (frameTime) {
+            times = frameIndexes.map((frameIndex) => frameIndex * frameTime);
+        } else if (triggerTimes.every((triggerTime) => triggerTime !== null)) {
+            times = triggerTimes as number[];
+        } else {
+            const error = new Error('model.timeseries no time source for every frame');
+            throw error;
+        }
+
+        const temporalPositions = frameIndexes.map((frameIndex) =>
+            dicomParser.temporalPositionIndex(frameIndex)
+        );
+        // a Temporal Position Identifier of the file is the same for every frame
+        const byTemporalPosition =
+            temporalPositions.every((position) => position !== null) &&
+            new Set(temporalPositions).size > 1;
+
+        return TimeSeries._group(
+            frameIndexes,
+            (frameIndex) => (byTemporalPosition ? temporalPositions[frameIndex]! : frameIndex),
+            (frameIndexes, key) => ({
+                time: Math.min(...frameIndexes.map((frameIndex) => times[frameIndex])),
+                frameIndex: frameIndexes[0],
+                frameIndexes,
+                temporalPosition: byTemporalPosition ? key : null,
+                dicomFiles,
+            })
+        );
+    }
+
+    /**
+     * 4D series spread over many files (cardiac phases, perfusion, dynamic PET).
+     * The timestamps come from one source for every file, the first one available:
+     * Trigger Time, Acquisition Time, then Content Time. Files are grouped into time points
+     * by Temporal Position Identifier when every file has one, else by timestamp.
+     */
+    static fromFiles(dicomFiles: DicomFile[]) {
+        const source = TIME_SOURCES.find((source) =>
+            dicomFiles.every((dicomFile) => dicomFile[source] !== undefined)
+        );
+        if (!source) {
+            const error = new Error('model.timeseries no time source for every file');
+            throw error;
+        }
+
+        const byTemporalPosition = dicomFiles.every(
+            (dicomFile) => dicomFile.temporalPositionIdentifier !== undefined
+        );
+
+        return TimeSeries._group(
+            dicomFiles,
+            (dicomFile) =>
+                byTemporalPosition ? dicomFile.temporalPositionIdentifier! : dicomFile[source]!,
+            (files, key) => ({
+                // earliest time of the files of the time point
+                time: Math.min(...files.map((dicomFile) => dicomFile[source]!)),
+                frameIndex: 0,
+                frameIndexes: [0],
+                temporalPosition: byTemporalPosition ? key : null,
+                dicomFiles: files,
+            })
+        );
+    }
+
+    private static _group<T>(
+        values: T[],
+        keyOf: (value: T) => number,
+        timeFrame: (values: T[], key: number) => TimeFrame
+    ) {
+        const timePoints = new Map<number, T[]>();
+
+        for (const value of values) {
+            const key = keyOf(value);
+            if (!timePoints.has(key)) {
+                timePoints.set(key, []);
+            }
+            timePoints.get(key)?.push(value);
+        }
+
+        return new TimeSeries(
+            [...timePoints.entries()].map(([key, values]) => timeFrame(values, key))
+        );
+    }
+}
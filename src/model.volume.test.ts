@@ -0,0 +1,132 @@
+import { Vector3 } from 'three';
+import { describe, expect, it, vi } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import Volume from './model.volume.ts';
+import DicomParser from './parser.dicom.ts';
+import type { DicomFile, Series } from './preloader.ts';
+import { writeDicom } from './writer.dicom.ts';
+import WorkerPool from './worker.pool.ts';
+
+/**
+ * Sagittal slice of rows x 2 pixels, the row going to -y and the column to -z
+ */
+const slice = (sopInstanceUID: string, position: [number, number, number], rows = 2) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.4');
+    dataSet.setString('SOPInstanceUID', sopInstanceUID);
+    dataSet.setString('ImagePositionPatient', position.map(String), 'DS');
+    dataSet.setString('ImageOrientationPatient', ['0', '-1', '0', '0', '0', '-1'], 'DS');
+    dataSet.setString('PixelSpacing', ['2', '3'], 'DS');
+    dataSet.setString('SliceThickness', '1.5', 'DS');
+    dataSet.setNumbers('Rows', rows, 'US');
+    dataSet.setNumbers('Columns', 2, 'US');
+    dataSet.setNumbers('SamplesPerPixel', 1, 'US');
+    dataSet.setString('PhotometricInterpretation', 'MONOCHROME2', 'CS');
+    dataSet.setNumbers('BitsAllocated', 8, 'US');
+    dataSet.setNumbers('BitsStored', 8, 'US');
+    dataSet.setNumbers('HighBit', 7, 'US');
+    dataSet.setNumbers('PixelRepresentation', 0, 'US');
+    dataSet.setBytes('x7fe00010', new Uint8Array(rows * 2).fill(position[0]), 'OB');
+
+    return writeDicom(dataSet);
+};
+
+const series = (slices: [sopInstanceUID: string, bytes: Uint8Array][]): Series => ({
+    seriesInstanceUID: '1.2.3',
+    stackKey: '1.2.3',
+    stackIndex: 1,
+    splitReasons: [],
+    stackLabel: '',
+    dicomFiles: slices.map(
+        ([sopInstanceUID, bytes]): DicomFile => ({
+            file: new File([bytes], sopInstanceUID),
+            SOPInstanceUID: sopInstanceUID,
+            seriesInstanceUID: '1.2.3',
+            studyInstanceUID: '1.2',
+            localizer: false,
+        })
+    ),
+    sliceSpacing: null,
+    uniformSpacing: true,
+    gaps: [],
+    duplicatePositions: [],
+    gantryTilt: null,
+    tilted: false,
+});
+
+describe('Volume', () => {
+    it('maps indices to patient coordinates from the orientation and the origin', () => {
+        const dicomParser = new DicomParser({
+            buffer: slice('1.2.3.1', [10, 20, 30]).buffer as ArrayBuffer,
+        });
+        const volume = new Volume(
+            dicomParser,
+            [
+                [10, 20, 30],
+                [6, 20, 30],
+            ],
+            new Uint8Array(8),
+            '1.2.3'
+        );
+
+        // the normal (-x) points from the first slice to the last one
+        expect(volume.spacing).toEqual([3, 2, 4]);
+        expect(volume.origin.toArray()).toEqual([10, 20, 30]);
+        expect(new Vector3(1, 1, 1).applyMatrix4(volume.ijk2lps).toArray()).toEqual([6, 17, 28]);
+
+        const ijk = new Vector3(6, 17, 28).applyMatrix4(volume.lps2ijk);
+        expect(ijk.toArray().map((value) => Math.round(value * 1e6) / 1e6)).toEqual([1, 1, 1]);
+    });
+
+    it('takes the slice spacing from the positions rather than Slice Thickness', async () => {
+        const volume = await Volume.fromSeries(
+            series([
+                ['1.2.3.1', slice('1.2.3.1', [0, 0, 0])],
+                ['1.2.3.2', slice('1.2.3.2', [2.5, 0, 0])],
+                ['1.2.3.3', slice('1.2.3.3', [5, 0, 0])],
+            ])
+        );
+
+        expect(volume.dimensions).toEqual([2, 2, 3]);
+        expect(volume.spacing[2]).toBe(2.5);
+        expect(volume.sopInstanceUIDs).toEqual(['1.2.3.1', '1.2.3.2', '1.2.3.3']);
+        expect(volume.frameIndexes).toEqual([0, 0, 0]);
+        expect(Array.from(volume.data)).toEqual([0, 0, 0, 0, 2, 2, 2, 2, 5, 5, 5, 5]);
+    });
+
+    it('decodes the files with the pool and reports every frame', async () => {
+        const pool = new WorkerPool({ mainThread: true });
+        const decodeFrames = vi.spyOn(pool, 'decodeFrames');
+        const progress: number[][] = [];
+
+        const volume = await Volume.fromSeries(
+            series([
+                ['1.2.3.1', slice('1.2.3.1', [0, 0, 0])],
+                ['1.2.3.2', slice('1.2.3.2', [2, 0, 0])],
+            ]),
+            {
+                pool,
+                onProgress: ({ framesDecoded, totalFrames }) =>
+                    progress.push([framesDecoded, totalFrames]),
+            }
+        );
+
+        expect(decodeFrames).toHaveBeenCalledTimes(2);
+        expect(Array.from(volume.data)).toEqual([0, 0, 0, 0, 2, 2, 2, 2]);
+        expect(progress).toEqual([
+            [1, 2],
+            [2, 2],
+        ]);
+    });
+
+    it('rejects slices of different sizes', async () => {
+        await expect(
+            Volume.fromSeries(
+                series([
+                    ['1.2.3.1', slice('1.2.3.1', [0, 0, 0])],
+                    ['1.2.3.2', slice('1.2.3.2', [1, 0, 0], 3)],
+                ])
+            )
+        ).rejects.toThrow('slices do not share the same size: 1.2.3.2');
+    });
+});
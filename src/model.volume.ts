@@ -0,0 +1,243 @@
+import type { TypedArray } from '@cornerstonejs/dicom-codec';
+import { Matrix4, Vector3 } from 'three';
+import Utils from './core.utils.ts';
+import DicomParser from './parser.dicom.ts';
+import type { DecodeOptions, DecodeProgress } from './parser.dicom.ts';
+import { loadDicomParser } from './preloader.ts';
+import type { Series } from './preloader.ts';
+import type { EnhancedStack } from './model.dimensions.ts';
+import type WorkerPool from './worker.pool.ts';
+
+type TypedArrayConstructor = new (length: number) => TypedArray;
+
+export interface VolumeOptions extends DecodeOptions {
+    /** Decode the files in workers of this pool instead of the main thread */
+    pool?: WorkerPool;
+}
+
+/**
+ * Volume assembled from the sorted slices of a series.
+ * Voxels are stored column first, then row, then slice, in one contiguous typed array.
+ */
+export default class Volume {
+    public seriesInstanceUID: string;
+    /** SOP Instance UID of the file each slice comes from */
+    public sopInstanceUIDs: string[];
+    /** Frame of that file each slice comes from, 0 for single frame files */
+    public frameIndexes: number[];
+    public data: TypedArray;
+    public dimensions: [columns: number, rows: number, slices: number];
+    public numberOfChannels: number;
+    public spacing: [xSpacing: number, ySpacing: number, zSpacing: number];
+    public origin: Vector3;
+    public direction: [row: Vector3, column: Vector3, normal: Vector3];
+    public ijk2lps: Matrix4;
+    public lps2ijk: Matrix4;
+
+    constructor(
+        dicomParser: DicomParser,
+        positions: ([number, number, number] | null)[],
+        data: TypedArray,
+        seriesInstanceUID: string,
+        sopInstanceUIDs: string[] = [],
+        frameIndex = 0,
+        frameIndexes: number[] = sopInstanceUIDs.map(() => 0)
+    ) {
+        const rows = dicomParser.rows ?? 0;
+        const columns = dicomParser.columns ?? 0;
+        const slices = positions.length;
+
+        this.seriesInstanceUID = seriesInstanceUID;
+        this.sopInstanceUIDs = sopInstanceUIDs;
+        this.frameIndexes = frameIndexes;
+        this.data = data;
+        this.dimensions = [columns, rows, slices];
+        this.numberOfChannels =
+            rows * columns * slices ? data.length / (rows * columns * slices) : 1;
+
+        // pixel spacing is (row spacing, column spacing): y first
+        const pixelSpacing = dicomParser.pixelSpacing(frameIndex) ?? [1, 1];
+        const [row, column, normal] = Utils.directionCosines(
+            dicomParser.imageOrientation(frameIndex) ?? [1, 0, 0, 0, 1, 0]
+        );
+
+        const first = positions[0];
+        const last = positions[slices - 1];
+        this.origin = first ? new Vector3(...first) : new Vector3();
+
+        // z spacing from the slice positions, header values are only a fallback
+        let zSpacing =
+            dicomParser.spacingBetweenSlices() ?? dicomParser.sliceThickness(frameIndex) ?? 1;
+        if (slices > 1 && first && last) {
+            const distance =
+                Utils.distanceAlongNormal(last, normal) - Utils.distanceAlongNormal(first, normal);
+
+            if (distance !== 0) {
+                zSpacing = Math.abs(distance) / (slices - 1);
+                // k must point from the first slice towards the last one
+                if (distance < 0) normal.negate();
+            }
+        }
+
+        this.spacing = [pixelSpacing[1], pixelSpacing[0], zSpacing];
+        this.direction = [row, column, normal];
+
+        this.ijk2lps = Utils.ijk2lps(
+            this.origin,
+            row.clone().multiplyScalar(this.spacing[0]),
+            column.clone().multiplyScalar(this.spacing[1]),
+            normal.clone().multiplyScalar(this.spacing[2])
+        );
+        this.lps2ijk = this.ijk2lps.clone().invert();
+    }
+
+    /**
+     * Decode every file (and every frame) of a sorted series into a single volume.
+     * The total number of frames reported is estimated from the files decoded so far.
+     * With a pool the files are decoded in parallel, the headers are still read here.
+     */
+    static async fromSeries(series: Series, options: VolumeOptions = {}) {
+        const { pool, signal } = options;
+        let firstParser: DicomParser | null = null;
+        let data: TypedArray | null = null;
+        let sliceLength = 0;
+        const positions: ([number, number, number] | null)[] = [];
+        const sopInstanceUIDs: string[] = [];
+        const frameIndexes: number[] = [];
+
+        // files not started yet count as many frames as the largest file started
+        const fileProgress = series.dicomFiles.map(() => ({ framesDecoded: 0, totalFrames: 0 }));
+        const onProgress = (fileIndex: number) => (progress: DecodeProgress) => {
+            fileProgress[fileIndex] = progress;
+            const started = fileProgress.filter((file) => file.totalFrames);
+            const framesPerFile = Math.max(...started.map((file) => file.totalFrames));
+
+            options.onProgress?.({
+                framesDecoded: fileProgress.reduce((sum, file) => sum + file.framesDecoded, 0),
+                totalFrames:
+                    started.reduce((sum, file) => sum + file.totalFrames, 0) +
+                    framesPerFile * (fileProgress.length - started.length),
+            });
+        };
+
+        // the pool limits the number of tasks running at once
+        const pooledFrames = pool
+            ? await Promise.all(
+                  series.dicomFiles.map((dicomFile, fileIndex) =>
+                      pool.decodeFrames(
+                          dicomFile.file,
+                          {},
+                          { signal, onProgress: onProgress(fileIndex) }
+                      )
+                  )
+              )
+            : null;
+
+        for (const [fileIndex, dicomFile] of series.dicomFiles.entries()) {
+            signal?.throwIfAborted();
+
+            const dicomParser = await loadDicomParser(dicomFile);
+            const frames =
+                pooledFrames?.[fileIndex] ??
+                (await dicomParser.extractAllFrames(
+                    {},
+                    { signal, onProgress: onProgress(fileIndex) }
+                ));
+
+            for (let frameIndex = 0; frameIndex < frames.length; frameIndex++) {
+                const frame = frames[frameIndex];
+
+                if (!data) {
+                    // allocate for the whole series, assuming every file holds as many frames
+                    firstParser = dicomParser;
+                    sliceLength = frame.length;
+                    const capacity = sliceLength * frames.length * series.dicomFiles.length;
+                    data = new (frame.constructor as TypedArrayConstructor)(capacity);
+                } else if (frame.length !== sliceLength) {
+                    const error = new Error(
+                        `model.volume slices do not share the same size: ${dicomFile.file.name}`
+                    );
+                    throw error;
+                }
+
+                const offset = positions.length * sliceLength;
+                if (offset + sliceLength > data.length) {
+                    const grown: TypedArray = new (data.constructor as TypedArrayConstructor)(
+                        Math.max(data.length * 2, offset + sliceLength)
+                    );
+                    grown.set(data);
+                    data = grown;
+                }
+
+                data.set(frame, offset);
+                positions.push(dicomParser.imagePosition(frameIndex));
+                sopInstanceUIDs.push(dicomFile.SOPInstanceUID);
+                frameIndexes.push(frameIndex);
+            }
+        }
+
+        if (!data || !firstParser) {
+            const error = new Error(
+                `model.volume series has no pixel data: ${series.seriesInstanceUID}`
+            );
+            throw error;
+        }
+
+        if (data.length !== positions.length * sliceLength) {
+            data = data.slice(0, positions.length * sliceLength);
+        }
+
+        return new Volume(
+            firstParser,
+            positions,
+            data,
+            series.seriesInstanceUID,
+            sopInstanceUIDs,
+            0,
+            frameIndexes
+        );
+    }
+
+    /**
+     * Decode the frames of one stack of an enhanced multi-frame object into a volume.
+     */
+    static async fromEnhancedStack(
+        dicomParser: DicomParser,
+        stack: EnhancedStack,
+        options: DecodeOptions = {}
+    ) {
+        const [first] = stack.frames;
+        if (!first) {
+            const error = new Error(`model.volume stack has no frames: ${stack.stackKey}`);
+            throw error;
+        }
+
+        const frames = [];
+        for (const frame of stack.frames) {
+            options.signal?.throwIfAborted();
+            frames.push(await dicomParser.extractPixelData(frame.frameIndex));
+            options.onProgress?.({
+                framesDecoded: frames.length,
+                totalFrames: stack.frames.length,
+            });
+        }
+
+        const sliceLength = frames[0].length;
+        const data = new (frames[0].constructor as TypedArrayConstructor)(
+            sliceLength * frames.length
+        );
+        frames.forEach((frame, index) => data.set(frame, index * sliceLength));
+
+        const sopInstanceUID = dicomParser.sopInstanceUID() ?? '';
+
+        return new Volume(
+            dicomParser,
+            stack.frames.map((frame) => frame.imagePosition),
+            data,
+            dicomParser.seriesInstanceUID ?? 'unknown',
+            stack.frames.map(() => sopInstanceUID),
+            first.frameIndex,
+            stack.frames.map((frame) => frame.frameIndex)
+        );
+    }
+}
@@ -0,0 +1,415 @@
+import { describe, expect, it } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import DicomParser from './parser.dicom.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+const toParser = (dataSet: MutableDataSet) => {
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.6.1');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4');
+
+    return new DicomParser({ buffer: writeDicom(dataSet).buffer as ArrayBuffer });
+};
+
+describe('DicomParser', () => {
+    it('reads bare implicit VR datasets', () => {
+        const uid = (element: number, value: string) => {
+            const bytes = new Uint8Array(8 + value.length);
+            const view = new DataView(bytes.buffer);
+            view.setUint16(0, 0x0020, true);
+            view.setUint16(2, element, true);
+            view.setUint32(4, value.length, true);
+            bytes.set(new TextEncoder().encode(value), 8);
+            return bytes;
+        };
+        const bytes = new Uint8Array([...uid(0x000d, '1.2.3\0'), ...uid(0x000e, '1.2.3.4\0')]);
+
+        expect(new DicomParser({ buffer: bytes.buffer }).seriesInstanceUID).toBe('1.2.3.4');
+    });
+
+    it('rejects files that are not DICOM', () => {
+        const bytes = new TextEncoder().encode('%PDF-1.7 not a DICOM file');
+
+        expect(() => new DicomParser({ buffer: bytes.buffer as ArrayBuffer })).toThrow(
+            'parsers.dicom not a DICOM file'
+        );
+    });
+});
+
+describe('ultrasoundRegions', () => {
+    const region = (dataType?: number) => {
+        const item = new MutableDataSet();
+        item.setNumbers('x00186018', 0, 'UL');
+        item.setNumbers('x0018601a', 0, 'UL');
+        item.setNumbers('x0018601c', 99, 'UL');
+        item.setNumbers('x0018601e', 99, 'UL');
+        item.setNumbers('x00186012', 3, 'US');
+        if (dataType !== undefined) {
+            item.setNumbers('x00186014', dataType, 'US');
+        }
+        return item;
+    };
+
+    it('names the Region Data Type with the PS3.3 codes', () => {
+        const dataSet = new MutableDataSet();
+        dataSet.setSequence(
+            'x00186011',
+            [0, 1, 2, 3, 4, 5, 8, 9, 0x0a, 0x0e, 0x12].map((dataType) => region(dataType))
+        );
+
+        expect(
+            toParser(dataSet)
+                .ultrasoundRegions()
+                .map((item) => item.regionDataType)
+        ).toEqual([
+            'none',
+            'tissue',
+            'color flow',
+            'PW spectral Doppler',
+            'CW spectral Doppler',
+            'Doppler mean trace',
+            'volume trace',
+            'reserved',
+            'ECG trace',
+            'color bar',
+            'other physiological input',
+        ]);
+    });
+
+    it('keeps an absent Region Data Type null', () => {
+        const dataSet = new MutableDataSet();
+        dataSet.setSequence('x00186011', [region()]);
+
+        expect(toParser(dataSet).ultrasoundRegions()[0].regionDataType).toBeNull();
+    });
+});
+
+describe('paletteColorLookupTables', () => {
+    const segmented = (numberOfEntries: number, segments: number[]) => {
+        const dataSet = new MutableDataSet();
+        for (const channel of ['1', '2', '3']) {
+            dataSet.setNumbers(`x0028110${channel}`, [numberOfEntries, 0, 16], 'US');
+            dataSet.setBytes(
+                `x0028122${channel}`,
+                new Uint8Array(Uint16Array.from(segments).buffer),
+                'OW'
+            );
+        }
+
+        return toParser(dataSet);
+    };
+
+    it('expands indirect segments that replay indirect segments', () => {
+        const dicomParser = segmented(14, [
+            ...[0, 1, 10], // discrete
+            ...[1, 2, 30], // linear
+            ...[0, 1, 5], // discrete
+            ...[2, 3, 0, 0], // the three segments above
+            ...[2, 2, 6, 0], // the last discrete segment and the indirect one
+            ...[0, 1, 99], // discrete
+        ]);
+
+        expect(Array.from(dicomParser.paletteColorLookupTables?.red.data ?? [])).toEqual([
+            ...[10, 20, 30, 5],
+            ...[10, 20, 30, 5],
+            ...[5, 10, 20, 30, 5],
+            99,
+        ]);
+    });
+
+    it('rejects an indirect segment that replays itself', () => {
+        const dicomParser = segmented(4, [0, 1, 10, ...[2, 2, 0, 0]]);
+
+        expect(() => dicomParser.paletteColorLookupTables).toThrow('replays itself');
+    });
+});
+
+describe('extractPixelData', () => {
+    const image = (rows: number, columns: number, numberOfFrames: number, bitsAllocated = 8) => {
+        const dataSet = new MutableDataSet();
+        dataSet.setNumbers('Rows', rows, 'US');
+        dataSet.setNumbers('Columns', columns, 'US');
+        dataSet.setString('NumberOfFrames', String(numberOfFrames), 'IS');
+        dataSet.setNumbers('SamplesPerPixel', 1, 'US');
+        dataSet.setString('PhotometricInterpretation', 'MONOCHROME2', 'CS');
+        dataSet.setNumbers('BitsAllocated', bitsAllocated, 'US');
+        dataSet.setNumbers('BitsStored', bitsAllocated, 'US');
+        dataSet.setNumbers('HighBit', bitsAllocated - 1, 'US');
+        dataSet.setNumbers('PixelRepresentation', 0, 'US');
+        return dataSet;
+    };
+
+    /**
+     * RLE Lossless frame of 8 bit samples: one segment of literal runs
+     */
+    const rleFrame = (samples: number[]) => {
+        const frame = new Uint8Array(64 + samples.length + Math.ceil(samples.length / 128));
+        const view = new DataView(frame.buffer);
+        view.setUint32(0, 1, true);
+        view.setUint32(4, 64, true);
+
+        let offset = 64;
+        for (let start = 0; start < samples.length; start += 128) {
+            const run = samples.slice(start, start + 128);
+            frame[offset] = run.length - 1;
+            frame.set(run, offset + 1);
+            offset += run.length + 1;
+        }
+
+        return frame;
+    };
+
+    const encapsulated = (dataSet: MutableDataSet, fragments: Uint8Array[]) => {
+        dataSet.setFragments('x7fe00010', fragments);
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.7');
+        dataSet.setString('SOPInstanceUID', '1.2.3.4');
+
+        return new DicomParser({
+            buffer: writeDicom(dataSet, { transferSyntaxUID: '1.2.840.10008.1.2.5' })
+                .buffer as ArrayBuffer,
+        });
+    };
+
+    const frameSamples = (frameIndex: number) =>
+        Array.from({ length: 6 }, (_, index) => frameIndex * 10 + index);
+
+    it('takes each native frame at its offset with its own size', async () => {
+        const dataSet = image(2, 3, 3, 16);
+        dataSet.setBytes(
+            'x7fe00010',
+            new Uint8Array(Uint16Array.from([0, 1, 2].flatMap(frameSamples)).buffer),
+            'OW'
+        );
+        const dicomParser = toParser(dataSet);
+
+        const frame = await dicomParser.extractPixelData(1);
+        expect(frame).toBeInstanceOf(Uint16Array);
+        expect(frame.byteLength).toBe(2 * 3 * 1 * 2);
+        expect(Array.from(frame)).toEqual(frameSamples(1));
+        expect(Array.from(await dicomParser.extractPixelData(2))).toEqual(frameSamples(2));
+        await expect(dicomParser.extractPixelData(3)).rejects.toThrow('frame index out of range');
+    });
+
+    it('unpacks 1 bit frames that do not start on a byte boundary', async () => {
+        const bits = [...[1, 0, 0, 1, 1, 0, 0, 0, 1], ...[0, 1, 1, 0, 0, 1, 1, 1, 0]];
+        const packed = new Uint8Array(Math.ceil(bits.length / 8));
+        bits.forEach((bit, index) => (packed[index >> 3] |= bit << (index & 7)));
+
+        const dataSet = image(3, 3, 2, 1);
+        dataSet.setBytes('x7fe00010', packed, 'OB');
+        const dicomParser = toParser(dataSet);
+
+        expect(Array.from(await dicomParser.extractPixelData(0))).toEqual(bits.slice(0, 9));
+        expect(Array.from(await dicomParser.extractPixelData(1))).toEqual(bits.slice(9));
+    });
+
+    it('extracts the frames of the range and reports each of them', async () => {
+        const dataSet = image(2, 3, 4);
+        dataSet.setBytes('x7fe00010', Uint8Array.from([0, 1, 2, 3].flatMap(frameSamples)), 'OB');
+        const progress: number[] = [];
+
+        const frames = await toParser(dataSet).extractAllFrames(
+            { start: 1, end: 3 },
+            { onProgress: ({ framesDecoded }) => progress.push(framesDecoded) }
+        );
+
+        expect(frames.map((frame) => Array.from(frame))).toEqual([
+            frameSamples(1),
+            frameSamples(2),
+        ]);
+        expect(progress).toEqual([1, 2]);
+    });
+
+    it('decodes encapsulated frames of one fragment each', async () => {
+        const dicomParser = encapsulated(image(2, 3, 2), [
+            new Uint8Array(),
+            rleFrame(frameSamples(0)),
+            rleFrame(frameSamples(1)),
+        ]);
+
+        expect(Array.from(await dicomParser.extractPixelData(1))).toEqual(frameSamples(1));
+    });
+
+    it('decodes encapsulated frames split over several fragments', async () => {
+        const frames = [0, 1].map((frameIndex) => rleFrame(frameSamples(frameIndex)));
+        const fragments = frames.flatMap((frame) => [frame.subarray(0, 40), frame.subarray(40)]);
+        // offsets from the first fragment item: 8 bytes of item header, values of even length
+        const offsetTable = Uint32Array.from([
+            0,
+            fragments
+                .slice(0, 2)
+                .reduce(
+                    (offset, fragment) => offset + 8 + fragment.length + (fragment.length % 2),
+                    0
+                ),
+        ]);
+
+        const multiFrame = encapsulated(image(2, 3, 2), [
+            new Uint8Array(offsetTable.buffer),
+            ...fragments,
+        ]);
+        expect(Array.from(await multiFrame.extractPixelData(1))).toEqual(frameSamples(1));
+
+        // a single frame takes all the fragments, without offset table
+        const singleFrame = encapsulated(image(2, 3, 1), [new Uint8Array(), ...fragments.slice(2)]);
+        expect(Array.from(await singleFrame.extractPixelData(0))).toEqual(frameSamples(1));
+    });
+});
+
+describe('color space conversion', () => {
+    const colorImage = (photometricInterpretation: string, planarConfiguration = 0) => {
+        const dataSet = new MutableDataSet();
+        dataSet.setNumbers('Rows', 1, 'US');
+        dataSet.setNumbers('Columns', 2, 'US');
+        dataSet.setNumbers('SamplesPerPixel', 3, 'US');
+        dataSet.setString('PhotometricInterpretation', photometricInterpretation, 'CS');
+        dataSet.setNumbers('PlanarConfiguration', planarConfiguration, 'US');
+        dataSet.setNumbers('BitsAllocated', 8, 'US');
+        dataSet.setNumbers('BitsStored', 8, 'US');
+        dataSet.setNumbers('HighBit', 7, 'US');
+        dataSet.setNumbers('PixelRepresentation', 0, 'US');
+        return dataSet;
+    };
+
+    const native = (dataSet: MutableDataSet, samples: number[]) => {
+        dataSet.setBytes('x7fe00010', Uint8Array.from(samples), 'OB');
+        return toParser(dataSet);
+    };
+
+    const encapsulated = (dataSet: MutableDataSet, transferSyntaxUID: string) => {
+        dataSet.setFragments('x7fe00010', [new Uint8Array(), new Uint8Array(4)]);
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.7');
+        dataSet.setString('SOPInstanceUID', '1.2.3.4');
+
+        return new DicomParser({
+            buffer: writeDicom(dataSet, { transferSyntaxUID }).buffer as ArrayBuffer,
+        });
+    };
+
+    it('interleaves and converts planar YBR_FULL', async () => {
+        // Y Y Cb Cb Cr Cr: a gray pixel then Y 100, Cr 200
+        const dicomParser = native(colorImage('YBR_FULL', 1), [128, 100, 128, 128, 128, 200]);
+
+        expect(dicomParser.outputPhotometricInterpretation).toBe('RGB');
+        expect(Array.from(await dicomParser.extractPixelData())).toEqual([
+            ...[128, 128, 128],
+            ...[201, 49, 100],
+        ]);
+    });
+
+    it('shares the chroma of native 4:2:2 data between two pixels', async () => {
+        // Y0 Y1 Cb Cr
+        const dicomParser = native(colorImage('YBR_FULL_422'), [128, 100, 128, 200]);
+
+        expect(Array.from(await dicomParser.extractPixelData())).toEqual([
+            ...[229, 77, 128],
+            ...[201, 49, 100],
+        ]);
+    });
+
+    it('stretches partial range data to the full range', async () => {
+        const dicomParser = native(colorImage('YBR_PARTIAL_422'), [235, 16, 128, 128]);
+
+        expect(Array.from(await dicomParser.extractPixelData())).toEqual([
+            ...[255, 255, 255],
+            ...[0, 0, 0],
+        ]);
+
+        // 4:2:0 data is only encapsulated, the codec returns full resolution samples
+        const mpeg = encapsulated(colorImage('YBR_PARTIAL_420'), '1.2.840.10008.1.2.4.100');
+        expect(
+            Array.from(mpeg._convertColorSpace(Uint8Array.from([235, 128, 128, 126, 128, 128])))
+        ).toEqual([...[255, 255, 255], ...[128, 128, 128]]);
+    });
+
+    it('keeps the data the codec already converted to RGB', () => {
+        const decoded = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+
+        const jpeg = encapsulated(colorImage('YBR_FULL_422', 1), '1.2.840.10008.1.2.4.50');
+        expect(jpeg._convertColorSpace(decoded)).toBe(decoded);
+
+        const jpeg2000 = encapsulated(colorImage('YBR_ICT'), '1.2.840.10008.1.2.4.91');
+        expect(jpeg2000.numberOfChannels).toBe(3);
+        expect(jpeg2000.outputPhotometricInterpretation).toBe('RGB');
+        expect(jpeg2000._convertColorSpace(decoded)).toBe(decoded);
+    });
+});
+
+describe('get and dump', () => {
+    /**
+     * Implicit VR file: the VR of every element comes from the dictionary
+     */
+    const implicitParser = (dataSet: MutableDataSet) => {
+        dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+        dataSet.setString('SOPInstanceUID', '1.2.3.4');
+
+        return new DicomParser({
+            buffer: writeDicom(dataSet, { transferSyntaxUID: '1.2.840.10008.1.2' })
+                .buffer as ArrayBuffer,
+        });
+    };
+
+    const pixelMeasures = (pixelSpacing: string[]) => {
+        const measures = new MutableDataSet();
+        measures.setString('PixelSpacing', pixelSpacing, 'DS');
+        const frame = new MutableDataSet();
+        frame.setSequence('PixelMeasuresSequence', [measures]);
+        return frame;
+    };
+
+    it('reads an attribute by keyword or by tag, in the groups of the frame first', () => {
+        const dataSet = new MutableDataSet();
+        dataSet.setString('PixelSpacing', ['1', '1'], 'DS');
+        dataSet.setSequence('x52009230', [
+            pixelMeasures(['0.5', '0.5']),
+            pixelMeasures(['2', '3']),
+        ]);
+        dataSet.setString('Modality', 'MR', 'CS');
+        const dicomParser = toParser(dataSet);
+
+        expect(dicomParser.get('Modality')).toBe('MR');
+        expect(dicomParser.get(0x00080060)).toBe('MR');
+        expect(dicomParser.get('x00080060')).toBe('MR');
+        expect(dicomParser.get('PixelSpacing', 1)).toEqual([2, 3]);
+        expect(dicomParser.get(0x00280030)).toEqual([0.5, 0.5]);
+        expect(dicomParser.get('StudyDate')).toBeNull();
+        expect(() => dicomParser.get('Nope')).toThrow('parsers.dicom unknown keyword: Nope');
+    });
+
+    it('reads US or SS attributes without VR according to Pixel Representation', () => {
+        for (const [pixelRepresentation, value] of [
+            [0, 0xfffb],
+            [1, -5],
+        ]) {
+            const dataSet = new MutableDataSet();
+            dataSet.setNumbers('PixelRepresentation', pixelRepresentation, 'US');
+            dataSet.setNumbers('SmallestImagePixelValue', -5, 'SS');
+
+            const dicomParser = implicitParser(dataSet);
+            expect(dicomParser.get('SmallestImagePixelValue')).toBe(value);
+            expect(dicomParser.dump()).toContain(
+                `(0028,0106) ${pixelRepresentation ? 'SS' : 'US'} SmallestImagePixelValue: ${value}`
+            );
+        }
+    });
+
+    it('indents the items of nested sequences in the dump', () => {
+        const source = new MutableDataSet();
+        source.setString('ReferencedSOPInstanceUID', '1.2.3.1', 'UI');
+        const derivation = new MutableDataSet();
+        derivation.setSequence('SourceImageSequence', [source]);
+        const dataSet = new MutableDataSet();
+        dataSet.setSequence('DerivationImageSequence', [derivation, new MutableDataSet()]);
+
+        const lines = implicitParser(dataSet).dump().split('\n');
+
+        expect(lines.slice(lines.indexOf('(0008,0018) UI SOPInstanceUID: 1.2.3.4'))).toEqual([
+            '(0008,0018) UI SOPInstanceUID: 1.2.3.4',
+            '(0008,9124) SQ DerivationImageSequence: 2 item(s)',
+            '> Item 1',
+            '>(0008,2112) SQ SourceImageSequence: 1 item(s)',
+            '>> Item 1',
+            '>>(0008,1155) UI ReferencedSOPInstanceUID: 1.2.3.1',
+            '> Item 2',
+        ]);
+    });
+});
@@ -6,7 +6,21 @@ import {
     readEncapsulatedImageFrame,
     readEncapsulatedPixelDataFromFragments,
 } from 'dicom-parser';
-import type { DataSet } from 'dicom-parser';
+import type { DataSet, Element } from 'dicom-parser';
+import Utils from './core.utils.ts';
+import { characterSets, readText } from './core.charset.ts';
+import { dictionaryEntry, formatTag, toTag } from './core.dictionary.ts';
+import { parseOptions } from './core.format.ts';
+import {
+    combineDateTime,
+    parseAge,
+    parseDate,
+    parsePersonName,
+    parseTime,
+    parseUTCOffset,
+} from './core.values.ts';
+
+type TypedArrayConstructor = new (length: number) => TypedArray;
 
 interface Segment {
     dataSet: DataSet;
@@ -18,8 +32,9 @@ interface SegmentationCode {
     segmentationCodeMeaning: string;
 }
 
-interface SegmentationSegment {
+export interface SegmentationSegment {
     recommendedDisplayCIELab: number[] | null;
+    recommendedDisplayRGB: [number, number, number] | null;
     segmentationCodeDesignator: string;
     segmentationCodeValue: string;
     segmentationCodeMeaning: string;
@@ -28,7 +43,7 @@ interface SegmentationSegment {
     segmentAlgorithmType: string | null;
 }
 
-interface UltrasoundRegion {
+export interface UltrasoundRegion {
     x0: number | null;
     y0: number | null;
     x1: number | null;
@@ -39,6 +54,69 @@ interface UltrasoundRegion {
     unitsY: string;
     deltaX: number | null;
     deltaY: number | null;
+    /** Physical value at the reference pixel (axisX, axisY) */
+    referencePhysicalValueX: number | null;
+    referencePhysicalValueY: number | null;
+    /** '2D', 'M-Mode', 'spectral', 'waveform', 'graphics' or 'none' */
+    regionSpatialFormat: string;
+    /** e.g. 'tissue', 'color flow', 'PW spectral Doppler', 'ECG trace', null when absent */
+    regionDataType: string | null;
+    regionFlags: number | null;
+}
+
+interface PaletteColorLookupTable {
+    numberOfEntries: number;
+    firstMappedValue: number;
+    bitsPerEntry: number;
+    data: Uint8Array | Uint16Array;
+}
+
+export interface LookupTable extends PaletteColorLookupTable {
+    explanation: string | null;
+}
+
+export interface VOIWindow {
+    center: number;
+    width: number;
+    explanation: string | null;
+}
+
+/**
+ * Value of an attribute read according to its VR: numbers for binary and numeric string VRs,
+ * strings for text VRs, bytes for OB/OW-like VRs, item datasets for sequences.
+ * Multi-valued attributes come back as arrays.
+ */
+export type DicomValue = string | number | string[] | number[] | Uint8Array | DataSet[] | null;
+
+export interface DimensionIndex {
+    /**
+     * Attribute indexed by the dimension, e.g. 'x00209057' (In-Stack Position Number),
+     * null when the item has none
+     */
+    dimensionIndexPointer: string | null;
+    /** Functional group holding that attribute, e.g. 'x00209111' (Frame Content Sequence) */
+    functionalGroupPointer: string | null;
+    dimensionOrganizationUID: string | null;
+    dimensionDescriptionLabel: string | null;
+}
+
+export interface DecodeProgress {
+    framesDecoded: number;
+    totalFrames: number;
+}
+
+export interface DecodeOptions {
+    /** Cancel the decoding between two frames, the promise is rejected with the reason of the signal */
+    signal?: AbortSignal;
+    /** Called after every decoded frame */
+    onProgress?: (progress: DecodeProgress) => void;
+}
+
+export interface FrameRange {
+    /** First frame to extract (inclusive, defaults to 0) */
+    start?: number;
+    /** Last frame to extract (exclusive, defaults to the number of frames) */
+    end?: number;
 }
 
 /**
@@ -47,13 +125,21 @@ interface UltrasoundRegion {
 export default class DicomParser {
     private _dataSet: DataSet;
     private _arrayBuffer: ArrayBuffer;
+    private _characterSets: WeakMap<DataSet, string[]> | null = null;
 
     constructor(data: { buffer: ArrayBuffer }) {
         this._arrayBuffer = data.buffer;
 
+        const byteArray = new Uint8Array(this._arrayBuffer);
+        // datasets without the Part 10 header (e.g. from archives) are implicit VR little endian
+        const options = parseOptions(byteArray);
+        if (!options) {
+            const error = new Error('parsers.dicom not a DICOM file');
+            throw error;
+        }
+
         try {
-            const byteArray = new Uint8Array(this._arrayBuffer);
-            this._dataSet = parseDicom(byteArray);
+            this._dataSet = parseDicom(byteArray, options);
         } catch (err) {
             console.log(err);
             const error = new Error('parsers.dicom could not parse the file');
@@ -113,11 +199,14 @@ export default class DicomParser {
             });
             const segmentationCode = this._segmentationCode({ dataSet: item.dataSet });
             const segmentNumber = item.dataSet.uint16('x00620004');
-            const segmentLabel = item.dataSet.string('x00620005');
+            const segmentLabel = this.string('x00620005', item.dataSet);
             const segmentAlgorithmType = item.dataSet.string('x00620008');
 
             segmentationSegments.push({
                 recommendedDisplayCIELab,
+                recommendedDisplayRGB: recommendedDisplayCIELab
+                    ? Utils.cielabToRGB(recommendedDisplayCIELab)
+                    : null,
                 segmentationCodeDesignator: segmentationCode.segmentationCodeDesignator,
                 segmentationCodeValue: segmentationCode.segmentationCodeValue,
                 segmentationCodeMeaning: segmentationCode.segmentationCodeMeaning,
@@ -145,7 +234,7 @@ export default class DicomParser {
                 return {
                     segmentationCodeDesignator: dataSet.string('x00080102') || 'unknown',
                     segmentationCodeValue: dataSet.string('x00080100') || 'unknown',
-                    segmentationCodeMeaning: dataSet.string('x00080104') || 'unknown',
+                    segmentationCodeMeaning: this.string('x00080104', dataSet) || 'unknown',
                 };
             }
         }
@@ -191,6 +280,85 @@ export default class DicomParser {
         return this._dataSet;
     }
 
+    /**
+     * Specific Character Set (0008,0005), empty for the default repertoire
+     */
+    get specificCharacterSet() {
+        return characterSets(this._dataSet);
+    }
+
+    /**
+     * Text value of the dataset or of one of its sequence items, decoded with the character set
+     * in effect for that item
+     */
+    string(tag: string, dataSet: DataSet = this._dataSet, index?: number) {
+        return readText(dataSet, tag, this._characterSet(dataSet), index) ?? null;
+    }
+
+    /**
+     * Value of any attribute by keyword ('PixelSpacing') or tag (0x00280030, 'x00280030'),
+     * searched in the functional groups of the frame before the dataset itself.
+     */
+    get(tag: string | number, frameIndex = 0): DicomValue {
+        const normalizedTag = toTag(tag);
+        if (!normalizedTag) {
+            const error = new Error(`parsers.dicom unknown keyword: ${tag}`);
+            throw error;
+        }
+
+        const dataSet = this._findDataSetByTag(normalizedTag, frameIndex);
+
+        return dataSet ? this._readValue(dataSet, normalizedTag) : null;
+    }
+
+    /**
+     * Value of an attribute of the dataset or of one of its sequence items, read according to its VR
+     */
+    read(tag: string, dataSet: DataSet = this._dataSet): DicomValue {
+        return dataSet.elements[tag] ? this._readValue(dataSet, tag) : null;
+    }
+
+    /**
+     * Human-readable listing of every element, nested sequence items indented with '>'
+     */
+    dump(dataSet: DataSet = this._dataSet, depth = 0): string {
+        const indent = '>'.repeat(depth);
+        const lines: string[] = [];
+
+        for (const tag of Object.keys(dataSet.elements).sort()) {
+            const element = dataSet.elements[tag];
+            const entry = dictionaryEntry(tag);
+            const vr = this._valueRepresentation(element, entry?.vr);
+            const header = `${indent}${formatTag(tag)} ${vr} ${entry?.keyword ?? 'Unknown'}`;
+
+            if (vr === 'SQ') {
+                const items = element.items ?? [];
+                lines.push(`${header}: ${items.length} item(s)`);
+                items.forEach((item, index) => {
+                    lines.push(`${indent}> Item ${index + 1}`);
+                    if (item.dataSet) {
+                        lines.push(this.dump(item.dataSet, depth + 1));
+                    }
+                });
+                continue;
+            }
+
+            const value = this._readValue(dataSet, tag);
+            let text: string;
+            if (value instanceof Uint8Array) {
+                text = `<${value.length} bytes>`;
+            } else if (Array.isArray(value)) {
+                text =
+                    value.length > 16 ? `${value.slice(0, 16).join('\\')}\\...` : value.join('\\');
+            } else {
+                text = String(value ?? '');
+            }
+            lines.push(`${header}: ${text}`);
+        }
+
+        return lines.filter((line) => line).join('\n');
+    }
+
     /**
      * SOP Instance UID
      */
@@ -205,53 +373,96 @@ export default class DicomParser {
         return this._dataSet.string('x00020010') ?? null;
     }
 
+    /**
+     * Timezone Offset From UTC (0008,0201) in minutes, null when dates and times are in local time
+     */
+    get utcOffset() {
+        return parseUTCOffset(this._dataSet.string('x00080201'));
+    }
+
     /**
      * Study date
      */
     get studyDate() {
-        return this._dataSet.string('x00080020') ?? null;
+        return parseDate(this._dataSet.string('x00080020'), this.utcOffset);
+    }
+
+    /**
+     * Study time
+     */
+    get studyTime() {
+        return parseTime(this._dataSet.string('x00080030'));
+    }
+
+    /**
+     * Study date and time together
+     */
+    get studyDateTime() {
+        return combineDateTime(
+            this._dataSet.string('x00080020'),
+            this._dataSet.string('x00080030'),
+            this.utcOffset
+        );
     }
 
     /**
      * Study description
      */
     get studyDescription() {
-        return this._dataSet.string('x00081030') ?? null;
+        return this.string('x00081030');
     }
 
     /**
      * Series date
      */
     get seriesDate() {
-        return this._dataSet.string('x00080021') ?? null;
+        return parseDate(this._dataSet.string('x00080021'), this.utcOffset);
+    }
+
+    /**
+     * Series time
+     */
+    get seriesTime() {
+        return parseTime(this._dataSet.string('x00080031'));
+    }
+
+    /**
+     * Series date and time together
+     */
+    get seriesDateTime() {
+        return combineDateTime(
+            this._dataSet.string('x00080021'),
+            this._dataSet.string('x00080031'),
+            this.utcOffset
+        );
     }
 
     /**
      * Series description
      */
     get seriesDescription() {
-        return this._dataSet.string('x0008103e') ?? null;
+        return this.string('x0008103e');
     }
 
     /**
      * Patient name
      */
     get patientName() {
-        return this._dataSet.string('x00100010') ?? null;
+        return parsePersonName(this.string('x00100010'));
     }
 
     /**
      * Patient ID
      */
     get patientID() {
-        return this._dataSet.string('x00100020') ?? null;
+        return this.string('x00100020');
     }
 
     /**
      * Patient birthdate
      */
     get patientBirthdate() {
-        return this._dataSet.string('x00100030') ?? null;
+        return parseDate(this._dataSet.string('x00100030'));
     }
 
     /**
@@ -265,7 +476,7 @@ export default class DicomParser {
      * Patient age
      */
     get patientAge() {
-        return this._dataSet.string('x00101010') ?? null;
+        return parseAge(this._dataSet.string('x00101010'));
     }
 
     /**
@@ -275,6 +486,32 @@ export default class DicomParser {
         return this._dataSet.string('x00280004') ?? null;
     }
 
+    /**
+     * Red, green and blue palette color lookup tables
+     * -> Descriptors (0028,1101), (0028,1102), (0028,1103)
+     * -> Data (0028,1201), (0028,1202), (0028,1203)
+     * -> Segmented data (0028,1221), (0028,1222), (0028,1223)
+     */
+    get paletteColorLookupTables() {
+        const red = this._paletteColorLookupTable('x00281101', 'x00281201', 'x00281221');
+        const green = this._paletteColorLookupTable('x00281102', 'x00281202', 'x00281222');
+        const blue = this._paletteColorLookupTable('x00281103', 'x00281203', 'x00281223');
+
+        if (!red || !green || !blue) {
+            return null;
+        }
+
+        return { red, green, blue };
+    }
+
+    /**
+     * Photometric interpretation of the data returned by extractPixelData:
+     * color images are always converted to interleaved RGB.
+     */
+    get outputPhotometricInterpretation() {
+        return this.numberOfChannels > 1 ? 'RGB' : this.photometricInterpretation;
+    }
+
     get planarConfiguration() {
         return this._dataSet.uint16('x00280006') ?? null;
     }
@@ -299,7 +536,8 @@ export default class DicomParser {
                 photometricInterpretation !== 'YBR_FULL_422' &&
                 photometricInterpretation !== 'YBR_PARTIAL_422' &&
                 photometricInterpretation !== 'YBR_PARTIAL_420' &&
-                photometricInterpretation !== 'YBR_RCT'
+                photometricInterpretation !== 'YBR_RCT' &&
+                photometricInterpretation !== 'YBR_ICT'
             )
         ) {
             numberOfChannels = 3;
@@ -334,12 +572,17 @@ export default class DicomParser {
         return null;
     }
 
+    /**
+     * Maximum fractional value (0062,000e) of FRACTIONAL segmentations
+     */
+    get maximumFractionalValue() {
+        return this._dataSet.uint16('x0062000e') ?? null;
+    }
+
     referencedSegmentNumber(frameIndex = 0) {
-        let referencedSegmentNumberElement = this._findInGroupSequence(
-            'x52009230',
-            'x0062000a',
-            frameIndex
-        );
+        let referencedSegmentNumberElement =
+            this._findInGroupSequence('x52009230', 'x0062000a', frameIndex) ||
+            this._findInGroupSequence('x52009229', 'x0062000a', 0);
 
         if (referencedSegmentNumberElement) {
             return referencedSegmentNumberElement.uint16('x0062000b');
@@ -348,6 +591,34 @@ export default class DicomParser {
         return -1;
     }
 
+    /**
+     * Source image of a derived frame
+     * -> Derivation Image Sequence (0008,9124)
+     *   -> Source Image Sequence (0008,2112)
+     *     -> Referenced SOP Instance UID (0008,1155)
+     */
+    referencedSOPInstanceUID(frameIndex = 0) {
+        return (
+            this._findStringInSequence(
+                'x00082112',
+                'x00081155',
+                this._derivationImage(frameIndex)
+            ) ?? null
+        );
+    }
+
+    /**
+     * Frame (1-based) of a multi-frame source image a derived frame comes from
+     * -> Derivation Image Sequence (0008,9124)
+     *   -> Source Image Sequence (0008,2112)
+     *     -> Referenced Frame Number (0008,1160)
+     */
+    referencedFrameNumber(frameIndex = 0) {
+        const sourceImage = this._derivationImage(frameIndex)?.elements.x00082112?.items?.[0];
+
+        return sourceImage?.dataSet?.intString('x00081160') ?? null;
+    }
+
     get pixelAspectRatio() {
         const pixelAspectRatio = [
             this._dataSet.intString('x00280034', 0),
@@ -426,10 +697,14 @@ export default class DicomParser {
         return null;
     }
 
-    ultrasoundRegions(_frameIndex: number = 0): UltrasoundRegion[] {
+    /**
+     * Sequence of Ultrasound Regions (0018,6011)
+     * Regions are defined once for every frame of the image.
+     */
+    ultrasoundRegions(frameIndex: number = 0): UltrasoundRegion[] {
         const sequence = this._dataSet.elements['x00186011'];
 
-        if (!sequence?.items) {
+        if (!sequence?.items || frameIndex < 0 || frameIndex >= (this.numberOfFrames ?? 1)) {
             return [];
         }
 
@@ -451,6 +726,13 @@ export default class DicomParser {
                 unitsY: this._getUnitsName(item.dataSet.uint16('x00186026') ?? 0),
                 deltaX: item.dataSet.double('x0018602c') ?? null,
                 deltaY: item.dataSet.double('x0018602e') ?? null,
+                referencePhysicalValueX: item.dataSet.double('x00186028') ?? null,
+                referencePhysicalValueY: item.dataSet.double('x0018602a') ?? null,
+                regionSpatialFormat: this._getRegionSpatialFormatName(
+                    item.dataSet.uint16('x00186012') ?? 0
+                ),
+                regionDataType: this._getRegionDataTypeName(item.dataSet.uint16('x00186014')),
+                regionFlags: item.dataSet.uint32('x00186016') ?? null,
             });
         });
 
@@ -478,6 +760,46 @@ export default class DicomParser {
         return null;
     }
 
+    /**
+     * Frame Time Vector (0018,1065): time (ms) between each frame and the previous one
+     */
+    get frameTimeVector() {
+        const numberOfValues = this._dataSet.numStringValues('x00181065');
+
+        if (!numberOfValues) {
+            return null;
+        }
+
+        const frameTimeVector: number[] = [];
+        for (let i = 0; i < numberOfValues; i++) {
+            frameTimeVector.push(this._dataSet.floatString('x00181065', i) ?? 0);
+        }
+
+        return frameTimeVector;
+    }
+
+    /**
+     * Trigger Time (0018,1060), or Nominal Cardiac Trigger Delay Time (0020,9153)
+     * of the Cardiac Synchronization Sequence (0018,9118) in enhanced objects
+     */
+    triggerTime(frameIndex = 0) {
+        return (
+            this._findFloatStringInFrameGroupSequence('x00189118', 'x00209153', frameIndex) ??
+            this._dataSet.floatString('x00181060') ??
+            null
+        );
+    }
+
+    /**
+     * Temporal Position Index (0020,9128) of the Frame Content Sequence,
+     * else Temporal Position Identifier (0020,0100)
+     */
+    temporalPositionIndex(frameIndex = 0) {
+        const frameContent = this._findInGroupSequence('x52009230', 'x00209111', frameIndex);
+
+        return frameContent?.uint32('x00209128') ?? this._dataSet.intString('x00200100') ?? null;
+    }
+
     get rows() {
         return this._dataSet.uint16('x00280010');
     }
@@ -503,6 +825,10 @@ export default class DicomParser {
         return this._dataSet.uint16('x00280100');
     }
 
+    get bitsStored() {
+        return this._dataSet.uint16('x00280101');
+    }
+
     get highBit() {
         // expect frame index to start at 0!
         return this._dataSet.uint16('x00280102');
@@ -524,6 +850,73 @@ export default class DicomParser {
         return this._findFloatStringInFrameGroupSequence('x00289132', 'x00281051', frameIndex);
     }
 
+    /**
+     * Every window of the frame
+     * -> Window Center (0028,1050)
+     * -> Window Width (0028,1051)
+     * -> Window Center & Width Explanation (0028,1055)
+     */
+    windows(frameIndex = 0): VOIWindow[] {
+        const dataSet = this._findDataSetEverywhere('x00289132', 'x00281050', frameIndex);
+        const windows: VOIWindow[] = [];
+
+        if (!dataSet) {
+            return windows;
+        }
+
+        const numberOfWindows = dataSet.numStringValues('x00281050') ?? 0;
+        for (let i = 0; i < numberOfWindows; i++) {
+            const center = dataSet.floatString('x00281050', i);
+            const width = dataSet.floatString('x00281051', i);
+
+            if (center !== undefined && width !== undefined) {
+                windows.push({
+                    center,
+                    width,
+                    explanation: dataSet.string('x00281055', i) ?? null,
+                });
+            }
+        }
+
+        return windows;
+    }
+
+    /**
+     * VOI LUT Function (0028,1056): LINEAR, LINEAR_EXACT or SIGMOID
+     */
+    voiLUTFunction(frameIndex = 0) {
+        const dataSet = this._findDataSetEverywhere('x00289132', 'x00281056', frameIndex);
+
+        return dataSet?.string('x00281056') ?? null;
+    }
+
+    /**
+     * Modality LUT Sequence (0028,3000), replaces the rescale slope and intercept
+     */
+    modalityLookupTable(): LookupTable | null {
+        const item = this._dataSet.elements.x00283000?.items?.[0]?.dataSet;
+
+        return item ? this._lookupTable(item, this.pixelRepresentation === 1) : null;
+    }
+
+    /**
+     * VOI LUT Sequence (0028,3010), alternatives to the windows
+     */
+    voiLookupTables(frameIndex = 0): LookupTable[] {
+        const dataSet = this._findDataSetEverywhere('x00289132', 'x00283010', frameIndex);
+        const items = dataSet?.elements.x00283010?.items ?? [];
+        const lookupTables: LookupTable[] = [];
+
+        for (const item of items) {
+            const lookupTable = item.dataSet ? this._lookupTable(item.dataSet, false) : null;
+            if (lookupTable) {
+                lookupTables.push(lookupTable);
+            }
+        }
+
+        return lookupTables;
+    }
+
     sliceThickness(frameIndex = 0) {
         return this._findFloatStringInFrameGroupSequence('x00289110', 'x00180050', frameIndex);
     }
@@ -565,6 +958,30 @@ export default class DicomParser {
         return dimensionIndexValues;
     }
 
+    /**
+     * Dimension Index Sequence (0020,9222): meaning of each of the dimension index values,
+     * one entry per item so that entries stay aligned with the values
+     * -> Dimension Index Pointer (0020,9165)
+     * -> Functional Group Pointer (0020,9167)
+     * -> Dimension Organization UID (0020,9164)
+     * -> Dimension Description Label (0020,9421)
+     */
+    get dimensionIndexes(): DimensionIndex[] {
+        const sequence = this._dataSet.elements.x00209222;
+        const dimensionIndexes: DimensionIndex[] = [];
+
+        for (const item of sequence?.items ?? []) {
+            dimensionIndexes.push({
+                dimensionIndexPointer: item.dataSet?.attributeTag('x00209165') ?? null,
+                functionalGroupPointer: item.dataSet?.attributeTag('x00209167') ?? null,
+                dimensionOrganizationUID: item.dataSet?.string('x00209164') ?? null,
+                dimensionDescriptionLabel: item.dataSet?.string('x00209421') ?? null,
+            });
+        }
+
+        return dimensionIndexes;
+    }
+
     inStackPositionNumber(frameIndex: number = 0): number | null {
         let inStackPositionNumber: number | null = null;
 
@@ -611,6 +1028,11 @@ export default class DicomParser {
     }
 
     async extractPixelData(frameIndex = 0) {
+        if (frameIndex < 0 || frameIndex >= (this.numberOfFrames ?? 1)) {
+            const error = new Error(`parsers.dicom frame index out of range: ${frameIndex}`);
+            throw error;
+        }
+
         // decompress
         const decompressedData = await this._decodePixelData(frameIndex);
 
@@ -623,6 +1045,27 @@ export default class DicomParser {
         }
     }
 
+    /**
+     * Extract every frame of the range, in order, without re-parsing the file.
+     */
+    async extractAllFrames(range: FrameRange = {}, options: DecodeOptions = {}) {
+        const numberOfFrames = this.numberOfFrames ?? 1;
+        const start = Math.max(range.start ?? 0, 0);
+        const end = Math.min(range.end ?? numberOfFrames, numberOfFrames);
+
+        const frames: TypedArray[] = [];
+        for (let frameIndex = start; frameIndex < end; frameIndex++) {
+            options.signal?.throwIfAborted();
+            frames.push(await this.extractPixelData(frameIndex));
+            options.onProgress?.({
+                framesDecoded: frames.length,
+                totalFrames: Math.max(end - start, 0),
+            });
+        }
+
+        return frames;
+    }
+
     //
     // private methods
     //
@@ -680,8 +1123,187 @@ export default class DicomParser {
         return targetString;
     }
 
-    private _findStringInSequence(sequenceTag: string, tag: string): string | null {
-        const sequence = this._dataSet.elements[sequenceTag];
+    /**
+     * Shared or per-frame functional group holding the tag, else the dataset itself if it has the tag.
+     */
+    private _findDataSetEverywhere(subsequence: string, tag: string, index: number) {
+        const candidates = [
+            this._findInGroupSequence('x52009229', subsequence, 0),
+            this._findInGroupSequence('x52009230', subsequence, index),
+            this._dataSet,
+        ];
+
+        return candidates.find((dataSet) => dataSet?.elements[tag]) ?? null;
+    }
+
+    /**
+     * Per-frame or shared functional group holding the tag, whatever the functional group, else the dataset.
+     */
+    private _findDataSetByTag(tag: string, index: number): DataSet | null {
+        const groups = [
+            this._dataSet.elements.x52009230?.items?.[index]?.dataSet,
+            this._dataSet.elements.x52009229?.items?.[0]?.dataSet,
+        ];
+
+        for (const group of groups) {
+            for (const element of Object.values(group?.elements ?? {})) {
+                const dataSet = element.items?.[0]?.dataSet;
+                if (dataSet?.elements[tag]) {
+                    return dataSet;
+                }
+            }
+        }
+
+        return this._dataSet.elements[tag] ? this._dataSet : null;
+    }
+
+    /**
+     * Character set of a dataset: its own Specific Character Set, else the one of the
+     * item or dataset it is nested in
+     */
+    private _characterSet(dataSet: DataSet): string[] {
+        if (!this._characterSets) {
+            const map = new WeakMap<DataSet, string[]>();
+            const walk = (current: DataSet, inherited: string[]) => {
+                const characterSet = characterSets(current, inherited);
+                map.set(current, characterSet);
+
+                for (const element of Object.values(current.elements)) {
+                    for (const item of element.items ?? []) {
+                        if (item.dataSet) walk(item.dataSet, characterSet);
+                    }
+                }
+            };
+            walk(this._dataSet, []);
+            this._characterSets = map;
+        }
+
+        return (
+            this._characterSets.get(dataSet) ?? characterSets(dataSet, this.specificCharacterSet)
+        );
+    }
+
+    /**
+     * VR of an element: explicit in the file, else from the dictionary
+     */
+    private _valueRepresentation(element: Element, dictionaryVR?: string): string {
+        if (element.vr) return element.vr;
+        if (element.items) return 'SQ';
+        if (dictionaryVR === 'US or SS') return this.pixelRepresentation === 1 ? 'SS' : 'US';
+        if (dictionaryVR === 'OB or OW' || dictionaryVR === 'US or OW') return 'OW';
+
+        return dictionaryVR ?? 'UN';
+    }
+
+    private _readValue(dataSet: DataSet, tag: string): DicomValue {
+        const element = dataSet.elements[tag];
+        const entry = dictionaryEntry(tag);
+        const vr = this._valueRepresentation(element, entry?.vr);
+
+        if (!element.length && vr !== 'SQ') {
+            return null;
+        }
+
+        const numbers = (size: number, read: (index: number) => number | undefined) => {
+            const values: number[] = [];
+            for (let index = 0; index < Math.floor(element.length / size); index++) {
+                values.push(read(index) ?? 0);
+            }
+            return values;
+        };
+
+        let values: string[] | number[];
+        switch (vr) {
+            case 'SQ':
+                return (element.items ?? [])
+                    .map((item) => item.dataSet)
+                    .filter((item): item is DataSet => !!item);
+            case 'OB':
+            case 'OD':
+            case 'OF':
+            case 'OL':
+            case 'OV':
+            case 'OW':
+            case 'UN':
+                return dataSet.byteArray.subarray(
+                    element.dataOffset,
+                    element.dataOffset + element.length
+                );
+            case 'US':
+                values = numbers(2, (index) => dataSet.uint16(tag, index));
+                break;
+            case 'SS':
+                values = numbers(2, (index) => dataSet.int16(tag, index));
+                break;
+            case 'UL':
+                values = numbers(4, (index) => dataSet.uint32(tag, index));
+                break;
+            case 'SL':
+                values = numbers(4, (index) => dataSet.int32(tag, index));
+                break;
+            case 'FL':
+                values = numbers(4, (index) => dataSet.float(tag, index));
+                break;
+            case 'FD':
+                values = numbers(8, (index) => dataSet.double(tag, index));
+                break;
+            case 'AT':
+                // group and element of each tag as two 16 bit values
+                values = numbers(4, (index) => index).map(
+                    (index) =>
+                        'x' +
+                        [dataSet.uint16(tag, 2 * index), dataSet.uint16(tag, 2 * index + 1)]
+                            .map((value) => (value ?? 0).toString(16).padStart(4, '0'))
+                            .join('')
+                );
+                break;
+            case 'ST':
+            case 'LT':
+            case 'UT':
+                return this.string(tag, dataSet);
+            case 'UR':
+                return dataSet.text(tag) ?? null;
+            case 'PN':
+            case 'LO':
+            case 'SH':
+            case 'UC':
+                // split once decoded, multi-byte characters may contain a backslash byte
+                values = (this.string(tag, dataSet) ?? '').split('\\').map((value) => value.trim());
+                break;
+            default: {
+                const count = dataSet.numStringValues(tag) ?? 1;
+                const strings: string[] = [];
+                for (let index = 0; index < count; index++) {
+                    strings.push(dataSet.string(tag, index) ?? '');
+                }
+                values =
+                    vr === 'DS' || vr === 'IS'
+                        ? strings.filter((value) => value !== '').map(Number)
+                        : strings;
+            }
+        }
+
+        // single-valued attributes as scalars
+        if (values.length === 1 && (!entry || entry.vm === '1')) {
+            return values[0];
+        }
+
+        return values;
+    }
+
+    private _derivationImage(frameIndex: number) {
+        return (
+            this._findInGroupSequence('x52009230', 'x00089124', frameIndex) ||
+            this._findInGroupSequence('x52009229', 'x00089124', 0)
+        );
+    }
+
+    private _findStringInSequence(
+        sequenceTag: string,
+        tag: string,
+        dataSet: DataSet | null = this._dataSet
+    ): string | null {
+        const sequence = dataSet?.elements[sequenceTag];
         if (sequence?.items && sequence.items[0]?.dataSet) {
             return sequence.items[0].dataSet.string(tag) ?? null;
         }
@@ -718,22 +1340,32 @@ export default class DicomParser {
         );
     }
 
-    async _decodePixelData(_frameIndex = 0) {
-        // if compressed..?
+    async _decodePixelData(frameIndex = 0) {
         const transferSyntaxUID = this.transferSyntaxUID!;
-
         const pixelDataElement = this._dataSet.elements.x7fe00010;
-        const pixelData = new Uint8Array(
-            this._dataSet.byteArray.buffer,
-            pixelDataElement.dataOffset,
-            pixelDataElement.length
-        );
+
+        if (!pixelDataElement) {
+            const error = new Error('parsers.dicom could not find pixel data');
+            throw error;
+        }
+
         const bitsAllocated = this.bitsAllocated!;
         const columns = this.columns!;
         const rows = this.rows!;
         const samplesPerPixel = this.samplesPerPixel!;
         const signed = this.pixelRepresentation === 1 ? true : false;
-        // find compression scheme
+
+        // native transfer syntaxes: the frame is a plain slice of the pixel data
+        if (!pixelDataElement.encapsulatedPixelData) {
+            const imageFrame = this._getNativeImageFrame(frameIndex);
+
+            return bitsAllocated === 1
+                ? this._unpackBits(imageFrame, frameIndex)
+                : this._toPixelArray(imageFrame);
+        }
+
+        // compressed transfer syntaxes: one frame is one or more fragments
+        const pixelData = this.getEncapsulatedImageFrame(frameIndex) as Uint8Array;
 
         const { imageFrame } = await decode(
             pixelData,
@@ -741,12 +1373,110 @@ export default class DicomParser {
             transferSyntaxUID
         );
 
+        return this._toPixelArray(imageFrame);
+    }
+
+    /**
+     * Bytes of a single frame of native (uncompressed) pixel data.
+     * The frame is copied so that the returned buffer is aligned and
+     * does not keep the whole file alive.
+     */
+    private _getNativeImageFrame(frameIndex: number) {
+        const pixelDataElement = this._dataSet.elements.x7fe00010;
+        // native 4:2:2 data stores 2 samples per pixel: Y0 Y1 Cb Cr for 2 pixels
+        const samplesPerPixel = this._isChromaSubsampled() ? 2 : this.samplesPerPixel!;
+        const bitsPerFrame = this.rows! * this.columns! * samplesPerPixel * this.bitsAllocated!;
+
+        // 1 bit frames are packed and do not have to start on a byte boundary
+        const frameStart = Math.floor((frameIndex * bitsPerFrame) / 8);
+        const frameEnd = Math.ceil(((frameIndex + 1) * bitsPerFrame) / 8);
+
+        if (frameEnd > pixelDataElement.length) {
+            const error = new Error(
+                `parsers.dicom pixel data is too short for frame ${frameIndex}`
+            );
+            throw error;
+        }
+
+        const byteArray = this._dataSet.byteArray;
+        const offset = byteArray.byteOffset + pixelDataElement.dataOffset + frameStart;
+        const imageFrame = new Uint8Array(
+            byteArray.buffer.slice(offset, offset + frameEnd - frameStart)
+        );
+
+        // Explicit VR Big Endian
+        if (this.transferSyntaxUID === '1.2.840.10008.1.2.2' && this.bitsAllocated! > 8) {
+            const bytesPerSample = this.bitsAllocated! / 8;
+            for (let i = 0; i < imageFrame.length; i += bytesPerSample) {
+                imageFrame.subarray(i, i + bytesPerSample).reverse();
+            }
+        }
+
         return imageFrame;
     }
 
+    /**
+     * 1 bit pixels (e.g. BINARY segmentations) to one byte per pixel.
+     * Bits are stored least significant first and frames are not byte aligned.
+     */
+    private _unpackBits(imageFrame: Uint8Array, frameIndex: number) {
+        const numberOfPixels = this.rows! * this.columns! * this.samplesPerPixel!;
+        const bitOffset = (frameIndex * numberOfPixels) % 8;
+        const pixels = new Uint8Array(numberOfPixels);
+
+        for (let i = 0; i < numberOfPixels; i++) {
+            const bit = bitOffset + i;
+            pixels[i] = (imageFrame[bit >> 3] >> (bit & 7)) & 1;
+        }
+
+        return pixels;
+    }
+
+    /**
+     * Codecs do not agree on their output type (bytes or samples):
+     * view the decoded frame as one typed array element per sample.
+     */
+    private _toPixelArray(imageFrame: TypedArray): TypedArray {
+        const bitsAllocated = this.bitsAllocated!;
+        const signed = this.pixelRepresentation === 1;
+
+        if (!(imageFrame instanceof Uint8Array || imageFrame instanceof Int8Array)) {
+            return imageFrame;
+        }
+
+        if (bitsAllocated === 8) {
+            return signed
+                ? new Int8Array(imageFrame.buffer, imageFrame.byteOffset, imageFrame.length)
+                : new Uint8Array(imageFrame.buffer, imageFrame.byteOffset, imageFrame.length);
+        }
+
+        if (bitsAllocated !== 16 && bitsAllocated !== 32) {
+            return imageFrame;
+        }
+
+        let buffer = imageFrame.buffer;
+        let byteOffset = imageFrame.byteOffset;
+        const bytesPerSample = bitsAllocated / 8;
+        if (byteOffset % bytesPerSample) {
+            buffer = buffer.slice(byteOffset, byteOffset + imageFrame.byteLength);
+            byteOffset = 0;
+        }
+        const length = imageFrame.byteLength / bytesPerSample;
+
+        if (bitsAllocated === 16) {
+            return signed
+                ? new Int16Array(buffer, byteOffset, length)
+                : new Uint16Array(buffer, byteOffset, length);
+        }
+
+        return signed
+            ? new Int32Array(buffer, byteOffset, length)
+            : new Uint32Array(buffer, byteOffset, length);
+    }
+
     // github.com/chafey/cornerstoneWADOImageLoader/blob/master/src/imageLoader/wadouri/getEncapsulatedImageFrame.js
     framesAreFragmented() {
-        const numberOfFrames = this._dataSet.intString('x00280008');
+        const numberOfFrames = this.numberOfFrames ?? 1;
         const pixelDataElement = this._dataSet.elements.x7fe00010;
 
         return numberOfFrames !== pixelDataElement?.fragments?.length;
@@ -765,6 +1495,16 @@ export default class DicomParser {
             );
         }
 
+        if (this.framesAreFragmented() && (this.numberOfFrames ?? 1) === 1) {
+            // Single frame split over several fragments
+            return readEncapsulatedPixelDataFromFragments(
+                this._dataSet,
+                this._dataSet.elements.x7fe00010,
+                0,
+                this._dataSet.elements.x7fe00010.fragments?.length
+            );
+        }
+
         if (this.framesAreFragmented()) {
             // Basic Offset Table is empty
             return readEncapsulatedImageFrame(
@@ -782,85 +1522,352 @@ export default class DicomParser {
         );
     }
 
+    private _paletteColorLookupTable(
+        descriptorTag: string,
+        dataTag: string,
+        segmentedDataTag: string
+    ): PaletteColorLookupTable | null {
+        if (!this._dataSet.elements[descriptorTag]) {
+            return null;
+        }
+
+        // https://dicom.nema.org/medical/dicom/current/output/chtml/part03/sect_C.7.6.3.html#sect_C.7.6.3.1.5
+        // 0 entries means 2^16, first mapped value follows the pixel representation
+        const numberOfEntries = this._dataSet.uint16(descriptorTag, 0) || 65536;
+        const firstMappedValue =
+            this.pixelRepresentation === 1
+                ? this._dataSet.int16(descriptorTag, 1) ?? 0
+                : this._dataSet.uint16(descriptorTag, 1) ?? 0;
+        const bitsPerEntry = this._dataSet.uint16(descriptorTag, 2) ?? 16;
+
+        let data: Uint8Array | Uint16Array | null = null;
+        if (this._dataSet.elements[dataTag]) {
+            data = this._readLookupTableData(dataTag, numberOfEntries, bitsPerEntry);
+        } else if (this._dataSet.elements[segmentedDataTag]) {
+            data = this._expandSegmentedLookupTable(
+                this._readLookupTableData(segmentedDataTag, 0, 16),
+                numberOfEntries
+            );
+        }
+
+        if (!data) {
+            return null;
+        }
+
+        return { numberOfEntries, firstMappedValue, bitsPerEntry, data };
+    }
+
+    /**
+     * Modality or VOI lookup table item
+     * -> LUT Descriptor (0028,3002)
+     * -> LUT Explanation (0028,3003)
+     * -> LUT Data (0028,3006)
+     */
+    private _lookupTable(dataSet: DataSet, signed: boolean): LookupTable | null {
+        const descriptor = dataSet.elements.x00283002;
+        if (!descriptor || !dataSet.elements.x00283006) {
+            return null;
+        }
+
+        // the first mapped value is SS when the input can be negative
+        const numberOfEntries = dataSet.uint16('x00283002', 0) || 65536;
+        const firstMappedValue =
+            descriptor.vr === 'SS' || (!descriptor.vr && signed)
+                ? dataSet.int16('x00283002', 1) ?? 0
+                : dataSet.uint16('x00283002', 1) ?? 0;
+        const bitsPerEntry = dataSet.uint16('x00283002', 2) ?? 16;
+
+        return {
+            numberOfEntries,
+            firstMappedValue,
+            bitsPerEntry,
+            data: this._readLookupTableData('x00283006', numberOfEntries, bitsPerEntry, dataSet),
+            explanation: dataSet.string('x00283003') ?? null,
+        };
+    }
+
+    /**
+     * Lookup table data is OW: 8 bit entries are usually packed two per word,
+     * some writers store them one per word.
+     */
+    private _readLookupTableData(
+        tag: string,
+        numberOfEntries: number,
+        bitsPerEntry: number,
+        dataSet = this._dataSet
+    ) {
+        const element = dataSet.elements[tag];
+        const numberOfWords = element.length / 2;
+
+        if (bitsPerEntry <= 8 && element.length < numberOfEntries * 2) {
+            return dataSet.byteArray.slice(
+                element.dataOffset,
+                element.dataOffset + numberOfEntries
+            ) as Uint8Array;
+        }
+
+        const words = new Uint16Array(numberOfWords);
+        for (let i = 0; i < numberOfWords; i++) {
+            words[i] = dataSet.uint16(tag, i) ?? 0;
+        }
+
+        return bitsPerEntry <= 8 ? Uint8Array.from(words) : words;
+    }
+
+    /**
+     * Segmented palette color lookup table
+     * https://dicom.nema.org/medical/dicom/current/output/chtml/part03/sect_C.7.9.2.html
+     */
+    private _expandSegmentedLookupTable(
+        segments: Uint8Array | Uint16Array,
+        numberOfEntries: number
+    ) {
+        const lut: number[] = [];
+        // indirect segments being replayed, a segment replaying itself never ends
+        const replaying = new Set<number>();
+
+        // words of a segment: opcode, length, then the values, y1 or the offset
+        const segmentLength = (offset: number) => {
+            const opcode = segments[offset];
+            return opcode === 0 ? 2 + segments[offset + 1] : opcode === 1 ? 3 : 4;
+        };
+
+        const expand = (start: number, end: number) => {
+            let offset = start;
+
+            while (offset < end && lut.length < numberOfEntries) {
+                const opcode = segments[offset];
+                const length = segments[offset + 1];
+
+                if (opcode === 0) {
+                    // discrete segment
+                    for (let i = 0; i < length; i++) {
+                        lut.push(segments[offset + 2 + i]);
+                    }
+                    offset += 2 + length;
+                } else if (opcode === 1) {
+                    // linear segment, from the last value to y1
+                    const y0 = lut.length ? lut[lut.length - 1] : 0;
+                    const y1 = segments[offset + 2];
+                    for (let i = 1; i <= length; i++) {
+                        lut.push(Math.round(y0 + ((y1 - y0) * i) / length));
+                    }
+                    offset += 3;
+                } else if (opcode === 2) {
+                    // indirect segment: replay `length` segments from a word offset,
+                    // indirect segments among them included
+                    if (replaying.has(offset)) {
+                        const error = new Error(
+                            `parsers.dicom segmented lookup table indirect segment at word ${offset} replays itself`
+                        );
+                        throw error;
+                    }
+                    replaying.add(offset);
+
+                    let replayed = segments[offset + 2] + (segments[offset + 3] << 16);
+                    for (let i = 0; i < length && replayed < segments.length; i++) {
+                        const replayedLength = segmentLength(replayed);
+                        expand(replayed, replayed + replayedLength);
+                        replayed += replayedLength;
+                    }
+
+                    replaying.delete(offset);
+                    offset += 4;
+                } else {
+                    const error = new Error(`Unsupported segmented lookup table opcode: ${opcode}`);
+                    throw error;
+                }
+            }
+        };
+
+        expand(0, segments.length);
+
+        return Uint16Array.from(lut.slice(0, numberOfEntries));
+    }
+
+    private _applyPaletteColorLookupTables(uncompressedData: TypedArray) {
+        const lookupTables = this.paletteColorLookupTables;
+
+        if (!lookupTables) {
+            const error = new Error('parsers.dicom palette color lookup tables are missing');
+            throw error;
+        }
+
+        const { red, green, blue } = lookupTables;
+        const sixteenBits = [red, green, blue].some((lut) => lut.bitsPerEntry > 8);
+        const rgbData = sixteenBits
+            ? new Uint16Array(uncompressedData.length * 3)
+            : new Uint8Array(uncompressedData.length * 3);
+
+        const lookup = (lut: PaletteColorLookupTable, value: number) => {
+            const index = Math.min(Math.max(value - lut.firstMappedValue, 0), lut.data.length - 1);
+
+            return lut.data[index];
+        };
+
+        let rgbIndex = 0;
+        for (let i = 0; i < uncompressedData.length; i++) {
+            const value = uncompressedData[i];
+            rgbData[rgbIndex++] = lookup(red, value);
+            rgbData[rgbIndex++] = lookup(green, value);
+            rgbData[rgbIndex++] = lookup(blue, value);
+        }
+
+        return rgbData;
+    }
+
+    /**
+     * Whether the decoded data is already RGB, either stored as RGB
+     * or converted by the codec while decoding.
+     */
     _interpretAsRGB(photometricInterpretation: string) {
-        const rgbLikeTypes = ['RGB', 'YBR_RCT', 'YBR_ICT', 'YBR_FULL_422'];
+        if (photometricInterpretation === 'RGB') {
+            return true;
+        }
+
+        // JPEG 2000 decoders apply the inverse reversible / irreversible color transform
+        if (photometricInterpretation === 'YBR_RCT' || photometricInterpretation === 'YBR_ICT') {
+            return true;
+        }
+
+        // JPEG baseline and extended decoders convert YCbCr to RGB
+        const jpegLossy = ['1.2.840.10008.1.2.4.50', '1.2.840.10008.1.2.4.51'];
 
-        return rgbLikeTypes.indexOf(photometricInterpretation) !== -1;
+        return (
+            this._isEncapsulated() &&
+            jpegLossy.indexOf(this.transferSyntaxUID ?? '') !== -1 &&
+            photometricInterpretation.startsWith('YBR_')
+        );
     }
 
     _convertColorSpace(uncompressedData: TypedArray) {
-        let rgbData = null;
         const photometricInterpretation = this.photometricInterpretation;
+
+        // one sample per pixel, mapped through the lookup tables
+        if (photometricInterpretation === 'PALETTE COLOR') {
+            return this._applyPaletteColorLookupTables(uncompressedData);
+        }
+
         let planarConfiguration = this.planarConfiguration;
         if (planarConfiguration === null) {
             planarConfiguration = 0;
-            window.console.log('Planar Configuration was not set and was defaulted to  0');
-        }
-
-        const interpretAsRGB = photometricInterpretation
-            ? this._interpretAsRGB(photometricInterpretation)
-            : false;
-
-        if (interpretAsRGB && planarConfiguration === 0) {
-            // ALL GOOD, ALREADY ORDERED
-            // planar or non planar planarConfiguration
-            rgbData = uncompressedData;
-        } else if (interpretAsRGB && planarConfiguration === 1) {
-            if (uncompressedData instanceof Int8Array) {
-                rgbData = new Int8Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Uint8Array) {
-                rgbData = new Uint8Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Int16Array) {
-                rgbData = new Int16Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Uint16Array) {
-                rgbData = new Uint16Array(uncompressedData.length);
-            } else {
-                const error = new Error(`Unsupported typed array: ${uncompressedData}`);
-                throw error;
-            }
+            console.log('Planar Configuration was not set and was defaulted to  0');
+        }
 
-            let numPixels = uncompressedData.length / 3;
-            let rgbaIndex = 0;
-            let rIndex = 0;
-            let gIndex = numPixels;
-            let bIndex = numPixels * 2;
-            for (let i = 0; i < numPixels; i++) {
-                rgbData[rgbaIndex++] = uncompressedData[rIndex++]; // red
-                rgbData[rgbaIndex++] = uncompressedData[gIndex++]; // green
-                rgbData[rgbaIndex++] = uncompressedData[bIndex++]; // blue
-            }
-        } else if (photometricInterpretation === 'YBR_FULL') {
-            if (uncompressedData instanceof Int8Array) {
-                rgbData = new Int8Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Uint8Array) {
-                rgbData = new Uint8Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Int16Array) {
-                rgbData = new Int16Array(uncompressedData.length);
-            } else if (uncompressedData instanceof Uint16Array) {
-                rgbData = new Uint16Array(uncompressedData.length);
-            } else {
-                const error = new Error(`unsuported typed array: ${uncompressedData}`);
+        // codecs always return interleaved samples, only native data can be planar
+        const planar = planarConfiguration === 1 && !this._isEncapsulated();
+
+        if (photometricInterpretation && this._interpretAsRGB(photometricInterpretation)) {
+            return planar ? this._interleave(uncompressedData) : uncompressedData;
+        }
+
+        let ybrData = uncompressedData;
+        if (this._isChromaSubsampled()) {
+            ybrData = this._upsampleChroma(uncompressedData);
+        } else if (planar) {
+            ybrData = this._interleave(uncompressedData);
+        }
+
+        switch (photometricInterpretation) {
+            case 'YBR_FULL':
+            case 'YBR_FULL_422':
+                return this._convertYBRToRGB(ybrData, false);
+            case 'YBR_PARTIAL_422':
+            case 'YBR_PARTIAL_420':
+                return this._convertYBRToRGB(ybrData, true);
+            default: {
+                const error = new Error(
+                    `photometric interpolation not supported: ${photometricInterpretation}`
+                );
                 throw error;
             }
+        }
+    }
 
-            // https://github.com/chafey/cornerstoneWADOImageLoader/blob/master/src/decodeYBRFull.js
-            let nPixels = uncompressedData.length / 3;
-            let ybrIndex = 0;
-            let rgbaIndex = 0;
-            for (let i = 0; i < nPixels; i++) {
-                let y = uncompressedData[ybrIndex++];
-                let cb = uncompressedData[ybrIndex++];
-                let cr = uncompressedData[ybrIndex++];
-                rgbData[rgbaIndex++] = y + 1.402 * (cr - 128); // red
-                rgbData[rgbaIndex++] = y - 0.34414 * (cb - 128) - 0.71414 * (cr - 128); // green
-                rgbData[rgbaIndex++] = y + 1.772 * (cb - 128); // blue
-                // rgbData[rgbaIndex++] = 255; //alpha
-            }
-        } else {
-            const error = new Error(
-                `photometric interpolation not supported: ${photometricInterpretation}`
-            );
-            throw error;
+    private _isEncapsulated() {
+        return !!this._dataSet.elements.x7fe00010?.encapsulatedPixelData;
+    }
+
+    /**
+     * Native YBR_FULL_422 / YBR_PARTIAL_422 data shares one Cb Cr pair between 2 pixels.
+     */
+    private _isChromaSubsampled() {
+        const photometricInterpretation = this.photometricInterpretation;
+
+        return (
+            !this._isEncapsulated() &&
+            (photometricInterpretation === 'YBR_FULL_422' ||
+                photometricInterpretation === 'YBR_PARTIAL_422')
+        );
+    }
+
+    /**
+     * RRR...GGG...BBB... to RGBRGBRGB...
+     */
+    private _interleave(planarData: TypedArray) {
+        const interleavedData = new (planarData.constructor as TypedArrayConstructor)(
+            planarData.length
+        );
+
+        const numPixels = planarData.length / 3;
+        let index = 0;
+        for (let i = 0; i < numPixels; i++) {
+            interleavedData[index++] = planarData[i];
+            interleavedData[index++] = planarData[i + numPixels];
+            interleavedData[index++] = planarData[i + numPixels * 2];
+        }
+
+        return interleavedData;
+    }
+
+    /**
+     * Y0 Y1 Cb Cr to Y0 Cb Cr Y1 Cb Cr
+     */
+    private _upsampleChroma(subsampledData: TypedArray) {
+        const ybrData = new (subsampledData.constructor as TypedArrayConstructor)(
+            (subsampledData.length / 4) * 6
+        );
+
+        let index = 0;
+        for (let i = 0; i < subsampledData.length; i += 4) {
+            const cb = subsampledData[i + 2];
+            const cr = subsampledData[i + 3];
+            ybrData[index++] = subsampledData[i];
+            ybrData[index++] = cb;
+            ybrData[index++] = cr;
+            ybrData[index++] = subsampledData[i + 1];
+            ybrData[index++] = cb;
+            ybrData[index++] = cr;
+        }
+
+        return ybrData;
+    }
+
+    /**
+     * Interleaved YCbCr to RGB
+     * https://dicom.nema.org/medical/dicom/current/output/chtml/part03/sect_C.7.6.3.html#sect_C.7.6.3.1.2
+     * Partial range data (Y in 16-235, Cb Cr in 16-240 for 8 bits) is stretched to full range first.
+     */
+    private _convertYBRToRGB(ybrData: TypedArray, partialRange: boolean) {
+        const rgbData = new (ybrData.constructor as TypedArrayConstructor)(ybrData.length);
+
+        const maxValue = 2 ** (this.bitsAllocated ?? 8) - 1;
+        const half = (maxValue + 1) / 2;
+        const scale = (maxValue + 1) / 256;
+        const yOffset = partialRange ? 16 * scale : 0;
+        const yGain = partialRange ? 255 / 219 : 1;
+        const cGain = partialRange ? 255 / 224 : 1;
+
+        const clamp = (value: number) => Math.min(Math.max(Math.round(value), 0), maxValue);
+
+        for (let i = 0; i < ybrData.length; i += 3) {
+            const y = (ybrData[i] - yOffset) * yGain;
+            const cb = (ybrData[i + 1] - half) * cGain;
+            const cr = (ybrData[i + 2] - half) * cGain;
+
+            rgbData[i] = clamp(y + 1.402 * cr); // red
+            rgbData[i + 1] = clamp(y - 0.344136 * cb - 0.714136 * cr); // green
+            rgbData[i + 2] = clamp(y + 1.772 * cb); // blue
         }
 
         return rgbData;
@@ -889,4 +1896,49 @@ export default class DicomParser {
 
         return units[value] ?? 'none';
     }
+
+    private _getRegionSpatialFormatName(value: number): string {
+        const formats: Record<number, string> = {
+            0: 'none',
+            1: '2D',
+            2: 'M-Mode',
+            3: 'spectral',
+            4: 'waveform',
+            5: 'graphics',
+        };
+
+        return formats[value] ?? 'none';
+    }
+
+    /**
+     * Region Data Type (0018,6014), PS3.3 C.8.5.5.1.2
+     */
+    private _getRegionDataTypeName(value: number | undefined): string | null {
+        if (value === undefined) {
+            return null;
+        }
+
+        const dataTypes: Record<number, string> = {
+            0x00: 'none',
+            0x01: 'tissue',
+            0x02: 'color flow',
+            0x03: 'PW spectral Doppler',
+            0x04: 'CW spectral Doppler',
+            0x05: 'Doppler mean trace',
+            0x06: 'Doppler mode trace',
+            0x07: 'Doppler max trace',
+            0x08: 'volume trace',
+            0x0a: 'ECG trace',
+            0x0b: 'pulse trace',
+            0x0c: 'phonocardiogram trace',
+            0x0d: 'gray bar',
+            0x0e: 'color bar',
+            0x0f: 'integrated backscatter',
+            0x10: 'area trace',
+            0x11: 'd(area)/dt trace',
+            0x12: 'other physiological input',
+        };
+
+        return dataTypes[value] ?? 'reserved';
+    }
 }
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseDicomJSON, toDicomJSON } from './parser.json.ts';
+import type { DicomJSON } from './parser.json.ts';
+
+describe('toDicomJSON and parseDicomJSON', () => {
+    const json: DicomJSON = {
+        '00080005': { vr: 'CS', Value: ['ISO_IR 100'] },
+        '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+        '00080018': { vr: 'UI', Value: ['1.2.3.4'] },
+        '00082112': {
+            vr: 'SQ',
+            Value: [
+                {
+                    '00081155': { vr: 'UI', Value: ['1.2.3.1'] },
+                    '00100010': {
+                        vr: 'PN',
+                        Value: [{ Alphabetic: 'Doe^Jane', Phonetic: 'dou^jein' }],
+                    },
+                    '00420011': { vr: 'OB', BulkDataURI: 'x00082112/x00420011' },
+                },
+            ],
+        },
+        '00100010': {
+            vr: 'PN',
+            Value: [
+                { Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎', Phonetic: 'やまだ^たろう' },
+            ],
+        },
+        '00209165': { vr: 'AT', Value: ['0020000D', '00280010'] },
+        '00280010': { vr: 'US', Value: [2] },
+        '7FE00010': { vr: 'OB', InlineBinary: 'AQIDBA==' },
+    };
+
+    it('round-trips names, tags, sequences and binary values', () => {
+        const bulkData = new Map([['x00082112/x00420011', new Uint8Array([1, 2, 3, 4, 5, 6])]]);
+
+        const dicomParser = parseDicomJSON(json, { bulkData: (uri) => bulkData.get(uri) ?? null });
+        const exported = toDicomJSON(dicomParser, {
+            // 4 bytes stay inline, 6 bytes go to bulk data
+            bulkDataThreshold: 4,
+            bulkDataURI: (tag, path) => [...path, tag].join('/'),
+        });
+
+        expect(exported).toEqual({
+            ...json,
+            // the values are stored in UTF-8 whatever the source character set
+            '00080005': { vr: 'CS', Value: ['ISO_IR 192'] },
+        });
+        expect(dicomParser.string('x00100010')).toBe('Yamada^Tarou=山田^太郎=やまだ^たろう');
+    });
+
+    it('keeps small bulk data inline and leaves out values without URI', () => {
+        const dicomParser = parseDicomJSON(json, {
+            bulkData: () => new Uint8Array([1, 2, 3, 4, 5, 6]),
+        });
+
+        const exported = toDicomJSON(dicomParser, { bulkDataThreshold: 6 });
+        expect(exported['00082112'].Value).toEqual([
+            expect.objectContaining({ '00420011': { vr: 'OB', InlineBinary: 'AQIDBAUG' } }),
+        ]);
+
+        const withoutURI = toDicomJSON(dicomParser, { bulkDataThreshold: 2 });
+        expect(withoutURI['7FE00010']).toEqual({ vr: 'OB' });
+    });
+});
@@ -0,0 +1,231 @@
+import type { DataSet, Element } from 'dicom-parser';
+import { dictionaryEntry } from './core.dictionary.ts';
+import MutableDataSet from './model.dataset.ts';
+import DicomParser from './parser.dicom.ts';
+import { EXPLICIT_VR_LITTLE_ENDIAN, writeDicom } from './writer.dicom.ts';
+
+/**
+ * Attribute of the DICOM JSON Model (PS3.18 F.2)
+ */
+export interface DicomJSONAttribute {
+    vr: string;
+    Value?: (string | number | DicomJSONPersonName | DicomJSON)[];
+    InlineBinary?: string;
+    BulkDataURI?: string;
+}
+
+export interface DicomJSONPersonName {
+    Alphabetic?: string;
+    Ideographic?: string;
+    Phonetic?: string;
+}
+
+export type DicomJSON = Record<string, DicomJSONAttribute>;
+
+export interface DicomJSONOptions {
+    /** Binary values longer than this (in bytes) are referenced by BulkDataURI, defaults to 1024 */
+    bulkDataThreshold?: number;
+    /** URI of a bulk data value, the value is left out when there is none */
+    bulkDataURI?: (tag: string, path: string[]) => string | null;
+    /** Include the File Meta Information (group 0002), left out by default */
+    includeMetaHeader?: boolean;
+}
+
+export interface DicomJSONImportOptions {
+    /** Bytes behind a BulkDataURI, the value is left empty when there are none */
+    bulkData?: (uri: string) => Uint8Array | null;
+}
+
+const BINARY_VRS = ['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'UN'];
+const NUMBER_VRS = ['DS', 'FD', 'FL', 'IS', 'SL', 'SS', 'SV', 'UL', 'US', 'UV'];
+const TEXT_VRS = ['LT', 'ST', 'UR', 'UT'];
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+const valueRepresentation = (element: Element, signed: boolean) => {
+    if (element.vr) return element.vr;
+    if (element.items) return 'SQ';
+
+    const vr = dictionaryEntry(element.tag)?.vr;
+    if (vr === 'US or SS') return signed ? 'SS' : 'US';
+    if (vr === 'OB or OW' || vr === 'US or OW') return 'OW';
+
+    return vr ?? 'UN';
+};
+
+const exportDataSet = (
+    dicomParser: DicomParser,
+    dataSet: DataSet,
+    options: DicomJSONOptions,
+    path: string[]
+): DicomJSON => {
+    const json: DicomJSON = {};
+    const signed = dicomParser.pixelRepresentation === 1;
+    const threshold = options.bulkDataThreshold ?? 1024;
+
+    for (const tag of Object.keys(dataSet.elements).sort()) {
+        if (tag.startsWith('x0002') && !options.includeMetaHeader) continue;
+
+        const element = dataSet.elements[tag];
+        const vr = valueRepresentation(element, signed);
+        const attribute: DicomJSONAttribute = { vr };
+        json[tag.slice(1).toUpperCase()] = attribute;
+
+        if (vr === 'SQ') {
+            attribute.Value = (element.items ?? []).map((item) =>
+                item.dataSet
+                    ? exportDataSet(dicomParser, item.dataSet, options, [...path, tag])
+                    : {}
+            );
+            continue;
+        }
+
+        if (!element.length) continue;
+
+        if (BINARY_VRS.includes(vr) || element.encapsulatedPixelData) {
+            if (element.length > threshold) {
+                const uri = options.bulkDataURI?.(tag, path);
+                if (uri) attribute.BulkDataURI = uri;
+            } else {
+                attribute.InlineBinary = toBase64(
+                    dataSet.byteArray.subarray(
+                        element.dataOffset,
+                        element.dataOffset + element.length
+                    )
+                );
+            }
+            continue;
+        }
+
+        const value = dicomParser.read(tag, dataSet);
+
+        if (vr === 'PN') {
+            const names = (Array.isArray(value) ? value : [value]) as string[];
+            attribute.Value = names.map((name) => {
+                const [Alphabetic, Ideographic, Phonetic] = (name ?? '').split('=');
+                return Object.fromEntries(
+                    Object.entries({ Alphabetic, Ideographic, Phonetic }).filter(
+                        ([, group]) => group
+                    )
+                );
+            });
+        } else if (vr === 'AT') {
+            const tags = (Array.isArray(value) ? value : [value]) as string[];
+            attribute.Value = tags.map((attributeTag) => attributeTag.slice(1).toUpperCase());
+        } else if (value !== null) {
+            attribute.Value = (Array.isArray(value) ? value : [value]) as (string | number)[];
+            if (TEXT_VRS.includes(vr)) {
+                attribute.Value = [String(value)];
+            }
+        }
+    }
+
+    return json;
+};
+
+/**
+ * Dataset of a parser to the DICOM JSON Model (PS3.18 Annex F)
+ */
+export const toDicomJSON = (dicomParser: DicomParser, options: DicomJSONOptions = {}) =>
+    exportDataSet(dicomParser, dicomParser.rawHeader, options, []);
+
+const importDataSet = (
+    dataSet: MutableDataSet,
+    json: DicomJSON,
+    options: DicomJSONImportOptions
+) => {
+    for (const [key, attribute] of Object.entries(json)) {
+        // JSON strings are Unicode, the dataset is written in UTF-8 whatever the source had
+        if (key === '00080005') continue;
+
+        const tag = `x${key.toLowerCase()}`;
+        const { vr } = attribute;
+        const values = attribute.Value ?? [];
+
+        if (vr === 'SQ') {
+            dataSet.setSequence(
+                tag,
+                (values as DicomJSON[]).map((item) => {
+                    const itemDataSet = new MutableDataSet();
+                    itemDataSet.inheritedCharacterSet = ['ISO_IR 192'];
+                    return importDataSet(itemDataSet, item, options);
+                })
+            );
+        } else if (attribute.InlineBinary !== undefined) {
+            dataSet.setBytes(tag, fromBase64(attribute.InlineBinary), vr);
+        } else if (attribute.BulkDataURI !== undefined) {
+            dataSet.setBytes(
+                tag,
+                options.bulkData?.(attribute.BulkDataURI) ?? new Uint8Array(),
+                vr
+            );
+        } else if (!values.length) {
+            dataSet.setBytes(tag, new Uint8Array(), vr);
+        } else if (vr === 'PN') {
+            dataSet.setString(
+                tag,
+                (values as DicomJSONPersonName[]).map((name) =>
+                    [name.Alphabetic ?? '', name.Ideographic ?? '', name.Phonetic ?? '']
+                        .join('=')
+                        .replace(/=+$/, '')
+                ),
+                vr
+            );
+        } else if (vr === 'AT') {
+            dataSet.setNumbers(
+                tag,
+                (values as string[]).flatMap((value) => [
+                    parseInt(value.slice(0, 4), 16),
+                    parseInt(value.slice(4, 8), 16),
+                ]),
+                vr
+            );
+        } else if (NUMBER_VRS.includes(vr)) {
+            dataSet.setNumbers(tag, values as number[], vr);
+        } else {
+            dataSet.setString(
+                tag,
+                (values as (string | number | null)[]).map((value) =>
+                    value === null ? '' : String(value)
+                ),
+                vr
+            );
+        }
+    }
+
+    return dataSet;
+};
+
+/**
+ * Mutable dataset from the DICOM JSON Model. Strings are stored as UTF-8 (ISO_IR 192).
+ */
+export const fromDicomJSON = (json: DicomJSON, options: DicomJSONImportOptions = {}) => {
+    const dataSet = new MutableDataSet();
+    dataSet.inheritedCharacterSet = ['ISO_IR 192'];
+
+    importDataSet(dataSet, json, options);
+    dataSet.setString('x00080005', 'ISO_IR 192', 'CS');
+
+    return dataSet;
+};
+
+/**
+ * Parser of an instance described in DICOM JSON, e.g. WADO-RS metadata, to inspect it with
+ * the same accessors as a file
+ */
+export const parseDicomJSON = (json: DicomJSON, options: DicomJSONImportOptions = {}) => {
+    const dataSet = fromDicomJSON(json, options);
+
+    // the JSON Model has no transfer syntax, the values are written as they come
+    const bytes = writeDicom(dataSet, { transferSyntaxUID: EXPLICIT_VR_LITTLE_ENDIAN });
+
+    return new DicomParser({ buffer: bytes.buffer });
+};
@@ -0,0 +1,465 @@
+import { describe, expect, it, vi } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import { preloadFiles, preloadHierarchy, scanFile } from './preloader.ts';
+import type { LoadProgress } from './preloader.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+const dicomFile = (
+    name: string,
+    sopInstanceUID: string,
+    attributes: (dataSet: MutableDataSet) => void = () => {}
+) => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+    dataSet.setString('SOPInstanceUID', sopInstanceUID);
+    dataSet.setString('StudyInstanceUID', '1.2.3');
+    dataSet.setString('SeriesInstanceUID', '1.2.3.1');
+    dataSet.setString('PatientName', 'Doe^John');
+    dataSet.setString('Modality', 'CT', 'CS');
+    attributes(dataSet);
+
+    return new File([writeDicom(dataSet)], name);
+};
+
+/**
+ * DICOMDIR with one image record, hierarchy from the order of the records
+ */
+const dicomDir = (referencedFileID: string) => {
+    const record = (type: string, fields: Record<string, string> = {}) => {
+        const item = new MutableDataSet();
+        item.setString('x00041430', type, 'CS');
+        for (const [tag, value] of Object.entries(fields)) {
+            item.setString(tag, value, tag === 'x00041500' ? 'CS' : 'UI');
+        }
+        return item;
+    };
+
+    const dataSet = new MutableDataSet();
+    dataSet.setString('x00020002', '1.2.840.10008.1.3.10', 'UI');
+    dataSet.setString('x00020003', '1.2.3.9', 'UI');
+    dataSet.setSequence('x00041220', [
+        record('PATIENT'),
+        record('STUDY', { x0020000d: '1.2.3' }),
+        record('SERIES', { x0020000e: '1.2.3.1' }),
+        record('IMAGE', { x00041500: referencedFileID, x00041511: '1.2.3.1.1' }),
+    ]);
+
+    return new File([writeDicom(dataSet)], 'DICOMDIR');
+};
+
+/**
+ * Archive of stored entries
+ */
+const storedZip = async (name: string, entries: File[]) => {
+    const encoder = new TextEncoder();
+    const chunks: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const path = encoder.encode(entry.name);
+        const data = new Uint8Array(await entry.arrayBuffer());
+
+        const local = new Uint8Array(30 + path.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, path.length, true);
+        local.set(path, 30);
+
+        const record = new Uint8Array(46 + path.length);
+        const view = new DataView(record.buffer);
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint32(20, data.length, true);
+        view.setUint32(24, data.length, true);
+        view.setUint16(28, path.length, true);
+        view.setUint32(42, offset, true);
+        record.set(path, 46);
+
+        chunks.push(local, data);
+        central.push(record);
+        offset += local.length + data.length;
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(
+        12,
+        central.reduce((size, record) => size + record.length, 0),
+        true
+    );
+    endView.setUint32(16, offset, true);
+
+    return new File([...chunks, ...central, end], name);
+};
+
+/**
+ * Slice of the series at a position, with its orientation
+ */
+const slice = (
+    sopInstanceUID: string,
+    position: number[],
+    orientation = [1, 0, 0, 0, 1, 0],
+    instanceNumber?: number
+) =>
+    dicomFile(sopInstanceUID, sopInstanceUID, (dataSet) => {
+        dataSet.setString('ImagePositionPatient', position.map(String), 'DS');
+        dataSet.setString('ImageOrientationPatient', orientation.map(String), 'DS');
+        if (instanceNumber !== undefined) {
+            dataSet.setString('InstanceNumber', String(instanceNumber), 'IS');
+        }
+    });
+
+describe('preloadFiles', () => {
+    it('reports progress on the files it reads, DICOMDIR references apart', async () => {
+        const directory = dicomDir('IM1');
+        const referenced = dicomFile('IM1', '1.2.3.1.1');
+        const scanned = dicomFile('IM2', '1.2.3.1.2');
+        const archive = await storedZip('archive.zip', [
+            dicomFile('IM3', '1.2.3.1.3'),
+            dicomFile('IM4', '1.2.3.1.4'),
+        ]);
+
+        const events: LoadProgress[] = [];
+        const result = await preloadFiles([directory, referenced, scanned, archive], {
+            onProgress: (progress) => events.push(progress),
+        });
+
+        expect(result.failures).toEqual([]);
+        expect(result.series.flatMap((series) => series.dicomFiles)).toHaveLength(4);
+
+        const totalBytes = directory.size + scanned.size + archive.size;
+        for (const [index, event] of events.entries()) {
+            expect(event.referencedFiles).toBe(1);
+            expect(event.totalBytes).toBe(totalBytes);
+            expect(event.bytesRead).toBeGreaterThanOrEqual(events[index - 1]?.bytesRead ?? 0);
+        }
+
+        // the archive counts as its entries are scanned, without a jump at the end
+        const last = events[events.length - 1];
+        expect(last).toEqual({
+            filesScanned: 4,
+            totalFiles: 4,
+            bytesRead: totalBytes,
+            totalBytes,
+            referencedFiles: 1,
+        });
+        const beforeArchive = directory.size + scanned.size;
+        expect(events.map((event) => event.bytesRead - beforeArchive).slice(-2)).toEqual([
+            Math.floor(archive.size / 2),
+            archive.size,
+        ]);
+    });
+
+    it('rejects with the reason of the signal and reads no more files once aborted', async () => {
+        const controller = new AbortController();
+        const reason = new Error('cancelled');
+        const files = [
+            dicomFile('IM1', '1.2.3.1.1'),
+            dicomFile('IM2', '1.2.3.1.2'),
+            dicomFile('IM3', '1.2.3.1.3'),
+        ];
+        // the head of every file is read to find the archives, the scan reads the whole file
+        const reads = files.map((file) => vi.spyOn(file, 'arrayBuffer'));
+
+        const loading = preloadFiles(files, {
+            signal: controller.signal,
+            onProgress: ({ filesScanned }) => {
+                if (filesScanned === 1) controller.abort(reason);
+            },
+        });
+
+        await expect(loading).rejects.toBe(reason);
+        expect(reads.map((read) => read.mock.calls.length > 0)).toEqual([true, false, false]);
+    });
+
+    it('hands the series of a folder to onSeries once its last file is scanned', async () => {
+        const otherSeries = (dataSet: MutableDataSet) =>
+            dataSet.setString('SeriesInstanceUID', '1.2.3.2');
+        const calls: string[][] = [];
+
+        await preloadFiles(
+            [
+                dicomFile('a/IM1', '1.2.3.1.1'),
+                dicomFile('b/IM1', '1.2.3.2.1', otherSeries),
+                dicomFile('a/IM2', '1.2.3.1.2'),
+            ],
+            {
+                onSeries: (stacks) =>
+                    calls.push(
+                        stacks.flatMap((stack) => stack.dicomFiles.map(({ file }) => file.name))
+                    ),
+            }
+        );
+
+        expect(calls).toEqual([['b/IM1'], ['a/IM1', 'a/IM2']]);
+    });
+
+    it('reports the files it cannot read and goes on with the others', async () => {
+        const text = new File(['not DICOM'], 'notes.txt');
+        const archive = await storedZip('archive.zip', [
+            new File(['not DICOM either'], 'readme.txt'),
+            dicomFile('IM2', '1.2.3.1.2'),
+        ]);
+
+        const result = await preloadFiles([text, dicomFile('IM1', '1.2.3.1.1'), archive]);
+
+        expect(result.failures).toEqual([
+            { name: 'notes.txt', file: text, reason: 'preloader notes.txt is not a DICOM file' },
+            {
+                name: 'archive.zip/readme.txt',
+                file: archive,
+                reason: 'preloader readme.txt is not a DICOM file',
+            },
+        ]);
+        expect(
+            result.series.flatMap((series) => series.dicomFiles.map(({ file }) => file.name))
+        ).toEqual(['IM1', 'IM2']);
+    });
+
+    it('sorts oblique slices along the normal and analyzes their spacing', async () => {
+        // rows along x, columns tilted in the y-z plane: the normal is (0, -0.6, 0.8)
+        const orientation = [1, 0, 0, 0, 0.8, 0.6];
+        const distances = [0, 2, 4, 6, 10, 10];
+        // instance numbers against the normal order, the second slice moved 5 mm down
+        // its columns: lower z than the first one
+        const files = distances.map((distance, index) => {
+            const offset = index === 1 ? -5 : 0;
+
+            return slice(
+                `1.2.3.1.${index + 1}`,
+                [0, distance * -0.6 + offset * 0.8, distance * 0.8 + offset * 0.6],
+                orientation,
+                distances.length - index
+            );
+        });
+
+        const [series] = (await preloadFiles([...files].reverse())).series;
+
+        expect(series.dicomFiles.map((file) => file.SOPInstanceUID)).toEqual([
+            '1.2.3.1.1',
+            '1.2.3.1.2',
+            '1.2.3.1.3',
+            '1.2.3.1.4',
+            expect.stringMatching(/^1\.2\.3\.1\.[56]$/),
+            expect.stringMatching(/^1\.2\.3\.1\.[56]$/),
+        ]);
+        // median of the steps 2, 2, 2 and 4, the duplicate position left out
+        expect(series.sliceSpacing).toBeCloseTo(2);
+        expect(series.uniformSpacing).toBe(false);
+        expect(series.gaps).toEqual([{ index: 3, distance: expect.closeTo(4) }]);
+        expect(series.duplicatePositions).toEqual([5]);
+        expect(series.gantryTilt).toBeCloseTo(0);
+        expect(series.tilted).toBe(false);
+    });
+
+    it('reports no gap for steps under 1.5 times the median', async () => {
+        const files = [0, 2, 4, 6.9].map((z, index) => slice(`1.2.3.1.${index + 1}`, [0, 0, z]));
+
+        const [series] = (await preloadFiles(files)).series;
+
+        expect(series.sliceSpacing).toBe(2);
+        expect(series.gaps).toEqual([]);
+        expect(series.duplicatePositions).toEqual([]);
+        // 2.9 is more than 1% off the median
+        expect(series.uniformSpacing).toBe(false);
+    });
+
+    it('measures the gantry tilt between the normal and the stacking direction', async () => {
+        // every slice shifts by 1 along -y for sqrt(3) along the normal: 30 degrees
+        const files = [0, 1, 2].map((index) =>
+            slice(`1.2.3.1.${index + 1}`, [0, -index, index * Math.sqrt(3)])
+        );
+
+        const [series] = (await preloadFiles(files)).series;
+
+        expect(series.sliceSpacing).toBeCloseTo(Math.sqrt(3));
+        expect(series.gantryTilt).toBeCloseTo(30);
+        expect(series.tilted).toBe(true);
+    });
+
+    it('splits a mixed series into stacks whose keys do not depend on the file order', async () => {
+        const image = (
+            sopInstanceUID: string,
+            z: number,
+            orientation: number[],
+            size: number,
+            localizer = false
+        ) =>
+            dicomFile(sopInstanceUID, sopInstanceUID, (dataSet) => {
+                dataSet.setString('ImagePositionPatient', ['0', '0', String(z)], 'DS');
+                dataSet.setString('ImageOrientationPatient', orientation.map(String), 'DS');
+                dataSet.setNumbers('Rows', size, 'US');
+                dataSet.setNumbers('Columns', size, 'US');
+                if (localizer) {
+                    dataSet.setString('ImageType', ['ORIGINAL', 'PRIMARY', 'LOCALIZER'], 'CS');
+                }
+            });
+        const axial = [1, 0, 0, 0, 1, 0];
+        const coronal = [1, 0, 0, 0, 0, -1];
+        const files = [
+            image('1.2.3.1.1', 2, axial, 4),
+            image('1.2.3.1.2', 0, axial, 4),
+            image('1.2.3.1.3', 0, coronal, 4),
+            image('1.2.3.1.4', 0, axial, 8),
+            image('1.2.3.1.5', 2, axial, 8),
+            image('1.2.3.1.6', 0, coronal, 4, true),
+        ];
+
+        const stacks = (await preloadFiles(files)).series;
+        const reversed = (await preloadFiles([...files].reverse())).series;
+
+        expect(
+            stacks.map((stack) => ({
+                stackIndex: stack.stackIndex,
+                files: stack.dicomFiles.map((file) => file.SOPInstanceUID),
+            }))
+        ).toEqual([
+            { stackIndex: 1, files: ['1.2.3.1.3'] },
+            { stackIndex: 2, files: ['1.2.3.1.2', '1.2.3.1.1'] },
+            { stackIndex: 3, files: ['1.2.3.1.4', '1.2.3.1.5'] },
+            { stackIndex: 4, files: ['1.2.3.1.6'] },
+        ]);
+        expect(stacks[0].splitReasons).toEqual(['orientation', 'matrix', 'localizer']);
+        expect(new Set(stacks.map((stack) => stack.stackKey)).size).toBe(4);
+        expect(stacks.every((stack) => stack.stackKey.startsWith('1.2.3.1/'))).toBe(true);
+        expect(reversed.map((stack) => stack.stackKey)).toEqual(
+            stacks.map((stack) => stack.stackKey)
+        );
+        expect(reversed.map((stack) => stack.stackLabel)).toEqual(
+            stacks.map((stack) => stack.stackLabel)
+        );
+    });
+});
+
+describe('preloadHierarchy', () => {
+    const instance = (
+        sopInstanceUID: string,
+        patient: [id: string, name: string],
+        study: [uid: string, date: string],
+        series: [uid: string, number: number],
+        instanceNumber: number
+    ) =>
+        dicomFile(sopInstanceUID, sopInstanceUID, (dataSet) => {
+            dataSet.setString('PatientID', patient[0], 'LO');
+            dataSet.setString('PatientName', patient[1], 'PN');
+            dataSet.setString('StudyInstanceUID', study[0], 'UI');
+            dataSet.setString('StudyDate', study[1], 'DA');
+            dataSet.setString('SeriesInstanceUID', series[0], 'UI');
+            dataSet.setString('SeriesNumber', String(series[1]), 'IS');
+            dataSet.setString('InstanceNumber', String(instanceNumber), 'IS');
+        });
+
+    it('groups the files by patient, study and series, each level in order', async () => {
+        const doe: [string, string] = ['1', 'Doe^John'];
+        const adams: [string, string] = ['2', 'Adams^Ann'];
+        const older: [string, string] = ['1.1', '20230101'];
+        const newer: [string, string] = ['1.2', '20240101'];
+
+        const patients = await preloadHierarchy([
+            instance('1.1.2.3', doe, older, ['1.1.2', 2], 3),
+            instance('1.1.1.1', doe, older, ['1.1.1', 1], 1),
+            instance('1.1.2.1', doe, older, ['1.1.2', 2], 1),
+            instance('2.1.1.1', adams, ['2.1', '20220101'], ['2.1.1', 1], 1),
+            instance('1.2.1.1', doe, newer, ['1.2.1', 1], 1),
+            instance('1.1.2.2', doe, older, ['1.1.2', 2], 2),
+        ]);
+
+        expect(
+            patients.map((patient) => ({
+                patientID: patient.patientID,
+                patientName: patient.patientName,
+                numberOfInstances: patient.numberOfInstances,
+                studies: patient.studies.map((study) => ({
+                    studyInstanceUID: study.studyInstanceUID,
+                    numberOfInstances: study.numberOfInstances,
+                    series: study.series.map((series) => ({
+                        seriesNumber: series.seriesNumber,
+                        instances: series.instances.map((dicomFile) => dicomFile.SOPInstanceUID),
+                    })),
+                })),
+            }))
+        ).toEqual([
+            {
+                patientID: '2',
+                patientName: 'Adams^Ann',
+                numberOfInstances: 1,
+                studies: [
+                    {
+                        studyInstanceUID: '2.1',
+                        numberOfInstances: 1,
+                        series: [{ seriesNumber: 1, instances: ['2.1.1.1'] }],
+                    },
+                ],
+            },
+            {
+                patientID: '1',
+                patientName: 'Doe^John',
+                numberOfInstances: 5,
+                // newer studies first, series by number, instances by number
+                studies: [
+                    {
+                        studyInstanceUID: '1.2',
+                        numberOfInstances: 1,
+                        series: [{ seriesNumber: 1, instances: ['1.2.1.1'] }],
+                    },
+                    {
+                        studyInstanceUID: '1.1',
+                        numberOfInstances: 4,
+                        series: [
+                            { seriesNumber: 1, instances: ['1.1.1.1'] },
+                            { seriesNumber: 2, instances: ['1.1.2.1', '1.1.2.2', '1.1.2.3'] },
+                        ],
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it('tells apart patients sharing a name by their ID', async () => {
+        const patients = await preloadHierarchy([
+            instance('1.1.1.1', ['1', 'Doe^John'], ['1.1', ''], ['1.1.1', 1], 1),
+            instance('2.1.1.1', ['2', 'Doe^John'], ['2.1', ''], ['2.1.1', 1], 1),
+        ]);
+
+        expect(patients.map((patient) => patient.patientID).sort()).toEqual(['1', '2']);
+    });
+});
+
+describe('scanFile', () => {
+    const description = 'x'.repeat(1000);
+
+    it('reads slices of the header twice as large until the pixel data is reached', async () => {
+        const file = dicomFile('IM1', '1.2.3.1.1', (dataSet) => {
+            dataSet.setString('SeriesDescription', description, 'LO');
+            dataSet.setBytes('x7fe00010', new Uint8Array(64 * 1024), 'OB');
+        });
+        const slice = vi.spyOn(file, 'slice');
+
+        const dicomFileRecord = await scanFile(file, { scanMode: 'header', headerSliceSize: 256 });
+        const ends = slice.mock.calls.map(([, end]) => end);
+
+        expect(dicomFileRecord.seriesDescription).toBe(description);
+        expect(dicomFileRecord).toEqual(await scanFile(file));
+        // the format prefix, then the header from 256 bytes up until the pixel data tag fits,
+        // far from the end of the file
+        expect(ends).toEqual([256, 256, 512, 1024, 2048]);
+        expect(file.size).toBeGreaterThan(64 * 1024);
+    });
+
+    it('reads the whole file when it has no pixel data', async () => {
+        const file = dicomFile('IM1', '1.2.3.1.1', (dataSet) => {
+            dataSet.setString('SeriesDescription', description, 'LO');
+        });
+        const slice = vi.spyOn(file, 'slice');
+
+        const dicomFileRecord = await scanFile(file, { scanMode: 'header', headerSliceSize: 256 });
+
+        expect(dicomFileRecord.seriesDescription).toBe(description);
+        expect(slice.mock.calls[slice.mock.calls.length - 1][1]).toBe(file.size);
+    });
+});
@@ -1,77 +1,822 @@
 import * as dicomParser from 'dicom-parser';
+import Utils from './core.utils.ts';
+import { characterSets, readText } from './core.charset.ts';
+import { parseOptions } from './core.format.ts';
+import { parseTime } from './core.values.ts';
+import { isDicomDir, readDicomDir } from './loader.dicomdir.ts';
+import { extractEntry, isZipArchive, zipEntries } from './loader.zip.ts';
+import DicomParser from './parser.dicom.ts';
+import type WorkerPool from './worker.pool.ts';
 
-interface DicomFile {
+export interface DicomFile {
     file: File;
     SOPInstanceUID: string;
+    seriesInstanceUID: string;
+    studyInstanceUID: string;
+    patientName?: string;
+    patientID?: string;
+    patientSex?: string;
+    patientBirthdate?: string;
+    studyDate?: string;
+    studyDescription?: string;
+    modality?: string;
+    seriesDescription?: string;
+    seriesNumber?: number;
     sliceLocation?: number;
-    imagePositionZ?: number;
+    imagePosition?: [number, number, number];
+    imageOrientation?: [number, number, number, number, number, number];
     instanceNumber?: number;
+    rows?: number;
+    columns?: number;
+    echoNumber?: number;
+    temporalPositionIdentifier?: number;
+    /** Trigger Time (ms) */
+    triggerTime?: number;
+    /** Acquisition Time, in ms since midnight */
+    acquisitionTime?: number;
+    /** Content Time, in ms since midnight */
+    contentTime?: number;
+    localizer: boolean;
+}
+
+export interface ScanOptions {
+    /**
+     * 'full' parses the whole file, 'header' only reads the beginning of the file
+     * up to the pixel data (default 'full')
+     */
+    scanMode?: 'full' | 'header';
+    /** Size of the first slice read in header mode, doubled until the header fits */
+    headerSliceSize?: number;
+}
+
+export interface PreloaderOptions extends ScanOptions {
+    /** Parse the files in workers of this pool instead of the main thread */
+    pool?: WorkerPool;
+    /**
+     * Build the records of the files a selected DICOMDIR references from its directory
+     * records, without opening them (default true)
+     */
+    useDicomDir?: boolean;
+    /** Cancel the loading, the promise is rejected with the reason of the signal */
+    signal?: AbortSignal;
+    /** Called after every scanned file */
+    onProgress?: (progress: LoadProgress) => void;
+    /**
+     * Called with the stacks of a series once the folder holding its files is scanned,
+     * again with every file if more of them turn up in another folder
+     */
+    onSeries?: (stacks: Series[]) => void;
+}
+
+export interface LoadProgress {
+    /** Files scanned so far, DICOMDIRs and archive entries included */
+    filesScanned: number;
+    /** Files to scan, grows as archives are listed */
+    totalFiles: number;
+    /**
+     * Bytes of the files to read processed so far, an archive counts in proportion
+     * to the compressed size of its scanned entries
+     */
+    bytesRead: number;
+    /** Bytes of the DICOMDIRs, files to scan and archives */
+    totalBytes: number;
+    /** Files known from the records of a DICOMDIR: not opened, left out of the other counts */
+    referencedFiles: number;
+}
+
+export interface FailedFile {
+    /** Name of the file, path of the archive entry or of the file referenced by a DICOMDIR */
+    name: string;
+    /** Selected file, or the archive holding the entry, null for a missing file */
+    file: File | null;
+    reason: string;
+}
+
+export interface PreloadResult {
+    patients: Patient[];
+    /** Stacks of the hierarchy, in tree order */
+    series: Series[];
+    failures: FailedFile[];
 }
 
-interface Series {
+export type SplitReason = 'orientation' | 'matrix' | 'echo' | 'temporal' | 'localizer';
+
+export interface SliceGap {
+    /** Index of the slice right before the gap */
+    index: number;
+    /** Distance between the two slices surrounding the gap */
+    distance: number;
+}
+
+export interface Series {
     seriesInstanceUID: string;
+    /** Stable identifier of the homogeneous stack within the series */
+    stackKey: string;
+    /** 1-based position of the stack within the series */
+    stackIndex: number;
+    /** Attributes that differ between the stacks of the series, empty if it was not split */
+    splitReasons: SplitReason[];
+    /** Human readable description of the stack, e.g. 'axial, echo 2' */
+    stackLabel: string;
     dicomFiles: DicomFile[];
+    /** Median distance between consecutive slices along the slice normal */
+    sliceSpacing: number | null;
+    uniformSpacing: boolean;
+    gaps: SliceGap[];
+    /** Indices of slices sharing their position with the previous slice */
+    duplicatePositions: number[];
+    /** Angle (degrees) between the slice normal and the stacking direction */
+    gantryTilt: number | null;
+    tilted: boolean;
+}
+
+export interface StudySeries {
+    seriesInstanceUID: string;
+    modality: string | null;
+    seriesDescription: string | null;
+    seriesNumber: number | null;
+    numberOfInstances: number;
+    /** Instances of the series ordered by Instance Number */
+    instances: DicomFile[];
+    /** Homogeneous stacks of the series */
+    stacks: Series[];
+}
+
+export interface Study {
+    studyInstanceUID: string;
+    studyDate: string | null;
+    studyDescription: string | null;
+    numberOfInstances: number;
+    series: StudySeries[];
+}
+
+export interface Patient {
+    patientName: string | null;
+    patientID: string | null;
+    patientSex: string | null;
+    patientBirthdate: string | null;
+    numberOfInstances: number;
+    studies: Study[];
 }
 
+type SliceSpacing = Pick<
+    Series,
+    'sliceSpacing' | 'uniformSpacing' | 'gaps' | 'duplicatePositions' | 'gantryTilt' | 'tilted'
+>;
+
+interface StackAttributes {
+    orientation: string;
+    matrix: string;
+    echo: number | null;
+    temporal: number | null;
+    localizer: boolean;
+}
+
+// Допуски в мм и градусах
+const DUPLICATE_TOLERANCE = 0.001;
+const SPACING_TOLERANCE = 0.01;
+const TILT_TOLERANCE = 0.1;
+
+const HEADER_SLICE_SIZE = 64 * 1024;
+
+// Первые байты файла, по которым определяется формат
+const PREFIX_SIZE = 256;
+
+const hasGeometry = (dicomFile: DicomFile) =>
+    dicomFile.imagePosition !== undefined && dicomFile.imageOrientation !== undefined;
+
 const sortDicomFiles = (dicomFiles: DicomFile[]): DicomFile[] => {
-    return dicomFiles.sort((a, b) => {
-        // Сортировка по SliceLocation
-        if (a.sliceLocation !== undefined && b.sliceLocation !== undefined) {
-            return a.sliceLocation - b.sliceLocation;
+    // Сортировка по проекции ImagePositionPatient на нормаль к срезу
+    if (dicomFiles.every(hasGeometry)) {
+        const [, , normal] = Utils.directionCosines(dicomFiles[0].imageOrientation!);
+        const distances = new Map(
+            dicomFiles.map((dicomFile) => [
+                dicomFile,
+                Utils.distanceAlongNormal(dicomFile.imagePosition!, normal),
+            ])
+        );
+
+        return dicomFiles.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    }
+
+    // Сортировка по SliceLocation, только если он есть у всех снимков
+    if (dicomFiles.every((dicomFile) => dicomFile.sliceLocation !== undefined)) {
+        return dicomFiles.sort((a, b) => a.sliceLocation! - b.sliceLocation!);
+    }
+
+    // Сортировка по Instance Number, снимки без номера в конце
+    return dicomFiles.sort(
+        (a, b) => (a.instanceNumber ?? Infinity) - (b.instanceNumber ?? Infinity)
+    );
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const analyzeSpacing = (dicomFiles: DicomFile[]): SliceSpacing => {
+    const spacing: SliceSpacing = {
+        sliceSpacing: null,
+        uniformSpacing: false,
+        gaps: [],
+        duplicatePositions: [],
+        gantryTilt: null,
+        tilted: false,
+    };
+
+    if (dicomFiles.length < 2 || !dicomFiles.every(hasGeometry)) {
+        spacing.uniformSpacing = dicomFiles.length === 1;
+        return spacing;
+    }
+
+    const [, , normal] = Utils.directionCosines(dicomFiles[0].imageOrientation!);
+    const distances = dicomFiles.map((dicomFile) =>
+        Utils.distanceAlongNormal(dicomFile.imagePosition!, normal)
+    );
+
+    // Расстояния между соседними срезами
+    const steps: number[] = [];
+    for (let i = 1; i < distances.length; i++) {
+        const step = distances[i] - distances[i - 1];
+
+        if (step < DUPLICATE_TOLERANCE) {
+            spacing.duplicatePositions.push(i);
+        } else {
+            steps.push(step);
         }
-        // Сортировка по Image Position Z
-        if (a.imagePositionZ !== undefined && b.imagePositionZ !== undefined) {
-            return a.imagePositionZ - b.imagePositionZ;
+    }
+
+    if (steps.length) {
+        const sliceSpacing = median(steps);
+        const tolerance = Math.max(SPACING_TOLERANCE, sliceSpacing * SPACING_TOLERANCE);
+
+        spacing.sliceSpacing = sliceSpacing;
+        spacing.uniformSpacing =
+            !spacing.duplicatePositions.length &&
+            steps.every((step) => Math.abs(step - sliceSpacing) <= tolerance);
+
+        for (let i = 1; i < distances.length; i++) {
+            const step = distances[i] - distances[i - 1];
+            if (step > sliceSpacing * 1.5) {
+                spacing.gaps.push({ index: i - 1, distance: step });
+            }
         }
-        // Сортировка по Instance Number
-        if (a.instanceNumber !== undefined && b.instanceNumber !== undefined) {
-            return a.instanceNumber - b.instanceNumber;
+
+        // Наклон гентри: срезы смещаются не вдоль нормали
+        const first = dicomFiles[0].imagePosition!;
+        const last = dicomFiles[dicomFiles.length - 1].imagePosition!;
+        const stacking = [last[0] - first[0], last[1] - first[1], last[2] - first[2]];
+        const length = Math.hypot(...stacking);
+        const cosine = Math.min(Math.abs(Utils.distanceAlongNormal(stacking, normal)) / length, 1);
+
+        spacing.gantryTilt = (Math.acos(cosine) * 180) / Math.PI;
+        spacing.tilted = spacing.gantryTilt > TILT_TOLERANCE;
+    }
+
+    return spacing;
+};
+
+const stackAttributes = (dicomFile: DicomFile): StackAttributes => {
+    // Округляем направляющие косинусы, чтобы не дробить стек из-за погрешности
+    const orientation = dicomFile.imageOrientation
+        ? dicomFile.imageOrientation.map((value) => Math.round(value * 100) / 100 || 0).join(',')
+        : 'none';
+
+    return {
+        orientation,
+        matrix: `${dicomFile.columns ?? '?'}x${dicomFile.rows ?? '?'}`,
+        echo: dicomFile.echoNumber ?? null,
+        temporal: dicomFile.temporalPositionIdentifier ?? null,
+        localizer: dicomFile.localizer,
+    };
+};
+
+const stackKey = (attributes: StackAttributes) =>
+    [
+        attributes.localizer ? 'localizer' : 'image',
+        attributes.orientation,
+        attributes.matrix,
+        `e${attributes.echo ?? '-'}`,
+        `t${attributes.temporal ?? '-'}`,
+    ].join('/');
+
+const compareStacks = (a: StackAttributes, b: StackAttributes) =>
+    Number(a.localizer) - Number(b.localizer) ||
+    (a.echo ?? 0) - (b.echo ?? 0) ||
+    (a.temporal ?? 0) - (b.temporal ?? 0) ||
+    a.orientation.localeCompare(b.orientation) ||
+    a.matrix.localeCompare(b.matrix);
+
+const stackLabel = (attributes: StackAttributes, dicomFile: DicomFile, reasons: SplitReason[]) => {
+    const parts = [
+        dicomFile.imageOrientation
+            ? Utils.orientationLabel(Utils.directionCosines(dicomFile.imageOrientation)[2])
+            : 'unknown orientation',
+    ];
+
+    if (reasons.includes('matrix')) parts.push(attributes.matrix);
+    if (reasons.includes('echo') && attributes.echo !== null) parts.push(`echo ${attributes.echo}`);
+    if (reasons.includes('temporal') && attributes.temporal !== null) {
+        parts.push(`phase ${attributes.temporal}`);
+    }
+    if (attributes.localizer) parts.push('localizer');
+
+    return parts.join(', ');
+};
+
+/**
+ * Split the files of one SeriesInstanceUID into stacks sharing geometry and acquisition parameters.
+ */
+const splitSeries = (seriesInstanceUID: string, dicomFiles: DicomFile[]): Series[] => {
+    const stacks = new Map<string, { attributes: StackAttributes; dicomFiles: DicomFile[] }>();
+
+    for (const dicomFile of dicomFiles) {
+        const attributes = stackAttributes(dicomFile);
+        const key = stackKey(attributes);
+
+        if (!stacks.has(key)) {
+            stacks.set(key, { attributes, dicomFiles: [] });
         }
+        stacks.get(key)?.dicomFiles.push(dicomFile);
+    }
+
+    const entries = [...stacks.entries()].sort((a, b) =>
+        compareStacks(a[1].attributes, b[1].attributes)
+    );
+
+    // Причины разбиения: атрибуты, которые отличаются между стеками
+    const reasons: SplitReason[] = [];
+    const differs = (property: keyof StackAttributes) =>
+        new Set(entries.map(([, stack]) => stack.attributes[property])).size > 1;
+
+    if (differs('orientation')) reasons.push('orientation');
+    if (differs('matrix')) reasons.push('matrix');
+    if (differs('echo')) reasons.push('echo');
+    if (differs('temporal')) reasons.push('temporal');
+    if (differs('localizer')) reasons.push('localizer');
+
+    return entries.map(([key, stack], index) => {
+        const sortedDicomFiles = sortDicomFiles(stack.dicomFiles);
 
-        return 0;
+        return {
+            seriesInstanceUID,
+            stackKey: `${seriesInstanceUID}/${key}`,
+            stackIndex: index + 1,
+            splitReasons: reasons,
+            stackLabel: stackLabel(stack.attributes, sortedDicomFiles[0], reasons),
+            dicomFiles: sortedDicomFiles,
+            ...analyzeSpacing(sortedDicomFiles),
+        };
     });
 };
 
-export const preloader = async (files: FileList | File[]): Promise<Series[]> => {
-    const seriesMap = new Map<string, DicomFile[]>();
+const readDicomFile = (file: File, dataSet: dicomParser.DataSet): DicomFile => {
+    const imagePosition = dataSet.string('x00200032')?.split('\\').map(parseFloat);
+    const imageOrientation = dataSet.string('x00200037')?.split('\\').map(parseFloat);
+    const imageType = dataSet.string('x00080008')?.toUpperCase().split('\\') ?? [];
+    const characterSet = characterSets(dataSet);
+
+    return {
+        file,
+        SOPInstanceUID: dataSet.string('x00080018') || 'unknown',
+        seriesInstanceUID: dataSet.string('x0020000e') || 'unknown',
+        studyInstanceUID: dataSet.string('x0020000d') || 'unknown',
+        patientName: readText(dataSet, 'x00100010', characterSet),
+        patientID: readText(dataSet, 'x00100020', characterSet),
+        patientSex: dataSet.string('x00100040'),
+        patientBirthdate: dataSet.string('x00100030'),
+        studyDate: dataSet.string('x00080020'),
+        studyDescription: readText(dataSet, 'x00081030', characterSet),
+        modality: dataSet.string('x00080060'),
+        seriesDescription: readText(dataSet, 'x0008103e', characterSet),
+        seriesNumber: dataSet.intString('x00200011'),
+        sliceLocation: dataSet.floatString('x00201041'),
+        imagePosition:
+            imagePosition?.length === 3 ? (imagePosition as DicomFile['imagePosition']) : undefined,
+        imageOrientation:
+            imageOrientation?.length === 6
+                ? (imageOrientation as DicomFile['imageOrientation'])
+                : undefined,
+        instanceNumber: dataSet.intString('x00200013'),
+        rows: dataSet.uint16('x00280010'),
+        columns: dataSet.uint16('x00280011'),
+        echoNumber: dataSet.intString('x00180086'),
+        temporalPositionIdentifier: dataSet.intString('x00200100'),
+        triggerTime: dataSet.floatString('x00181060'),
+        acquisitionTime: parseTime(dataSet.string('x00080032'))?.timeOfDay,
+        contentTime: parseTime(dataSet.string('x00080033'))?.timeOfDay,
+        localizer: imageType.includes('LOCALIZER'),
+    };
+};
+
+/**
+ * Parse the header of a file without reading its pixel data.
+ * The slice grows until the pixel data tag is reached or the whole file is read.
+ */
+const parseHeader = async (
+    file: File,
+    sliceSize: number,
+    options: dicomParser.ParseDicomOptions
+) => {
+    for (let size = sliceSize; ; size *= 2) {
+        const end = Math.min(size, file.size);
+        const byteArray = new Uint8Array(await file.slice(0, end).arrayBuffer());
+
+        try {
+            const dataSet = dicomParser.parseDicom(byteArray, {
+                ...options,
+                untilTag: 'x7fe00010',
+            });
+
+            if (dataSet.elements.x7fe00010 || end === file.size) {
+                return dataSet;
+            }
+        } catch (error) {
+            // Заголовок не поместился в срез
+            if (end === file.size) {
+                throw error;
+            }
+        }
+    }
+};
+
+/**
+ * Read a whole file and create its parser, e.g. for a record from a header scan.
+ */
+export const loadDicomParser = async (dicomFile: DicomFile) => {
+    return new DicomParser({ buffer: await dicomFile.file.arrayBuffer() });
+};
+
+/**
+ * Parse a single file into its record, throws if the file is not DICOM.
+ */
+export const scanFile = async (file: File, options: ScanOptions = {}): Promise<DicomFile> => {
+    const { scanMode = 'full', headerSliceSize = HEADER_SLICE_SIZE } = options;
+
+    const parse = parseOptions(new Uint8Array(await file.slice(0, PREFIX_SIZE).arrayBuffer()));
+    if (!parse) {
+        const error = new Error(`preloader ${file.name} is not a DICOM file`);
+        throw error;
+    }
+
+    const dataSet =
+        scanMode === 'header'
+            ? await parseHeader(file, headerSliceSize, parse)
+            : dicomParser.parseDicom(new Uint8Array(await file.arrayBuffer()), parse);
+
+    return readDicomFile(file, dataSet);
+};
+
+/**
+ * Message of an error, as the reason of a failed file
+ */
+const failureReason = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Folder of a file or archive entry path, files of a folder usually make complete series
+ */
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Stacks of a series handed to `onSeries` each time the last pending file of a folder holding
+ * some of its files is scanned
+ */
+const seriesStream = (onSeries?: (stacks: Series[]) => void) => {
+    // Без onSeries отслеживать нечего
+    if (!onSeries) {
+        return { expect() {}, scanned() {} };
+    }
+
+    const pending = new Map<string, number>();
+    const folderSeries = new Map<string, Set<string>>();
+    const seriesFiles = new Map<string, DicomFile[]>();
+
+    return {
+        expect(folder: string, count = 1) {
+            pending.set(folder, (pending.get(folder) ?? 0) + count);
+        },
+        scanned(folder: string, dicomFile: DicomFile | null) {
+            if (dicomFile) {
+                const { seriesInstanceUID } = dicomFile;
+                if (!seriesFiles.has(seriesInstanceUID)) {
+                    seriesFiles.set(seriesInstanceUID, []);
+                }
+                seriesFiles.get(seriesInstanceUID)?.push(dicomFile);
+                folderSeries.set(
+                    folder,
+                    (folderSeries.get(folder) ?? new Set()).add(seriesInstanceUID)
+                );
+            }
+
+            const count = (pending.get(folder) ?? 1) - 1;
+            pending.set(folder, count);
+
+            if (count === 0) {
+                for (const seriesInstanceUID of folderSeries.get(folder) ?? []) {
+                    onSeries(
+                        splitSeries(seriesInstanceUID, seriesFiles.get(seriesInstanceUID) ?? [])
+                    );
+                }
+                folderSeries.delete(folder);
+            }
+        },
+    };
+};
+
+/**
+ * Records of the files referenced by the selected DICOMDIRs, the files left to scan and
+ * the failures (unreadable DICOMDIRs, referenced files that were not selected)
+ */
+const readDicomDirs = async (files: File[], signal?: AbortSignal) => {
+    const dicomFiles: DicomFile[] = [];
+    const failures: FailedFile[] = [];
+    let remaining = files;
+
+    for (const dicomDirFile of files.filter((file) => isDicomDir(file.name))) {
+        signal?.throwIfAborted();
+        remaining = remaining.filter((file) => file !== dicomDirFile);
 
-    for (const file of Array.from(files)) {
         try {
-            const arrayBuffer = await file.arrayBuffer();
+            const content = await readDicomDir(dicomDirFile, remaining);
+            const referenced = new Set(content.dicomFiles.map((dicomFile) => dicomFile.file));
+
+            failures.push(
+                ...content.missing.map((record) => ({
+                    name: record.referencedFileID,
+                    file: null,
+                    reason: `${record.reason} file referenced by ${dicomDirFile.name}`,
+                }))
+            );
+
+            dicomFiles.push(...content.dicomFiles);
+            remaining = remaining.filter((file) => !referenced.has(file));
+        } catch (error) {
+            failures.push({
+                name: dicomDirFile.name,
+                file: dicomDirFile,
+                reason: failureReason(error),
+            });
+        }
+    }
+
+    return { dicomFiles, remaining, failures };
+};
+
+/**
+ * Selected files split into ZIP archives and other files, by content
+ */
+const splitArchives = async (files: File[]) => {
+    const archives: File[] = [];
+    const others: File[] = [];
 
-            const dataSet = dicomParser.parseDicom(new Uint8Array(arrayBuffer));
+    for (const file of files) {
+        ((await isZipArchive(file)) ? archives : others).push(file);
+    }
+
+    return { archives, others };
+};
+
+const scanFiles = async (
+    files: FileList | File[],
+    options: PreloaderOptions
+): Promise<{ dicomFiles: DicomFile[]; failures: FailedFile[] }> => {
+    const { pool, useDicomDir = true, signal, onProgress, onSeries, ...scanOptions } = options;
+
+    const selected = Array.from(files);
+    const { archives, others } = await splitArchives(selected);
+    const fromDicomDirs = useDicomDir
+        ? await readDicomDirs(others, signal)
+        : { dicomFiles: [], remaining: others, failures: [] };
+    const { remaining } = fromDicomDirs;
+    const dicomDirs = useDicomDir ? others.filter((file) => isDicomDir(file.name)) : [];
+    const read = [...dicomDirs, ...remaining, ...archives];
 
-            const seriesUID = dataSet.string('x0020000e') || 'unknown';
-            const sopInstanceUID = dataSet.string('x00080018') || 'unknown';
+    const dicomFiles: DicomFile[] = [];
+    const failures: FailedFile[] = [...fromDicomDirs.failures];
+    const stream = seriesStream(onSeries);
+    const progress: LoadProgress = {
+        filesScanned: 0,
+        totalFiles: dicomDirs.length + remaining.length,
+        bytesRead: 0,
+        totalBytes: read.reduce((total, file) => total + file.size, 0),
+        referencedFiles: fromDicomDirs.dicomFiles.length,
+    };
 
-            const sliceLocation = dataSet.floatString('x00201041'); // SliceLocation
-            const imagePositionZ = dataSet.string('x00200032')?.split('\\').map(parseFloat)[2];
-            const instanceNumber = dataSet.intString('x00200013');
+    const scanned = (folder: string, dicomFile: DicomFile | null, bytes: number) => {
+        if (dicomFile) dicomFiles.push(dicomFile);
+        progress.filesScanned++;
+        progress.bytesRead += bytes;
+        onProgress?.({ ...progress });
+        stream.scanned(folder, dicomFile);
+    };
 
-            const dicomFile: DicomFile = {
-                file,
-                sliceLocation: sliceLocation,
-                SOPInstanceUID: sopInstanceUID,
-                imagePositionZ: imagePositionZ,
-                instanceNumber: instanceNumber,
-            };
+    // DICOMDIR уже прочитаны, файлы, на которые они ссылаются, не открываются
+    for (const file of dicomDirs) {
+        progress.filesScanned++;
+        progress.bytesRead += file.size;
+    }
+    onProgress?.({ ...progress });
+
+    stream.expect('DICOMDIR', fromDicomDirs.dicomFiles.length);
+    for (const dicomFile of fromDicomDirs.dicomFiles) {
+        dicomFiles.push(dicomFile);
+        stream.scanned('DICOMDIR', dicomFile);
+    }
 
-            // Группируем по seriesUID
-            if (!seriesMap.has(seriesUID)) {
-                seriesMap.set(seriesUID, []);
+    // Записи архива в отчёте: путь в архиве и сам архив
+    const scan = async (file: File, name = file.name, source = file) => {
+        signal?.throwIfAborted();
+
+        try {
+            return pool
+                ? await pool.scanFile(file, scanOptions, { signal })
+                : await scanFile(file, scanOptions);
+        } catch (error) {
+            // Отмена прерывает загрузку, остальные ошибки относятся к файлу
+            if (signal?.aborted) throw error;
+
+            failures.push({ name, file: source, reason: failureReason(error) });
+            return null;
+        }
+    };
+
+    const scanSelected = async (file: File) => {
+        const folder = folderOf(file.webkitRelativePath || file.name);
+        scanned(folder, await scan(file), file.size);
+    };
+
+    // В пуле файлы разбираются параллельно (пул сам ограничивает число задач),
+    // в основном потоке по одному, чтобы не держать в памяти все файлы сразу
+    for (const file of remaining) {
+        stream.expect(folderOf(file.webkitRelativePath || file.name));
+    }
+    if (pool) {
+        await Promise.all(remaining.map(scanSelected));
+    } else {
+        for (const file of remaining) {
+            await scanSelected(file);
+        }
+    }
+
+    // Записи архива распаковываются по мере разбора, не больше, чем задач в пуле
+    for (const archive of archives) {
+        const running = new Set<Promise<void>>();
+        // Архив засчитывается по доле сжатого размера разобранных записей
+        let entriesSize = 0;
+        let scannedSize = 0;
+        let archiveBytes = 0;
+
+        try {
+            const entries = (await zipEntries(archive)).filter((entry) => !isDicomDir(entry.path));
+            progress.totalFiles += entries.length;
+            entriesSize = entries.reduce((total, entry) => total + entry.compressedSize, 0);
+            for (const entry of entries) {
+                stream.expect(folderOf(`${archive.name}/${entry.path}`));
+            }
+
+            for (const entry of entries) {
+                signal?.throwIfAborted();
+
+                const name = `${archive.name}/${entry.path}`;
+                const task = extractEntry(archive, entry)
+                    .then(
+                        (file) => scan(file, name, archive),
+                        (error) => {
+                            failures.push({ name, file: archive, reason: failureReason(error) });
+                            return null;
+                        }
+                    )
+                    .then((dicomFile) => {
+                        scannedSize += entry.compressedSize;
+                        const bytes = entriesSize
+                            ? Math.floor((archive.size * scannedSize) / entriesSize)
+                            : 0;
+                        scanned(folderOf(name), dicomFile, bytes - archiveBytes);
+                        archiveBytes = bytes;
+                        running.delete(task);
+                    });
+                running.add(task);
+
+                if (running.size >= (pool?.concurrency ?? 1)) {
+                    await Promise.race(running);
+                }
             }
-            seriesMap.get(seriesUID)?.push(dicomFile);
         } catch (error) {
-            console.error(`Error parsing DICOM file: ${file.name}`, error);
+            if (signal?.aborted) {
+                await Promise.allSettled(running);
+                throw error;
+            }
+
+            failures.push({ name: archive.name, file: archive, reason: failureReason(error) });
+        }
+
+        await Promise.all(running);
+
+        // Архив без записей или с ошибкой
+        if (archiveBytes < archive.size) {
+            progress.bytesRead += archive.size - archiveBytes;
+            onProgress?.({ ...progress });
         }
     }
 
-    // Преобразуем Map в массив Series[] и сортируем снимки по sliceLocation/imagePositionZ/instanceNumber
-    const seriesArray: Series[] = [];
-    seriesMap.forEach((unsortedDicomFiles, seriesInstanceUID) => {
-        const sortedDicomFiles = sortDicomFiles(unsortedDicomFiles);
-        seriesArray.push({ seriesInstanceUID, dicomFiles: sortedDicomFiles });
-    });
+    return { dicomFiles, failures };
+};
+
+const groupBy = (dicomFiles: DicomFile[], key: (dicomFile: DicomFile) => string) => {
+    const groups = new Map<string, DicomFile[]>();
+
+    for (const dicomFile of dicomFiles) {
+        const value = key(dicomFile);
+        if (!groups.has(value)) {
+            groups.set(value, []);
+        }
+        groups.get(value)?.push(dicomFile);
+    }
+
+    return [...groups.values()];
+};
+
+const byNumber = (a?: number | null, b?: number | null) => (a ?? Infinity) - (b ?? Infinity);
+
+const buildSeries = (seriesFiles: DicomFile[]): StudySeries => ({
+    seriesInstanceUID: seriesFiles[0].seriesInstanceUID,
+    modality: seriesFiles[0].modality ?? null,
+    seriesDescription: seriesFiles[0].seriesDescription ?? null,
+    seriesNumber: seriesFiles[0].seriesNumber ?? null,
+    numberOfInstances: seriesFiles.length,
+    instances: [...seriesFiles].sort((a, b) => byNumber(a.instanceNumber, b.instanceNumber)),
+    stacks: splitSeries(seriesFiles[0].seriesInstanceUID, seriesFiles),
+});
+
+const buildStudy = (studyFiles: DicomFile[]): Study => ({
+    studyInstanceUID: studyFiles[0].studyInstanceUID,
+    studyDate: studyFiles[0].studyDate ?? null,
+    studyDescription: studyFiles[0].studyDescription ?? null,
+    numberOfInstances: studyFiles.length,
+    series: groupBy(studyFiles, (dicomFile) => dicomFile.seriesInstanceUID)
+        .map(buildSeries)
+        .sort((a, b) => byNumber(a.seriesNumber, b.seriesNumber)),
+});
+
+const buildPatient = (patientFiles: DicomFile[]): Patient => ({
+    patientName: patientFiles[0].patientName ?? null,
+    patientID: patientFiles[0].patientID ?? null,
+    patientSex: patientFiles[0].patientSex ?? null,
+    patientBirthdate: patientFiles[0].patientBirthdate ?? null,
+    numberOfInstances: patientFiles.length,
+    // Новые исследования первыми
+    studies: groupBy(patientFiles, (dicomFile) => dicomFile.studyInstanceUID)
+        .map(buildStudy)
+        .sort((a, b) => (b.studyDate ?? '').localeCompare(a.studyDate ?? '')),
+});
+
+/**
+ * Patient -> Study -> Series -> Instances tree, series are split into homogeneous stacks.
+ */
+const buildHierarchy = (dicomFiles: DicomFile[]): Patient[] => {
+    // Пациент определяется по ID и имени
+    return groupBy(dicomFiles, (dicomFile) =>
+        [dicomFile.patientID ?? '', dicomFile.patientName ?? ''].join('|')
+    )
+        .map(buildPatient)
+        .sort((a, b) => (a.patientName ?? '').localeCompare(b.patientName ?? ''));
+};
+
+/**
+ * Flat list of stacks of a hierarchy, in tree order.
+ */
+export const flattenHierarchy = (patients: Patient[]): Series[] =>
+    patients.flatMap((patient) =>
+        patient.studies.flatMap((study) => study.series.flatMap((series) => series.stacks))
+    );
+
+/**
+ * Scan the selected files (folders, DICOMDIRs and ZIP archives included) into the hierarchy
+ * and its stacks, with the files that could not be read.
+ */
+export const preloadFiles = async (
+    files: FileList | File[],
+    options: PreloaderOptions = {}
+): Promise<PreloadResult> => {
+    const { dicomFiles, failures } = await scanFiles(files, options);
+    const patients = buildHierarchy(dicomFiles);
+
+    return { patients, series: flattenHierarchy(patients), failures };
+};
+
+export const preloadHierarchy = async (
+    files: FileList | File[],
+    options: PreloaderOptions = {}
+): Promise<Patient[]> => {
+    return (await preloadFiles(files, options)).patients;
+};
 
-    return seriesArray;
+export const preloader = async (
+    files: FileList | File[],
+    options: PreloaderOptions = {}
+): Promise<Series[]> => {
+    return (await preloadFiles(files, options)).series;
 };
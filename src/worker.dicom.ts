@@ -0,0 +1,28 @@
+import { runTask, transferables } from './worker.tasks.ts';
+import type { WorkerRequest, WorkerResponse } from './worker.tasks.ts';
+
+/**
+ * Worker entry point: parses headers and decodes frames posted by the WorkerPool.
+ */
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    const { id } = event.data;
+
+    try {
+        const result = await runTask(event.data, {
+            onProgress: (progress) => {
+                const response: WorkerResponse = { id, progress };
+                self.postMessage(response);
+            },
+        });
+        const response: WorkerResponse = { id, result };
+
+        self.postMessage(response, { transfer: transferables(result) });
+    } catch (error) {
+        const response: WorkerResponse = {
+            id,
+            error: error instanceof Error ? error.message : String(error),
+        };
+
+        self.postMessage(response);
+    }
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import WorkerPool from './worker.pool.ts';
+import type { WorkerRequest, WorkerResponse } from './worker.tasks.ts';
+import { writeDicom } from './writer.dicom.ts';
+
+/**
+ * Worker that records the requests and answers when told to
+ */
+class FakeWorker extends EventTarget {
+    static instances: FakeWorker[] = [];
+    requests: WorkerRequest[] = [];
+    terminated = false;
+
+    constructor() {
+        super();
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage(request: WorkerRequest) {
+        this.requests.push(request);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    respond(data: WorkerResponse) {
+        this.dispatchEvent(new MessageEvent('message', { data }));
+    }
+}
+
+const usingFakeWorkers = () => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+};
+
+/**
+ * Two frames of two pixels
+ */
+const image = () => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.7');
+    dataSet.setString('SOPInstanceUID', '1.2.3.1');
+    dataSet.setString('SeriesInstanceUID', '1.2.3');
+    dataSet.setNumbers('Rows', 1, 'US');
+    dataSet.setNumbers('Columns', 2, 'US');
+    dataSet.setString('NumberOfFrames', '2', 'IS');
+    dataSet.setNumbers('SamplesPerPixel', 1, 'US');
+    dataSet.setString('PhotometricInterpretation', 'MONOCHROME2', 'CS');
+    dataSet.setNumbers('BitsAllocated', 8, 'US');
+    dataSet.setNumbers('BitsStored', 8, 'US');
+    dataSet.setNumbers('HighBit', 7, 'US');
+    dataSet.setNumbers('PixelRepresentation', 0, 'US');
+    dataSet.setBytes('x7fe00010', new Uint8Array([1, 2, 3, 4]), 'OB');
+
+    return new File([writeDicom(dataSet)], 'IM1');
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('WorkerPool', () => {
+    it('runs the tasks on the main thread without workers', async () => {
+        const pool = new WorkerPool();
+        const progress: number[] = [];
+
+        expect((await pool.scanFile(image())).seriesInstanceUID).toBe('1.2.3');
+
+        const frames = await pool.decodeFrames(
+            image(),
+            {},
+            { onProgress: ({ framesDecoded }) => progress.push(framesDecoded) }
+        );
+        expect(frames.map((frame) => Array.from(frame))).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        expect(progress).toEqual([1, 2]);
+        expect(Array.from(await pool.decodeFrame(image(), 1))).toEqual([3, 4]);
+    });
+
+    it('runs no more tasks at once than its concurrency', async () => {
+        usingFakeWorkers();
+        const pool = new WorkerPool({ concurrency: 2 });
+        const progress: number[] = [];
+        const file = image();
+
+        const first = pool.decodeFrames(
+            file,
+            {},
+            { onProgress: ({ framesDecoded }) => progress.push(framesDecoded) }
+        );
+        pool.decodeFrames(file);
+        pool.decodeFrames(file);
+
+        expect(FakeWorker.instances).toHaveLength(2);
+        const [worker] = FakeWorker.instances;
+        expect(FakeWorker.instances.map((other) => other.requests.length)).toEqual([1, 1]);
+
+        // progress keeps the worker busy, the result frees it for the queued task
+        const { id } = worker.requests[0];
+        worker.respond({ id, progress: { framesDecoded: 1, totalFrames: 2 } });
+        expect(worker.requests).toHaveLength(1);
+
+        const frame = new Uint8Array([1, 2]);
+        worker.respond({ id, result: [frame] });
+        expect(await first).toEqual([frame]);
+        expect(progress).toEqual([1]);
+        expect(worker.requests).toHaveLength(2);
+        expect(FakeWorker.instances).toHaveLength(2);
+    });
+
+    it('drops a queued task when it is aborted', async () => {
+        usingFakeWorkers();
+        const pool = new WorkerPool({ concurrency: 1 });
+        const controller = new AbortController();
+
+        const running = pool.decodeFrames(image());
+        const queued = pool.decodeFrames(image(), {}, { signal: controller.signal });
+        controller.abort(new Error('cancelled'));
+
+        await expect(queued).rejects.toThrow('cancelled');
+        await expect(pool.decodeFrames(image(), {}, { signal: controller.signal })).rejects.toThrow(
+            'cancelled'
+        );
+
+        const [worker] = FakeWorker.instances;
+        worker.respond({ id: worker.requests[0].id, result: [] });
+        expect(await running).toEqual([]);
+        // the aborted task never reaches the worker
+        expect(worker.requests).toHaveLength(1);
+    });
+
+    it('rejects the running and queued tasks once terminated', async () => {
+        usingFakeWorkers();
+        const pool = new WorkerPool({ concurrency: 1 });
+
+        const running = pool.scanFile(image());
+        const queued = pool.decodeFrames(image());
+        pool.terminate();
+
+        await expect(running).rejects.toThrow('worker.pool was terminated');
+        await expect(queued).rejects.toThrow('worker.pool was terminated');
+        expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+});
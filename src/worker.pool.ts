@@ -0,0 +1,205 @@
+import type { TypedArray } from '@cornerstonejs/dicom-codec';
+import type { DecodeOptions, DecodeProgress, FrameRange } from './parser.dicom.ts';
+import type { DicomFile, ScanOptions } from './preloader.ts';
+import { runTask } from './worker.tasks.ts';
+import type { TaskInput, WorkerRequest, WorkerResponse } from './worker.tasks.ts';
+
+export interface WorkerPoolOptions {
+    /** Maximum number of workers, defaults to the number of logical processors */
+    concurrency?: number;
+    /** Run every task on the main thread, even if workers are available */
+    mainThread?: boolean;
+}
+
+export interface TaskOptions {
+    /** Cancel the task, the promise is rejected with the reason of the signal */
+    signal?: AbortSignal;
+}
+
+interface Task {
+    request: WorkerRequest;
+    resolve: (result: DicomFile | TypedArray[]) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: DecodeProgress) => void;
+}
+
+/**
+ * Pool of workers parsing headers and decoding frames off the main thread.
+ * Falls back to the main thread when workers are not available.
+ */
+export default class WorkerPool {
+    private _concurrency: number;
+    private _useWorkers: boolean;
+    private _workers: Worker[] = [];
+    private _idleWorkers: Worker[] = [];
+    private _runningTasks = new Map<Worker, Task>();
+    private _queue: Task[] = [];
+    private _nextId = 0;
+
+    constructor(options: WorkerPoolOptions = {}) {
+        this._concurrency = Math.max(
+            options.concurrency ?? globalThis.navigator?.hardwareConcurrency ?? 4,
+            1
+        );
+        this._useWorkers = !options.mainThread && typeof Worker !== 'undefined';
+    }
+
+    get concurrency() {
+        return this._concurrency;
+    }
+
+    /**
+     * Parse a file (or buffer) into a preloader record.
+     */
+    async scanFile(input: TaskInput, options: ScanOptions = {}, taskOptions: TaskOptions = {}) {
+        return (await this._run(
+            { id: this._nextId++, type: 'scan', input, options },
+            taskOptions.signal
+        )) as DicomFile;
+    }
+
+    /**
+     * Decode the frames of the range, the pixel buffers are transferred without copying.
+     * Progress is reported after every frame.
+     */
+    async decodeFrames(input: TaskInput, range: FrameRange = {}, options: DecodeOptions = {}) {
+        return (await this._run(
+            {
+                id: this._nextId++,
+                type: 'decode',
+                input,
+                range,
+            },
+            options.signal,
+            options.onProgress
+        )) as TypedArray[];
+    }
+
+    async decodeFrame(input: TaskInput, frameIndex = 0, options: TaskOptions = {}) {
+        const [frame] = await this.decodeFrames(
+            input,
+            { start: frameIndex, end: frameIndex + 1 },
+            options
+        );
+
+        return frame;
+    }
+
+    /**
+     * Stop every worker, pending tasks are rejected.
+     */
+    terminate() {
+        const error = new Error('worker.pool was terminated');
+
+        this._queue.forEach((task) => task.reject(error));
+        this._runningTasks.forEach((task) => task.reject(error));
+        this._workers.forEach((worker) => worker.terminate());
+
+        this._queue = [];
+        this._runningTasks.clear();
+        this._workers = [];
+        this._idleWorkers = [];
+    }
+
+    //
+    // private methods
+    //
+
+    private async _run(
+        request: WorkerRequest,
+        signal?: AbortSignal,
+        onProgress?: (progress: DecodeProgress) => void
+    ) {
+        signal?.throwIfAborted();
+
+        if (!this._useWorkers) {
+            return runTask(request, { signal, onProgress });
+        }
+
+        return new Promise<DicomFile | TypedArray[]>((resolve, reject) => {
+            const task: Task = { request, resolve, reject, onProgress };
+
+            // a queued task is dropped, a running one is left to finish and its result ignored
+            const abort = () => {
+                this._queue = this._queue.filter((other) => other !== task);
+                task.onProgress = undefined;
+                reject(signal?.reason);
+            };
+            signal?.addEventListener('abort', abort, { once: true });
+            task.resolve = (result) => {
+                signal?.removeEventListener('abort', abort);
+                resolve(result);
+            };
+            task.reject = (error) => {
+                signal?.removeEventListener('abort', abort);
+                reject(error);
+            };
+
+            this._queue.push(task);
+            this._next();
+        });
+    }
+
+    private _next() {
+        if (!this._queue.length) {
+            return;
+        }
+
+        if (!this._idleWorkers.length && this._workers.length < this._concurrency) {
+            this._idleWorkers.push(this._createWorker());
+        }
+
+        const worker = this._idleWorkers.pop();
+        if (!worker) {
+            return;
+        }
+
+        const task = this._queue.shift()!;
+        this._runningTasks.set(worker, task);
+        worker.postMessage(task.request);
+    }
+
+    private _createWorker() {
+        const worker = new Worker(new URL('./worker.dicom.ts', import.meta.url), {
+            type: 'module',
+        });
+
+        worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+            const task = this._runningTasks.get(worker);
+
+            // the task goes on after a progress message
+            if ('progress' in event.data) {
+                task?.onProgress?.(event.data.progress);
+                return;
+            }
+
+            this._runningTasks.delete(worker);
+
+            if (task) {
+                if ('error' in event.data) {
+                    task.reject(new Error(event.data.error));
+                } else {
+                    task.resolve(event.data.result);
+                }
+            }
+
+            this._idleWorkers.push(worker);
+            this._next();
+        });
+
+        worker.addEventListener('error', (event) => {
+            // the worker crashed: fail its task and replace it
+            const task = this._runningTasks.get(worker);
+            this._runningTasks.delete(worker);
+            task?.reject(new Error(`worker.pool worker failed: ${event.message}`));
+
+            worker.terminate();
+            this._workers = this._workers.filter((other) => other !== worker);
+            this._next();
+        });
+
+        this._workers.push(worker);
+
+        return worker;
+    }
+}
@@ -0,0 +1,50 @@
+import type { TypedArray } from '@cornerstonejs/dicom-codec';
+import DicomParser from './parser.dicom.ts';
+import type { DecodeOptions, DecodeProgress, FrameRange } from './parser.dicom.ts';
+import { scanFile } from './preloader.ts';
+import type { DicomFile, ScanOptions } from './preloader.ts';
+
+export type TaskInput = File | ArrayBuffer;
+
+export type WorkerRequest =
+    | { id: number; type: 'scan'; input: TaskInput; options: ScanOptions }
+    | { id: number; type: 'decode'; input: TaskInput; range: FrameRange };
+
+export type WorkerResponse =
+    | { id: number; result: DicomFile | TypedArray[] }
+    | { id: number; progress: DecodeProgress }
+    | { id: number; error: string };
+
+const toFile = (input: TaskInput) => (input instanceof File ? input : new File([input], 'buffer'));
+
+/**
+ * Run a request. Used by the workers and, without workers, on the main thread.
+ * The options apply to decoding: progress after every frame, cancellation between frames.
+ */
+export const runTask = async (
+    request: WorkerRequest,
+    options: DecodeOptions = {}
+): Promise<DicomFile | TypedArray[]> => {
+    switch (request.type) {
+        case 'scan':
+            return scanFile(toFile(request.input), request.options);
+        case 'decode': {
+            const buffer =
+                request.input instanceof File ? await request.input.arrayBuffer() : request.input;
+            const dicomParser = new DicomParser({ buffer });
+
+            return dicomParser.extractAllFrames(request.range, options);
+        }
+    }
+};
+
+/**
+ * Buffers of the decoded frames, each listed once, to transfer them without copying.
+ */
+export const transferables = (result: DicomFile | TypedArray[]) => {
+    if (!Array.isArray(result)) {
+        return [];
+    }
+
+    return [...new Set(result.map((frame) => frame.buffer as ArrayBuffer))];
+};
@@ -0,0 +1,135 @@
+import * as dicomParser from 'dicom-parser';
+import { describe, expect, it } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import { anonymizeDataSet } from './writer.anonymizer.ts';
+import { IMPLICIT_VR_LITTLE_ENDIAN, writeDicom } from './writer.dicom.ts';
+
+const sampleDataSet = () => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4.5');
+    dataSet.setString('StudyInstanceUID', '1.2.3.4');
+    dataSet.setString('SeriesInstanceUID', '1.2.3.4.1');
+    dataSet.setString('PatientName', 'Doe^John');
+    dataSet.setString('PatientID', 'ID12345');
+    dataSet.setString('PatientBirthDate', '19700101', 'DA');
+    dataSet.setString('StudyDate', '20240315', 'DA');
+    dataSet.setString('InstitutionName', 'General Hospital');
+    dataSet.setString('Modality', 'CT', 'CS');
+    dataSet.setNumbers('Rows', 2);
+    dataSet.setNumbers('PixelSpacing', [0.5, 0.5]);
+    // public attributes the profile subset does not list
+    dataSet.setString('x00401002', 'Headache', 'LO'); // Reason for the Requested Procedure
+    dataSet.setString('x00700084', 'Smith^Jane', 'PN'); // Content Creator's Name
+    dataSet.setString('x00380400', 'Ward 7', 'LO'); // Patient's Institution Residence
+    // private attribute
+    dataSet.setString('x00091001', 'secret', 'LO');
+
+    const reference = new MutableDataSet();
+    reference.setString('x00081150', '1.2.840.10008.5.1.4.1.1.2');
+    reference.setString('x00081155', '1.2.3.4.5');
+    dataSet.setSequence('x00081140', [reference]);
+
+    return dataSet;
+};
+
+/**
+ * Dataset as read back from an implicit VR file: VRs come from the dictionary, else UN
+ */
+const readImplicit = (dataSet: MutableDataSet) =>
+    MutableDataSet.fromDataSet(
+        dicomParser.parseDicom(
+            writeDicom(dataSet, { transferSyntaxUID: IMPLICIT_VR_LITTLE_ENDIAN })
+        )
+    );
+
+describe('anonymizeDataSet', () => {
+    it('applies the profile actions', () => {
+        const dataSet = sampleDataSet();
+        anonymizeDataSet(dataSet);
+
+        expect(dataSet.string('PatientName')).toBe('');
+        expect(dataSet.has('PatientName')).toBe(true);
+        expect(dataSet.has('PatientBirthDate')).toBe(true);
+        expect(dataSet.string('PatientBirthDate')).toBe('');
+        expect(dataSet.has('InstitutionName')).toBe(false);
+        expect(dataSet.has('x00091001')).toBe(false);
+        expect(dataSet.string('PatientIdentityRemoved')).toBe('YES');
+    });
+
+    it('removes public attributes outside the profile and keeps the image description', () => {
+        const dataSet = sampleDataSet();
+        const changes = anonymizeDataSet(dataSet);
+
+        expect(dataSet.has('x00401002')).toBe(false);
+        expect(dataSet.has('x00700084')).toBe(false);
+        expect(dataSet.has('x00380400')).toBe(false);
+        expect(changes).toContainEqual({
+            tag: 'x00700084',
+            keyword: '(0070,0084)',
+            action: 'X',
+            path: [],
+        });
+
+        expect(dataSet.string('Modality')).toBe('CT');
+        expect(dataSet.numbers('Rows')).toEqual([2]);
+        expect(dataSet.numbers('PixelSpacing')).toEqual([0.5, 0.5]);
+    });
+
+    it('keeps the attributes listed in retainAttributes', () => {
+        const dataSet = sampleDataSet();
+        anonymizeDataSet(dataSet, { retainAttributes: [0x00380400, '(0070,0084)'] });
+
+        expect(dataSet.string('x00380400')).toBe('Ward 7');
+        expect(dataSet.string('x00700084')).toBe('Smith^Jane');
+        expect(dataSet.has('x00401002')).toBe(false);
+        expect(() => anonymizeDataSet(sampleDataSet(), { retainAttributes: ['Nope'] })).toThrow(
+            'unknown attribute: Nope'
+        );
+    });
+
+    it('remaps UIDs consistently and keeps class and standard UIDs', () => {
+        const dataSet = sampleDataSet();
+        dataSet.setString('FrameOfReferenceUID', '1.2.840.10008.1.4.1.1');
+        const uidMap = new Map<string, string>();
+        anonymizeDataSet(dataSet, {}, uidMap);
+
+        const sopInstanceUID = dataSet.string('SOPInstanceUID');
+        expect(sopInstanceUID).not.toBe('1.2.3.4.5');
+        expect(uidMap.get('1.2.3.4.5')).toBe(sopInstanceUID);
+        expect(dataSet.string('x00020003')).toBe(sopInstanceUID);
+
+        const reference = dataSet.element('x00081140')?.items?.[0];
+        expect(reference?.string('x00081155')).toBe(sopInstanceUID);
+        expect(reference?.string('x00081150')).toBe('1.2.840.10008.5.1.4.1.1.2');
+        expect(dataSet.string('SOPClassUID')).toBe('1.2.840.10008.5.1.4.1.1.2');
+        expect(dataSet.string('FrameOfReferenceUID')).toBe('1.2.840.10008.1.4.1.1');
+    });
+
+    it('remaps UIDs read from implicit VR without a dictionary VR', () => {
+        const original = sampleDataSet();
+        // Irradiation Event UID, not in the dictionary
+        original.setString('x00083010', '1.2.3.4.99', 'UI');
+
+        const dataSet = readImplicit(original);
+        expect(dataSet.element('x00083010')?.vr).toBe('UN');
+
+        const uidMap = new Map<string, string>();
+        anonymizeDataSet(dataSet, { retainAttributes: ['x00083010'] }, uidMap);
+
+        expect(dataSet.string('x00083010')).toBe(uidMap.get('1.2.3.4.99'));
+        expect(uidMap.get('1.2.3.4.99')).toBeTruthy();
+
+        const removed = readImplicit(original);
+        anonymizeDataSet(removed);
+        expect(removed.has('x00083010')).toBe(false);
+    });
+
+    it('keeps the UIDs with the Retain UIDs Option', () => {
+        const dataSet = sampleDataSet();
+        anonymizeDataSet(dataSet, { retainUIDs: true });
+
+        expect(dataSet.string('SOPInstanceUID')).toBe('1.2.3.4.5');
+        expect(dataSet.string('StudyInstanceUID')).toBe('1.2.3.4');
+    });
+});
@@ -0,0 +1,770 @@
+import Utils from './core.utils.ts';
+import { dictionaryEntry, formatTag, isPrivateTag, toTag } from './core.dictionary.ts';
+import MutableDataSet from './model.dataset.ts';
+import { loadDicomParser } from './preloader.ts';
+import type { DicomFile, Series } from './preloader.ts';
+import { writeDicom } from './writer.dicom.ts';
+import type { WriteOptions } from './writer.dicom.ts';
+
+/**
+ * PS3.15 Table E.1-1 actions: remove, replace with a zero length value, replace with a dummy
+ * value, replace the UID, keep, clean
+ */
+export type AnonymizationAction = 'X' | 'Z' | 'D' | 'U' | 'K' | 'C';
+
+/**
+ * Options of the profile retaining groups of attributes the Basic Profile removes
+ */
+type ProfileOption = 'dates' | 'patient' | 'device' | 'institution' | 'descriptors';
+
+export interface AnonymizerOptions extends WriteOptions {
+    /**
+     * Retain Longitudinal Temporal Information: 'full' keeps dates and times,
+     * 'modified' shifts dates by `dateOffset` days
+     */
+    retainLongitudinalTemporalInformation?: 'full' | 'modified';
+    /** Days added to every date with the 'modified' option, random (up to a year back) when absent */
+    dateOffset?: number;
+    /** Retain Patient Characteristics Option: sex, age, size, weight... */
+    retainPatientCharacteristics?: boolean;
+    /** Retain Device Identity Option: station name, serial numbers... */
+    retainDeviceIdentity?: boolean;
+    /** Retain Institution Identity Option */
+    retainInstitutionIdentity?: boolean;
+    /** Retain UIDs Option */
+    retainUIDs?: boolean;
+    /**
+     * Public attributes outside the profile to keep besides the image description ones,
+     * by keyword or tag. Any other public attribute outside the profile is removed.
+     */
+    retainAttributes?: (string | number)[];
+    /** Clean Descriptors Option: keep descriptions, without the patient name and ID they may contain */
+    cleanDescriptors?: boolean;
+    /** Replacement of Patient's Name, empty when absent */
+    patientName?: string;
+    /** Replacement of Patient ID, empty when absent */
+    patientID?: string;
+    /** UIDs already remapped, e.g. by a previous run, to keep the mapping consistent */
+    uidMap?: Map<string, string>;
+}
+
+export interface AnonymizationChange {
+    tag: string;
+    keyword: string;
+    action: AnonymizationAction | 'shift';
+    /** Tags of the sequences holding the attribute, outermost first */
+    path: string[];
+}
+
+export interface AnonymizedFile {
+    dicomFile: DicomFile;
+    sopInstanceUID: string | null;
+    buffer: Uint8Array;
+    changes: AnonymizationChange[];
+}
+
+export interface AnonymizationReport {
+    files: AnonymizedFile[];
+    failures: { dicomFile: DicomFile; reason: string }[];
+    /** Original to replacement UIDs */
+    uidMap: Map<string, string>;
+    /** Days added to the dates, null when they were removed or kept */
+    dateOffset: number | null;
+}
+
+/**
+ * Subset of PS3.15 Table E.1-1, with the option retaining each attribute. Attributes missing
+ * from it are removed unless `RETAINED` lists them.
+ */
+const PROFILE: Record<string, [AnonymizationAction, ProfileOption?]> = {
+    x00080012: ['X', 'dates'], // Instance Creation Date
+    x00080013: ['X', 'dates'], // Instance Creation Time
+    x00080020: ['Z', 'dates'], // Study Date
+    x00080021: ['X', 'dates'], // Series Date
+    x00080022: ['X', 'dates'], // Acquisition Date
+    x00080023: ['Z', 'dates'], // Content Date
+    x0008002a: ['X', 'dates'], // Acquisition DateTime
+    x00080030: ['Z', 'dates'], // Study Time
+    x00080031: ['X', 'dates'], // Series Time
+    x00080032: ['X', 'dates'], // Acquisition Time
+    x00080033: ['Z', 'dates'], // Content Time
+    x00080050: ['Z'], // Accession Number
+    x00080080: ['X', 'institution'], // Institution Name
+    x00080081: ['X', 'institution'], // Institution Address
+    x00080090: ['Z'], // Referring Physician's Name
+    x00080092: ['X'], // Referring Physician's Address
+    x00080094: ['X'], // Referring Physician's Telephone Numbers
+    x00080201: ['X', 'dates'], // Timezone Offset From UTC
+    x00081010: ['X', 'device'], // Station Name
+    x00081030: ['X', 'descriptors'], // Study Description
+    x0008103e: ['X', 'descriptors'], // Series Description
+    x00081040: ['X', 'institution'], // Institutional Department Name
+    x00081048: ['X'], // Physician(s) of Record
+    x00081050: ['X'], // Performing Physicians' Name
+    x00081060: ['X'], // Name of Physician(s) Reading Study
+    x00081070: ['X'], // Operators' Name
+    x00081080: ['X', 'descriptors'], // Admitting Diagnoses Description
+    x00081120: ['X'], // Referenced Patient Sequence
+    x00082111: ['X', 'descriptors'], // Derivation Description
+    x00100010: ['Z'], // Patient's Name
+    x00100020: ['Z'], // Patient ID
+    x00100021: ['X'], // Issuer of Patient ID
+    x00100030: ['Z'], // Patient's Birth Date
+    x00100032: ['X'], // Patient's Birth Time
+    x00100040: ['Z', 'patient'], // Patient's Sex
+    x00101000: ['X'], // Other Patient IDs
+    x00101001: ['X'], // Other Patient Names
+    x00101002: ['X'], // Other Patient IDs Sequence
+    x00101005: ['X'], // Patient's Birth Name
+    x00101010: ['X', 'patient'], // Patient's Age
+    x00101020: ['X', 'patient'], // Patient's Size
+    x00101030: ['X', 'patient'], // Patient's Weight
+    x00101040: ['X'], // Patient's Address
+    x00101060: ['X'], // Patient's Mother's Birth Name
+    x00101080: ['X'], // Military Rank
+    x00101081: ['X'], // Branch of Service
+    x00101090: ['X'], // Medical Record Locator
+    x00102000: ['X', 'patient'], // Medical Alerts
+    x00102110: ['X', 'patient'], // Allergies
+    x00102150: ['X'], // Country of Residence
+    x00102152: ['X'], // Region of Residence
+    x00102154: ['X'], // Patient's Telephone Numbers
+    x00102160: ['X', 'patient'], // Ethnic Group
+    x00102180: ['X'], // Occupation
+    x001021a0: ['X', 'patient'], // Smoking Status
+    x001021b0: ['X', 'patient'], // Additional Patient History
+    x001021c0: ['X', 'patient'], // Pregnancy Status
+    x001021d0: ['X', 'dates'], // Last Menstrual Date
+    x001021f0: ['X'], // Patient's Religious Preference
+    x00104000: ['X', 'descriptors'], // Patient Comments
+    x00180010: ['Z', 'descriptors'], // Contrast/Bolus Agent
+    x00181000: ['X', 'device'], // Device Serial Number
+    x00181002: ['U', 'device'], // Device UID
+    x00181004: ['X', 'device'], // Plate ID
+    x00181005: ['X', 'device'], // Generator ID
+    x00181007: ['X', 'device'], // Cassette ID
+    x00181008: ['X', 'device'], // Gantry ID
+    x00181030: ['X', 'descriptors'], // Protocol Name
+    x00181400: ['X', 'descriptors'], // Acquisition Device Processing Description
+    x0018700a: ['X', 'device'], // Detector ID
+    x00200010: ['Z'], // Study ID
+    x00204000: ['X', 'descriptors'], // Image Comments
+    x00209158: ['X', 'descriptors'], // Frame Comments
+    x00321032: ['X'], // Requesting Physician
+    x00321033: ['X'], // Requesting Service
+    x00321060: ['X', 'descriptors'], // Requested Procedure Description
+    x00324000: ['X', 'descriptors'], // Study Comments
+    x00380010: ['X'], // Admission ID
+    x00380300: ['X'], // Current Patient Location
+    x00380500: ['X', 'patient'], // Patient State
+    x00400243: ['X', 'institution'], // Performed Location
+    x00400244: ['X', 'dates'], // Performed Procedure Step Start Date
+    x00400245: ['X', 'dates'], // Performed Procedure Step Start Time
+    x00400253: ['X'], // Performed Procedure Step ID
+    x00400254: ['X', 'descriptors'], // Performed Procedure Step Description
+    x00400275: ['X'], // Request Attributes Sequence
+    x00401001: ['X'], // Requested Procedure ID
+    x0040a075: ['D'], // Verifying Observer Name
+    x0040a123: ['D'], // Person Name
+    x0040a160: ['X', 'descriptors'], // Text Value
+    x0040a730: ['X'], // Content Sequence
+    x04000561: ['X'], // Original Attributes Sequence
+    x4ffe0001: ['X'], // MAC Parameters Sequence
+    x60003000: ['X'], // Overlay Data
+    x60004000: ['X', 'descriptors'], // Overlay Comments
+    xfffafffa: ['X'], // Digital Signatures Sequence
+    xfffcfffc: ['X'], // Data Set Trailing Padding
+};
+
+/**
+ * Attributes outside the profile that describe the image rather than the patient, kept.
+ * Every other public attribute outside the profile is removed, see `retainAttributes`.
+ */
+const RETAINED = new Set([
+    // File Meta Information
+    'x00020000', // File Meta Information Group Length
+    'x00020001', // File Meta Information Version
+    'x00020002', // Media Storage SOP Class UID
+    'x00020003', // Media Storage SOP Instance UID
+    'x00020010', // Transfer Syntax UID
+    'x00020012', // Implementation Class UID
+    'x00020013', // Implementation Version Name
+
+    // SOP Common, General Series and General Image
+    'x00080005', // Specific Character Set
+    'x00080008', // Image Type
+    'x00080016', // SOP Class UID
+    'x00080018', // SOP Instance UID
+    'x00080060', // Modality
+    'x00080064', // Conversion Type
+    'x00080068', // Presentation Intent Type
+    'x00080070', // Manufacturer
+    'x00081090', // Manufacturer's Model Name
+    'x00089205', // Pixel Presentation
+    'x00089206', // Volumetric Properties
+    'x00089207', // Volume Based Calculation Technique
+    'x00280301', // Burned In Annotation
+    'x00280303', // Longitudinal Temporal Information Modified
+    'x00120062', // Patient Identity Removed
+    'x00120063', // De-identification Method
+    'x00120064', // De-identification Method Code Sequence
+
+    // Codes, in the code sequences kept
+    'x00080100', // Code Value
+    'x00080102', // Coding Scheme Designator
+    'x00080103', // Coding Scheme Version
+    'x00080104', // Code Meaning
+
+    // References between instances
+    'x00081115', // Referenced Series Sequence
+    'x00081140', // Referenced Image Sequence
+    'x0008114a', // Referenced Instance Sequence
+    'x00081150', // Referenced SOP Class UID
+    'x00081155', // Referenced SOP Instance UID
+    'x00081160', // Referenced Frame Number
+    'x00081199', // Referenced SOP Sequence
+    'x00082112', // Source Image Sequence
+    'x00089124', // Derivation Image Sequence
+
+    // Study, series, instance and frame of reference
+    'x0020000d', // Study Instance UID
+    'x0020000e', // Series Instance UID
+    'x00200011', // Series Number
+    'x00200012', // Acquisition Number
+    'x00200013', // Instance Number
+    'x00200052', // Frame of Reference UID
+    'x00201040', // Position Reference Indicator
+
+    // Acquisition
+    'x00180015', // Body Part Examined
+    'x00180020', // Scanning Sequence
+    'x00180021', // Sequence Variant
+    'x00180022', // Scan Options
+    'x00180023', // MR Acquisition Type
+    'x00180050', // Slice Thickness
+    'x00180060', // KVP
+    'x00180080', // Repetition Time
+    'x00180081', // Echo Time
+    'x00180082', // Inversion Time
+    'x00180087', // Magnetic Field Strength
+    'x00180088', // Spacing Between Slices
+    'x00181060', // Trigger Time
+    'x00181063', // Frame Time
+    'x00181065', // Frame Time Vector
+    'x00181100', // Reconstruction Diameter
+    'x00181120', // Gantry/Detector Tilt
+    'x00181150', // Exposure Time
+    'x00181151', // X-Ray Tube Current
+    'x00181152', // Exposure
+    'x00181164', // Imager Pixel Spacing
+    'x00181210', // Convolution Kernel
+    'x00181310', // Acquisition Matrix
+    'x00181314', // Flip Angle
+    'x00185100', // Patient Position
+    'x00185101', // View Position
+    'x00189087', // Diffusion b-value
+    'x00189089', // Diffusion Gradient Orientation
+    'x00189117', // MR Diffusion Sequence
+
+    // Ultrasound regions
+    'x00186011', // Sequence of Ultrasound Regions
+    'x00186012', // Region Spatial Format
+    'x00186014', // Region Data Type
+    'x00186016', // Region Flags
+    'x00186018', // Region Location Min X0
+    'x0018601a', // Region Location Min Y0
+    'x0018601c', // Region Location Max X1
+    'x0018601e', // Region Location Max Y1
+    'x00186020', // Reference Pixel X0
+    'x00186022', // Reference Pixel Y0
+    'x00186024', // Physical Units X Direction
+    'x00186026', // Physical Units Y Direction
+    'x00186028', // Reference Pixel Physical Value X
+    'x0018602a', // Reference Pixel Physical Value Y
+    'x0018602c', // Physical Delta X
+    'x0018602e', // Physical Delta Y
+
+    // Image plane, temporal position and multi-frame dimensions
+    'x00200020', // Patient Orientation
+    'x00200032', // Image Position (Patient)
+    'x00200037', // Image Orientation (Patient)
+    'x00200060', // Laterality
+    'x00200062', // Image Laterality
+    'x00200100', // Temporal Position Identifier
+    'x00200105', // Number of Temporal Positions
+    'x00201041', // Slice Location
+    'x00209056', // Stack ID
+    'x00209057', // In-Stack Position Number
+    'x00209111', // Frame Content Sequence
+    'x00209113', // Plane Position Sequence
+    'x00209116', // Plane Orientation Sequence
+    'x00209128', // Temporal Position Index
+    'x00209157', // Dimension Index Values
+    'x00209164', // Dimension Organization UID
+    'x00209165', // Dimension Index Pointer
+    'x00209167', // Functional Group Pointer
+    'x00209221', // Dimension Organization Sequence
+    'x00209222', // Dimension Index Sequence
+    'x00209421', // Dimension Description Label
+    'x52009229', // Shared Functional Groups Sequence
+    'x52009230', // Per-frame Functional Groups Sequence
+
+    // Image pixel description and pixel value transformations
+    'x00280002', // Samples per Pixel
+    'x00280004', // Photometric Interpretation
+    'x00280006', // Planar Configuration
+    'x00280008', // Number of Frames
+    'x00280009', // Frame Increment Pointer
+    'x00280010', // Rows
+    'x00280011', // Columns
+    'x00280030', // Pixel Spacing
+    'x00280034', // Pixel Aspect Ratio
+    'x00280100', // Bits Allocated
+    'x00280101', // Bits Stored
+    'x00280102', // High Bit
+    'x00280103', // Pixel Representation
+    'x00280106', // Smallest Image Pixel Value
+    'x00280107', // Largest Image Pixel Value
+    'x00280120', // Pixel Padding Value
+    'x00281040', // Pixel Intensity Relationship
+    'x00281041', // Pixel Intensity Relationship Sign
+    'x00281050', // Window Center
+    'x00281051', // Window Width
+    'x00281052', // Rescale Intercept
+    'x00281053', // Rescale Slope
+    'x00281054', // Rescale Type
+    'x00281055', // Window Center & Width Explanation
+    'x00281056', // VOI LUT Function
+    'x00281101', // Red Palette Color Lookup Table Descriptor
+    'x00281102', // Green Palette Color Lookup Table Descriptor
+    'x00281103', // Blue Palette Color Lookup Table Descriptor
+    'x00281199', // Palette Color Lookup Table UID
+    'x00281201', // Red Palette Color Lookup Table Data
+    'x00281202', // Green Palette Color Lookup Table Data
+    'x00281203', // Blue Palette Color Lookup Table Data
+    'x00281221', // Segmented Red Palette Color Lookup Table Data
+    'x00281222', // Segmented Green Palette Color Lookup Table Data
+    'x00281223', // Segmented Blue Palette Color Lookup Table Data
+    'x00282110', // Lossy Image Compression
+    'x00282112', // Lossy Image Compression Ratio
+    'x00282114', // Lossy Image Compression Method
+    'x00283000', // Modality LUT Sequence
+    'x00283002', // LUT Descriptor
+    'x00283003', // LUT Explanation
+    'x00283004', // Modality LUT Type
+    'x00283006', // LUT Data
+    'x00283010', // VOI LUT Sequence
+    'x00289110', // Pixel Measures Sequence
+    'x00289132', // Frame VOI LUT Sequence
+    'x00289145', // Pixel Value Transformation Sequence
+
+    // Segmentation
+    'x00620001', // Segmentation Type
+    'x00620002', // Segment Sequence
+    'x00620003', // Segmented Property Category Code Sequence
+    'x00620004', // Segment Number
+    'x00620005', // Segment Label
+    'x00620008', // Segment Algorithm Type
+    'x00620009', // Segment Algorithm Name
+    'x0062000a', // Segment Identification Sequence
+    'x0062000b', // Referenced Segment Number
+    'x0062000c', // Recommended Display Grayscale Value
+    'x0062000d', // Recommended Display CIELab Value
+    'x0062000e', // Maximum Fractional Value
+    'x0062000f', // Segmented Property Type Code Sequence
+    'x00620010', // Segmentation Fractional Type
+
+    // RT Structure Set
+    'x30060010', // Referenced Frame of Reference Sequence
+    'x30060012', // RT Referenced Study Sequence
+    'x30060014', // RT Referenced Series Sequence
+    'x30060016', // Contour Image Sequence
+    'x30060020', // Structure Set ROI Sequence
+    'x30060022', // ROI Number
+    'x30060024', // Referenced Frame of Reference UID
+    'x30060026', // ROI Name
+    'x3006002a', // ROI Display Color
+    'x30060036', // ROI Generation Algorithm
+    'x30060039', // ROI Contour Sequence
+    'x30060040', // Contour Sequence
+    'x30060042', // Contour Geometric Type
+    'x30060046', // Number of Contour Points
+    'x30060048', // Contour Number
+    'x30060050', // Contour Data
+    'x30060080', // RT ROI Observations Sequence
+    'x30060082', // Observation Number
+    'x30060084', // Referenced ROI Number
+    'x300600a4', // RT ROI Interpreted Type
+
+    // Pixel data
+    'x7fe00008', // Float Pixel Data
+    'x7fe00009', // Double Float Pixel Data
+    'x7fe00010', // Pixel Data
+]);
+
+/**
+ * UIDs identifying classes and syntaxes rather than instances, never replaced
+ */
+const CLASS_UIDS = [
+    'x00020002', // Media Storage SOP Class UID
+    'x00020010', // Transfer Syntax UID
+    'x00020012', // Implementation Class UID
+    'x00041510', // Referenced SOP Class UID in File
+    'x00041512', // Referenced Transfer Syntax UID in File
+    'x00080016', // SOP Class UID
+    'x0008001a', // Related General SOP Class UID
+    'x0008001b', // Original Specialized SOP Class UID
+    'x0008010c', // Coding Scheme UID
+    'x00080118', // Mapping Resource UID
+    'x00081150', // Referenced SOP Class UID
+    'x0008115a', // SOP Classes Supported
+];
+
+const DUMMY_VALUES: Record<string, string> = {
+    AS: '000Y',
+    DA: '19000101',
+    DS: '0',
+    DT: '19000101000000',
+    IS: '0',
+    TM: '000000',
+};
+
+// De-identification Method Code Sequence codes (CID 7050)
+const METHOD_CODES: [string, string][] = [
+    ['113100', 'Basic Application Confidentiality Profile'],
+    ['113105', 'Clean Descriptors Option'],
+    ['113106', 'Retain Longitudinal Temporal Information Full Dates Option'],
+    ['113107', 'Retain Longitudinal Temporal Information Modified Dates Option'],
+    ['113108', 'Retain Patient Characteristics Option'],
+    ['113109', 'Retain Device Identity Option'],
+    ['113110', 'Retain UIDs Option'],
+    ['113112', 'Retain Institution Identity Option'],
+];
+
+/**
+ * Profile entry of a tag, 60xx repeating groups included
+ */
+const profileEntry = (tag: string) => {
+    const group = parseInt(tag.slice(1, 5), 16);
+
+    return PROFILE[group >= 0x6000 && group <= 0x601e ? `x6000${tag.slice(5)}` : tag] ?? null;
+};
+
+// UIDs defined by the standard (well-known frames of reference, coding schemes...), never replaced
+const STANDARD_UID_ROOT = '1.2.840.10008.';
+
+/**
+ * Whether a value without a known VR is a list of UIDs
+ */
+const isUIDList = (value: string) =>
+    value !== '' && value.split('\\').every((uid) => /^[0-2](\.(0|[1-9]\d*)){2,}$/.test(uid));
+
+const retained = (option: ProfileOption | undefined, options: AnonymizerOptions) => {
+    switch (option) {
+        case 'dates':
+            return !!options.retainLongitudinalTemporalInformation;
+        case 'patient':
+            return !!options.retainPatientCharacteristics;
+        case 'device':
+            return !!options.retainDeviceIdentity;
+        case 'institution':
+            return !!options.retainInstitutionIdentity;
+        case 'descriptors':
+            return !!options.cleanDescriptors;
+        default:
+            return false;
+    }
+};
+
+/**
+ * Date part of a DA or DT value moved by a number of days
+ */
+const shiftDate = (value: string, days: number) => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+        return value;
+    }
+
+    const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3] + days));
+    const shifted = [
+        date.getUTCFullYear().toString().padStart(4, '0'),
+        (date.getUTCMonth() + 1).toString().padStart(2, '0'),
+        date.getUTCDate().toString().padStart(2, '0'),
+    ].join('');
+
+    return shifted + value.slice(8);
+};
+
+/**
+ * Remove the patient name components and ID from a free text value
+ */
+const clean = (text: string, identifiers: string[]) =>
+    identifiers.reduce(
+        (cleaned, identifier) =>
+            cleaned.replace(
+                new RegExp(identifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'),
+                '***'
+            ),
+        text
+    );
+
+interface AnonymizationContext {
+    options: AnonymizerOptions;
+    /** Tags of the attributes outside the profile to keep */
+    retainedTags: Set<string>;
+    uidMap: Map<string, string>;
+    dateOffset: number | null;
+    identifiers: string[];
+    changes: AnonymizationChange[];
+}
+
+const remapUID = (uid: string, uidMap: Map<string, string>) => {
+    if (uid.startsWith(STANDARD_UID_ROOT)) {
+        return uid;
+    }
+
+    if (!uidMap.has(uid)) {
+        uidMap.set(uid, Utils.generateUID());
+    }
+
+    return uidMap.get(uid) as string;
+};
+
+const anonymizeElements = (
+    dataSet: MutableDataSet,
+    context: AnonymizationContext,
+    path: string[] = []
+) => {
+    const { options } = context;
+
+    for (const tag of dataSet.tags) {
+        const element = dataSet.elements.get(tag);
+        if (!element) continue;
+
+        const record = (action: AnonymizationChange['action']) =>
+            context.changes.push({
+                tag,
+                keyword: dictionaryEntry(tag)?.keyword ?? formatTag(tag),
+                action,
+                path,
+            });
+
+        if (isPrivateTag(tag)) {
+            dataSet.delete(tag);
+            record('X');
+            continue;
+        }
+
+        const entry = profileEntry(tag);
+        let action: AnonymizationAction = entry?.[0] ?? (context.retainedTags.has(tag) ? 'K' : 'X');
+
+        // UIDs of instances, studies, series, frames of reference... wherever they are,
+        // by VR or, for elements kept without a known VR (implicit VR), by content
+        const uid =
+            element.vr === 'UI' ||
+            dictionaryEntry(tag)?.vr === 'UI' ||
+            (action === 'K' && element.vr === 'UN' && isUIDList(dataSet.string(tag) ?? ''));
+        if (uid && !CLASS_UIDS.includes(tag) && !tag.startsWith('x0002')) {
+            action = 'U';
+        }
+        if (action === 'U' && options.retainUIDs) {
+            action = 'K';
+        }
+        if (entry && action !== 'U' && retained(entry[1], options)) {
+            action = entry[1] === 'descriptors' ? 'C' : 'K';
+
+            if (
+                entry[1] === 'dates' &&
+                context.dateOffset !== null &&
+                (element.vr === 'DA' || element.vr === 'DT')
+            ) {
+                const value = dataSet.string(tag);
+                if (value) {
+                    dataSet.setString(tag, shiftDate(value, context.dateOffset), element.vr);
+                    record('shift');
+                }
+                continue;
+            }
+        }
+
+        switch (action) {
+            case 'X':
+                dataSet.delete(tag);
+                break;
+            case 'Z':
+                dataSet.setBytes(tag, new Uint8Array(), element.vr);
+                break;
+            case 'D':
+                dataSet.setString(tag, DUMMY_VALUES[element.vr] ?? 'ANONYMOUS', element.vr);
+                break;
+            case 'U': {
+                const uids = (dataSet.string(tag) ?? '').split('\\').filter((uid) => uid);
+                if (!uids.length) continue;
+                dataSet.setString(
+                    tag,
+                    uids.map((uid) => remapUID(uid, context.uidMap)),
+                    'UI'
+                );
+                break;
+            }
+            case 'C': {
+                const value = dataSet.string(tag);
+                if (!value || !element.value) continue;
+                const cleaned = clean(value, context.identifiers);
+                if (cleaned === value) continue;
+                dataSet.setString(tag, cleaned, element.vr);
+                break;
+            }
+            case 'K':
+                for (const item of element.items ?? []) {
+                    anonymizeElements(item, context, [...path, tag]);
+                }
+                continue;
+        }
+
+        record(action);
+    }
+};
+
+/**
+ * De-identify a dataset in place with the Basic Application Level Confidentiality Profile
+ * and the selected options. Public attributes outside the profile are removed unless they
+ * describe the image or are listed in `retainAttributes`. Returns the changes made.
+ */
+export const anonymizeDataSet = (
+    dataSet: MutableDataSet,
+    options: AnonymizerOptions = {},
+    uidMap: Map<string, string> = options.uidMap ?? new Map(),
+    dateOffset: number | null = null
+): AnonymizationChange[] => {
+    const patientName = dataSet.string('x00100010') ?? '';
+    const identifiers = [
+        ...patientName.split(/[\^=]/).filter((component) => component.trim().length > 1),
+        dataSet.string('x00100020') ?? '',
+    ].filter((identifier) => identifier);
+
+    const retainedTags = new Set(RETAINED);
+    for (const attribute of options.retainAttributes ?? []) {
+        const tag = toTag(attribute);
+        if (!tag) {
+            const error = new Error(`writer.anonymizer unknown attribute: ${attribute}`);
+            throw error;
+        }
+        retainedTags.add(tag);
+    }
+
+    const context: AnonymizationContext = {
+        options,
+        retainedTags,
+        uidMap,
+        dateOffset:
+            options.retainLongitudinalTemporalInformation === 'modified' ? dateOffset ?? 0 : null,
+        identifiers,
+        changes: [],
+    };
+
+    anonymizeElements(dataSet, context);
+
+    if (options.patientName !== undefined) {
+        dataSet.setString('x00100010', options.patientName, 'PN');
+    }
+    if (options.patientID !== undefined) {
+        dataSet.setString('x00100020', options.patientID, 'LO');
+    }
+
+    // meta header follows the dataset
+    const sopInstanceUID = dataSet.string('x00080018');
+    if (sopInstanceUID) {
+        dataSet.setString('x00020003', sopInstanceUID, 'UI');
+    }
+
+    // Patient Identity Removed, De-identification Method and its codes
+    const codes = METHOD_CODES.filter(([value]) => {
+        switch (value) {
+            case '113105':
+                return options.cleanDescriptors;
+            case '113106':
+                return options.retainLongitudinalTemporalInformation === 'full';
+            case '113107':
+                return options.retainLongitudinalTemporalInformation === 'modified';
+            case '113108':
+                return options.retainPatientCharacteristics;
+            case '113109':
+                return options.retainDeviceIdentity;
+            case '113110':
+                return options.retainUIDs;
+            case '113112':
+                return options.retainInstitutionIdentity;
+            default:
+                return true;
+        }
+    });
+
+    dataSet.setString('x00120062', 'YES', 'CS');
+    dataSet.setString(
+        'x00120063',
+        codes.map(([, meaning]) => meaning.slice(0, 64)),
+        'LO'
+    );
+    dataSet.setSequence(
+        'x00120064',
+        codes.map(([value, meaning]) => {
+            const code = new MutableDataSet();
+            code.setString('x00080100', value, 'SH');
+            code.setString('x00080102', 'DCM', 'SH');
+            code.setString('x00080104', meaning, 'LO');
+            return code;
+        })
+    );
+    if (options.retainLongitudinalTemporalInformation) {
+        dataSet.setString(
+            'x00280303',
+            options.retainLongitudinalTemporalInformation === 'modified'
+                ? 'MODIFIED'
+                : 'UNMODIFIED',
+            'CS'
+        );
+    }
+
+    return context.changes;
+};
+
+/**
+ * De-identify every file of a preloader result. UIDs are remapped consistently across the
+ * files so the series, studies and references between instances are preserved.
+ */
+export const anonymizeSeries = async (
+    series: Series[],
+    options: AnonymizerOptions = {}
+): Promise<AnonymizationReport> => {
+    const uidMap = options.uidMap ?? new Map<string, string>();
+    const dateOffset =
+        options.retainLongitudinalTemporalInformation === 'modified'
+            ? options.dateOffset ?? -1 - Math.floor(Math.random() * 365)
+            : null;
+
+    const report: AnonymizationReport = { files: [], failures: [], uidMap, dateOffset };
+    const dicomFiles = new Set(series.flatMap((serie) => serie.dicomFiles));
+
+    for (const dicomFile of dicomFiles) {
+        try {
+            const dicomParser = await loadDicomParser(dicomFile);
+            const dataSet = MutableDataSet.fromDataSet(dicomParser.rawHeader);
+            const changes = anonymizeDataSet(dataSet, options, uidMap, dateOffset);
+
+            report.files.push({
+                dicomFile,
+                sopInstanceUID: dataSet.string('x00080018'),
+                buffer: writeDicom(dataSet, options),
+                changes,
+            });
+        } catch (error) {
+            report.failures.push({
+                dicomFile,
+                reason: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    return report;
+};
@@ -0,0 +1,122 @@
+import * as dicomParser from 'dicom-parser';
+import { describe, expect, it } from 'vitest';
+import MutableDataSet from './model.dataset.ts';
+import DicomParser from './parser.dicom.ts';
+import {
+    EXPLICIT_VR_LITTLE_ENDIAN,
+    IMPLICIT_VR_LITTLE_ENDIAN,
+    writeDicom,
+} from './writer.dicom.ts';
+
+const sampleDataSet = () => {
+    const dataSet = new MutableDataSet();
+    dataSet.setString('SOPClassUID', '1.2.840.10008.5.1.4.1.1.2');
+    dataSet.setString('SOPInstanceUID', '1.2.3.4.5');
+    dataSet.setString('PatientName', 'Doe^John');
+    dataSet.setString('PatientID', 'ODD');
+    dataSet.setNumbers('Rows', 2);
+    dataSet.setNumbers('Columns', 2);
+    dataSet.setNumbers('PixelSpacing', [0.5, 0.25]);
+    dataSet.setNumbers('x00181063', 33.3, 'DS');
+
+    const item = new MutableDataSet();
+    item.setString('x00081150', '1.2.840.10008.5.1.4.1.1.2');
+    item.setString('x00081155', '1.2.3.4.6');
+    dataSet.setSequence('x00081140', [item]);
+
+    dataSet.setBytes('x7fe00010', new Uint8Array([1, 0, 2, 0, 3, 0, 4, 0]), 'OW');
+
+    return dataSet;
+};
+
+describe('writeDicom', () => {
+    for (const transferSyntaxUID of [EXPLICIT_VR_LITTLE_ENDIAN, IMPLICIT_VR_LITTLE_ENDIAN]) {
+        for (const undefinedLength of [false, true]) {
+            it(`round-trips through dicom-parser (${transferSyntaxUID}, undefined lengths ${undefinedLength})`, () => {
+                const bytes = writeDicom(sampleDataSet(), { transferSyntaxUID, undefinedLength });
+                const parsed = dicomParser.parseDicom(bytes);
+
+                expect(String.fromCharCode(...bytes.subarray(128, 132))).toBe('DICM');
+                expect(parsed.string('x00020010')).toBe(transferSyntaxUID);
+                expect(parsed.string('x00020002')).toBe('1.2.840.10008.5.1.4.1.1.2');
+                expect(parsed.string('x00020003')).toBe('1.2.3.4.5');
+                expect(parsed.string('x00100010')).toBe('Doe^John');
+                expect(parsed.string('x00100020')).toBe('ODD');
+                expect(parsed.uint16('x00280010')).toBe(2);
+                expect(parsed.floatString('x00280030', 1)).toBe(0.25);
+                expect(parsed.elements.x00081140.items?.[0].dataSet?.string('x00081155')).toBe(
+                    '1.2.3.4.6'
+                );
+
+                const pixelData = parsed.elements.x7fe00010;
+                expect(
+                    Array.from(
+                        bytes.subarray(
+                            pixelData.dataOffset,
+                            pixelData.dataOffset + pixelData.length
+                        )
+                    )
+                ).toEqual([1, 0, 2, 0, 3, 0, 4, 0]);
+
+                // the group length ends the meta header at the first element of the dataset
+                const metaEnd =
+                    parsed.elements.x00020000.dataOffset + 4 + (parsed.uint32('x00020000') ?? 0);
+                expect(parsed.elements.x00080016.dataOffset - 8).toBe(metaEnd);
+            });
+        }
+    }
+
+    it('writes the same bytes after a read', () => {
+        const bytes = writeDicom(sampleDataSet());
+        const copy = MutableDataSet.fromDataSet(dicomParser.parseDicom(bytes));
+
+        expect(writeDicom(copy)).toEqual(bytes);
+    });
+
+    it('keeps encapsulated fragments with a compressed transfer syntax', () => {
+        const dataSet = sampleDataSet();
+        dataSet.setFragments('x7fe00010', [new Uint8Array(), new Uint8Array([0xff, 0xd8, 0xff])]);
+
+        expect(() => writeDicom(dataSet)).toThrow('needs a compressed transfer syntax');
+
+        const parsed = dicomParser.parseDicom(
+            writeDicom(dataSet, { transferSyntaxUID: '1.2.840.10008.1.2.4.50' })
+        );
+        expect(parsed.elements.x7fe00010.fragments?.[0].length).toBe(4);
+    });
+
+    it('throws when a value does not fit a short VR', () => {
+        const dataSet = sampleDataSet();
+        dataSet.setString('x00104000', 'x'.repeat(0x10000), 'LT');
+
+        expect(() => writeDicom(dataSet)).toThrow('too long for VR LT');
+        expect(() =>
+            writeDicom(dataSet, { transferSyntaxUID: IMPLICIT_VR_LITTLE_ENDIAN })
+        ).not.toThrow();
+    });
+
+    it('writes LUT Data as OW, also when it was set or read as US', () => {
+        const entries = Array.from({ length: 40000 }, (_, index) => index);
+        const item = new MutableDataSet();
+        item.setNumbers('x00283002', [40000, 0, 16], 'US');
+        item.setNumbers('x00283006', entries, 'US');
+        const dataSet = sampleDataSet();
+        dataSet.setSequence('x00283000', [item]);
+
+        const bytes = writeDicom(dataSet);
+        const lookupTable = new DicomParser({
+            buffer: bytes.buffer as ArrayBuffer,
+        }).modalityLookupTable();
+
+        expect(lookupTable?.numberOfEntries).toBe(40000);
+        expect(Array.from(lookupTable?.data ?? []).slice(-2)).toEqual([39998, 39999]);
+
+        const element =
+            dicomParser.parseDicom(bytes).elements.x00283000.items?.[0].dataSet?.elements.x00283006;
+        expect(element?.vr).toBe('OW');
+
+        const defaultVR = new MutableDataSet();
+        defaultVR.setNumbers('LUTData', [1, 2]);
+        expect(defaultVR.element('LUTData')?.vr).toBe('OW');
+    });
+});
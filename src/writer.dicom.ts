@@ -0,0 +1,214 @@
+import { dictionaryEntry } from './core.dictionary.ts';
+import MutableDataSet from './model.dataset.ts';
+import type { MutableElement } from './model.dataset.ts';
+
+export interface WriteOptions {
+    /** Transfer syntax of the output, defaults to the one of the meta header, else explicit VR little endian */
+    transferSyntaxUID?: string;
+    /** Write sequences and items with undefined lengths and delimiters (defaults to defined lengths) */
+    undefinedLength?: boolean;
+}
+
+export const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+export const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+
+const IMPLEMENTATION_CLASS_UID = '2.25.137255216985296528989900630525730124898';
+const IMPLEMENTATION_VERSION_NAME = 'DICOMLOADERTS';
+
+// VRs with a reserved field and a 32 bit length in explicit VR
+const LONG_VRS = ['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV'];
+
+// VRs padded with a null byte instead of a space
+const NULL_PADDED_VRS = ['OB', 'UI', 'UN'];
+
+const UNDEFINED_LENGTH = 0xffffffff;
+
+interface Encoding {
+    explicit: boolean;
+    undefinedLength: boolean;
+}
+
+const byteLength = (chunks: Uint8Array[]) =>
+    chunks.reduce((length, chunk) => length + chunk.length, 0);
+
+const concat = (chunks: Uint8Array[]) => {
+    const bytes = new Uint8Array(byteLength(chunks));
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+};
+
+/**
+ * Tag and length, with the VR in explicit VR
+ */
+const header = (tag: string, vr: string | null, length: number) => {
+    const long = vr === null || LONG_VRS.includes(vr);
+    const bytes = new Uint8Array(vr === null ? 8 : long ? 12 : 8);
+    const view = new DataView(bytes.buffer);
+
+    view.setUint16(0, parseInt(tag.slice(1, 5), 16), true);
+    view.setUint16(2, parseInt(tag.slice(5, 9), 16), true);
+
+    if (vr === null) {
+        view.setUint32(4, length, true);
+    } else if (long) {
+        bytes[4] = vr.charCodeAt(0);
+        bytes[5] = vr.charCodeAt(1);
+        view.setUint32(8, length, true);
+    } else {
+        if (length > 0xffff) {
+            const error = new Error(`writer.dicom ${tag} is too long for VR ${vr}: ${length}`);
+            throw error;
+        }
+        bytes[4] = vr.charCodeAt(0);
+        bytes[5] = vr.charCodeAt(1);
+        view.setUint16(6, length, true);
+    }
+
+    return bytes;
+};
+
+/**
+ * Item, item delimitation and sequence delimitation tags
+ */
+const item = (tag: string, length: number) => header(tag, null, length);
+
+const pad = (value: Uint8Array, vr: string) => {
+    if (value.length % 2 === 0) {
+        return value;
+    }
+
+    const padded = new Uint8Array(value.length + 1);
+    padded.set(value);
+    padded[value.length] = NULL_PADDED_VRS.includes(vr) ? 0x00 : 0x20;
+    return padded;
+};
+
+/**
+ * VR written in explicit VR: 'US or OW' attributes (LUT Data) are OW, US lengths are 16 bit
+ */
+const explicitVR = (tag: string, vr: string) =>
+    vr === 'US' && dictionaryEntry(tag)?.vr === 'US or OW' ? 'OW' : vr;
+
+const encodeElement = (tag: string, element: MutableElement, encoding: Encoding): Uint8Array[] => {
+    const vr = encoding.explicit ? explicitVR(tag, element.vr) : null;
+
+    if (element.fragments) {
+        const fragments = element.fragments.flatMap((fragment) => {
+            const padded = pad(fragment, 'OB');
+            return [item('xfffee000', padded.length), padded];
+        });
+
+        return [header(tag, 'OB', UNDEFINED_LENGTH), ...fragments, item('xfffee0dd', 0)];
+    }
+
+    if (element.items) {
+        const items = element.items.flatMap((dataSet) => {
+            const content = encodeDataSet(dataSet, encoding);
+            return encoding.undefinedLength
+                ? [item('xfffee000', UNDEFINED_LENGTH), ...content, item('xfffee00d', 0)]
+                : [item('xfffee000', byteLength(content)), ...content];
+        });
+
+        return encoding.undefinedLength
+            ? [header(tag, vr, UNDEFINED_LENGTH), ...items, item('xfffee0dd', 0)]
+            : [header(tag, vr, byteLength(items)), ...items];
+    }
+
+    const value = pad(element.value ?? new Uint8Array(), element.vr);
+
+    return [header(tag, vr, value.length), value];
+};
+
+const encodeDataSet = (dataSet: MutableDataSet, encoding: Encoding, group?: string) =>
+    dataSet.tags
+        .filter((tag) => (group ? tag.startsWith(group) : !tag.startsWith('x0002')))
+        .flatMap((tag) =>
+            encodeElement(tag, dataSet.elements.get(tag) as MutableElement, encoding)
+        );
+
+/**
+ * File Meta Information, always explicit VR little endian, with its group length recomputed
+ */
+const encodeMetaHeader = (dataSet: MutableDataSet, transferSyntaxUID: string) => {
+    const meta = new MutableDataSet();
+    for (const tag of dataSet.tags.filter((tag) => tag.startsWith('x0002'))) {
+        meta.elements.set(tag, dataSet.elements.get(tag) as MutableElement);
+    }
+
+    meta.setBytes('x00020001', new Uint8Array([0, 1]), 'OB');
+    meta.setString(
+        'x00020002',
+        meta.string('x00020002') ?? dataSet.string('x00080016') ?? '',
+        'UI'
+    );
+    meta.setString(
+        'x00020003',
+        meta.string('x00020003') ?? dataSet.string('x00080018') ?? '',
+        'UI'
+    );
+    meta.setString('x00020010', transferSyntaxUID, 'UI');
+    if (!meta.has('x00020012')) {
+        meta.setString('x00020012', IMPLEMENTATION_CLASS_UID, 'UI');
+        meta.setString('x00020013', IMPLEMENTATION_VERSION_NAME, 'SH');
+    }
+    meta.delete('x00020000');
+
+    const elements = encodeDataSet(meta, { explicit: true, undefinedLength: false }, 'x0002');
+    meta.setNumbers('x00020000', byteLength(elements), 'UL');
+
+    return encodeDataSet(meta, { explicit: true, undefinedLength: false }, 'x0002');
+};
+
+/**
+ * Part 10 byte stream of a dataset: preamble, 'DICM', meta header and dataset in explicit or
+ * implicit VR little endian. Encapsulated pixel data keeps its fragments and requires the
+ * compressed transfer syntax it was encoded with.
+ */
+export const writeDicom = (dataSet: MutableDataSet, options: WriteOptions = {}) => {
+    let transferSyntaxUID =
+        options.transferSyntaxUID ?? dataSet.string('x00020010') ?? EXPLICIT_VR_LITTLE_ENDIAN;
+
+    // values of the mutable dataset are little endian
+    if (!options.transferSyntaxUID && transferSyntaxUID === '1.2.840.10008.1.2.2') {
+        transferSyntaxUID = EXPLICIT_VR_LITTLE_ENDIAN;
+    }
+
+    if (
+        transferSyntaxUID === '1.2.840.10008.1.2.2' ||
+        transferSyntaxUID === '1.2.840.10008.1.2.1.99'
+    ) {
+        const error = new Error(`writer.dicom unsupported transfer syntax: ${transferSyntaxUID}`);
+        throw error;
+    }
+
+    const native = [IMPLICIT_VR_LITTLE_ENDIAN, EXPLICIT_VR_LITTLE_ENDIAN].includes(
+        transferSyntaxUID
+    );
+    const pixelData = dataSet.element('x7fe00010');
+    if (pixelData && native === !!pixelData.fragments) {
+        const error = new Error(
+            native
+                ? `writer.dicom encapsulated pixel data needs a compressed transfer syntax, not ${transferSyntaxUID}`
+                : `writer.dicom native pixel data cannot be written with ${transferSyntaxUID}`
+        );
+        throw error;
+    }
+
+    const encoding = {
+        explicit: transferSyntaxUID !== IMPLICIT_VR_LITTLE_ENDIAN,
+        undefinedLength: options.undefinedLength ?? false,
+    };
+
+    const preamble = new Uint8Array(132);
+    preamble.set([0x44, 0x49, 0x43, 0x4d], 128);
+
+    return concat([
+        preamble,
+        ...encodeMetaHeader(dataSet, transferSyntaxUID),
+        ...encodeDataSet(dataSet, encoding),
+    ]);
+};